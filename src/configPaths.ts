@@ -0,0 +1,69 @@
+// "Copy Config Path" puts the option path at the cursor on the clipboard, and
+// "Go to Config Path" jumps to the node declaring a path, from every node of
+// the workspace.
+
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+
+const PATH_REQUEST = "zen-nix/configPath";
+const NODES_REQUEST = "zen-nix/configNodes";
+
+interface ConfigNode {
+  path: string;
+  uri: string;
+  range: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+}
+
+export function registerConfigPathCommands(
+  context: vscode.ExtensionContext,
+  client: LanguageClient,
+) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("zen-nix.copyConfigPath", async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor?.document.languageId !== "zen-nix") {
+        vscode.window.showWarningMessage("Open a Z.O.N.E. file first.");
+        return;
+      }
+      const path = await client.sendRequest<string | null>(PATH_REQUEST, {
+        uri: editor.document.uri.toString(),
+        position: editor.selection.active,
+      });
+      if (!path) {
+        vscode.window.showWarningMessage(
+          "The config path here depends on a dynamic name.",
+        );
+        return;
+      }
+      await vscode.env.clipboard.writeText(path);
+      vscode.window.setStatusBarMessage(`Copied ${path}`, 3000);
+    }),
+    vscode.commands.registerCommand("zen-nix.goToConfigPath", async () => {
+      const nodes = await client.sendRequest<ConfigNode[]>(NODES_REQUEST, {});
+      const picked = await vscode.window.showQuickPick(
+        nodes.map((node) => ({
+          label: node.path,
+          description: vscode.workspace.asRelativePath(
+            vscode.Uri.parse(node.uri),
+          ),
+          node,
+        })),
+        { placeHolder: "Config path", matchOnDescription: true },
+      );
+      if (!picked) return;
+      const { start, end } = picked.node.range;
+      const selection = new vscode.Range(
+        start.line,
+        start.character,
+        end.line,
+        end.character,
+      );
+      await vscode.window.showTextDocument(vscode.Uri.parse(picked.node.uri), {
+        selection,
+      });
+    }),
+  );
+}
@@ -0,0 +1,156 @@
+// "Show Desugared Nix": a read-only preview of the plain Nix a Z.O.N.E. file
+// stands for, kept up to date while typing and scrolled along with its
+// source, and "Export as Nix" to save it next to the file, formatted with
+// nixfmt when it is installed.
+
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+
+const SCHEME = "zen-nix-desugared";
+const REQUEST = "zen-nix/desugar";
+
+/** Delay between the last edit and the preview refresh. */
+const REFRESH_DELAY = 300;
+
+/** How long a scroll that we caused is not echoed back. */
+const ECHO_WINDOW = 100;
+
+interface Desugared {
+  text: string;
+  sourceLines: number[];
+}
+
+/** The preview of a source document carries the source URI as its query. */
+function previewUri(source: vscode.Uri): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: SCHEME,
+    path: source.path.replace(/\.z(str|cfg|mdl|pkg)$/, "") + ".nix",
+    query: source.toString(),
+  });
+}
+
+function sourceUri(preview: vscode.Uri): vscode.Uri {
+  return vscode.Uri.parse(preview.query);
+}
+
+export function registerDesugaredPreview(
+  context: vscode.ExtensionContext,
+  client: LanguageClient,
+) {
+  const changed = new vscode.EventEmitter<vscode.Uri>();
+  const lineMaps = new Map<string, number[]>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  const scrolledAt = new Map<vscode.TextEditor, number>();
+
+  const request = (source: vscode.Uri, format = false) =>
+    client.sendRequest<Desugared | null>(REQUEST, {
+      uri: source.toString(),
+      format,
+    });
+
+  const provider: vscode.TextDocumentContentProvider = {
+    onDidChange: changed.event,
+    async provideTextDocumentContent(uri) {
+      const desugared = await request(sourceUri(uri));
+      if (!desugared) return "# The source file could not be read.\n";
+      lineMaps.set(uri.toString(), desugared.sourceLines);
+      return desugared.text;
+    },
+  };
+
+  const reveal = (editor: vscode.TextEditor, line: number) => {
+    scrolledAt.set(editor, Date.now());
+    editor.revealRange(
+      new vscode.Range(line, 0, line, 0),
+      vscode.TextEditorRevealType.AtTop,
+    );
+  };
+
+  const syncScroll = (event: vscode.TextEditorVisibleRangesChangeEvent) => {
+    const editor = event.textEditor;
+    const top = event.visibleRanges[0]?.start.line;
+    if (top === undefined) return;
+    if (Date.now() - (scrolledAt.get(editor) ?? 0) < ECHO_WINDOW) return;
+    const uri = editor.document.uri;
+    const visible = vscode.window.visibleTextEditors;
+    if (uri.scheme === SCHEME) {
+      const line = lineMaps.get(uri.toString())?.[top];
+      const source = sourceUri(uri).toString();
+      const target = visible.find((e) => e.document.uri.toString() === source);
+      if (target && line !== undefined) reveal(target, line);
+      return;
+    }
+    const preview = previewUri(uri).toString();
+    const lines = lineMaps.get(preview);
+    const target = visible.find((e) => e.document.uri.toString() === preview);
+    if (!target || !lines) return;
+    const line = lines.findIndex((l) => l >= top);
+    reveal(target, line === -1 ? lines.length - 1 : line);
+  };
+
+  const refresh = (document: vscode.TextDocument) => {
+    const preview = previewUri(document.uri);
+    if (!lineMaps.has(preview.toString())) return;
+    clearTimeout(timers.get(preview.toString()));
+    timers.set(
+      preview.toString(),
+      setTimeout(() => {
+        timers.delete(preview.toString());
+        changed.fire(preview);
+      }, REFRESH_DELAY),
+    );
+  };
+
+  /** The Z.O.N.E. file of the active editor, or of the active preview. */
+  const activeSource = (): vscode.Uri | undefined => {
+    const document = vscode.window.activeTextEditor?.document;
+    if (document?.uri.scheme === SCHEME) return sourceUri(document.uri);
+    if (document?.languageId === "zen-nix") return document.uri;
+    vscode.window.showWarningMessage("Open a Z.O.N.E. file first.");
+    return undefined;
+  };
+
+  context.subscriptions.push(
+    changed,
+    vscode.workspace.registerTextDocumentContentProvider(SCHEME, provider),
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (event.document.languageId === "zen-nix") refresh(event.document);
+    }),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.scheme === SCHEME) {
+        lineMaps.delete(document.uri.toString());
+      }
+    }),
+    vscode.window.onDidChangeTextEditorVisibleRanges(syncScroll),
+    vscode.commands.registerCommand("zen-nix.showDesugared", async () => {
+      const source = activeSource();
+      if (!source) return;
+      const document = await vscode.workspace.openTextDocument(
+        previewUri(source),
+      );
+      await vscode.languages.setTextDocumentLanguage(document, "nix");
+      await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        preserveFocus: true,
+        preview: true,
+      });
+    }),
+    vscode.commands.registerCommand("zen-nix.exportNix", async () => {
+      const source = activeSource();
+      if (!source) return;
+      const desugared = await request(source, true);
+      if (!desugared) return;
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: source.with({
+          path: source.path.replace(/\.z(str|cfg|mdl|pkg)$/, "") + ".nix",
+        }),
+        filters: { Nix: ["nix"] },
+      });
+      if (!target) return;
+      await vscode.workspace.fs.writeFile(
+        target,
+        Buffer.from(desugared.text, "utf8"),
+      );
+    }),
+  );
+}
@@ -0,0 +1,140 @@
+// Licenses and maintainers for `$l.` and `$m.`: the bundled nixpkgs licenses,
+// extended or overridden by the dumps named in the settings, and the
+// maintainer list, which is only known from a dump.
+
+import * as fs from "fs";
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  Attribution,
+  Maintainer,
+  checkAttribution,
+  readLicenses,
+  readMaintainers,
+} from "../zone/attribution";
+import { BUNDLED_LICENSES, License } from "../zone/licenses";
+import { getParsed } from "./documents";
+import { resolveSettingPath } from "./options";
+import { getSettings } from "./settings";
+
+interface LoadedDump<T> {
+  file: string;
+  mtimeMs: number;
+  /** Absent when the file could not be read. */
+  entries?: Map<string, T>;
+}
+
+const bundled = new Map(Object.entries(BUNDLED_LICENSES));
+
+let licenseDump: LoadedDump<License> | undefined;
+let maintainerDump: LoadedDump<Maintainer> | undefined;
+let current: Attribution = { licenses: bundled, maintainers: null };
+
+/** Reload `previous` if the setting or the file changed; undefined if unset. */
+function loadDump<T>(
+  setting: string,
+  previous: LoadedDump<T> | undefined,
+  read: (json: unknown) => Map<string, T>,
+  what: string,
+  problems: string[],
+): LoadedDump<T> | undefined {
+  if (!setting) return undefined;
+  const file = resolveSettingPath(setting);
+  let mtimeMs = -1;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    // Reading it below fails with the reason
+  }
+  if (previous?.file === file && previous.mtimeMs === mtimeMs) {
+    return previous;
+  }
+  const dump: LoadedDump<T> = { file, mtimeMs };
+  try {
+    dump.entries = read(JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    problems.push(`Could not load ${what} from ${file}: ${reason}`);
+  }
+  return dump;
+}
+
+/**
+ * Load the license and maintainer dumps whose setting or file changed since
+ * the last call, returning a message for each that could not be loaded.
+ */
+export function loadAttribution(): string[] {
+  const problems: string[] = [];
+  const settings = getSettings().meta;
+  licenseDump = loadDump(
+    settings.licenses,
+    licenseDump,
+    readLicenses,
+    "licenses",
+    problems,
+  );
+  maintainerDump = loadDump(
+    settings.maintainers,
+    maintainerDump,
+    readMaintainers,
+    "maintainers",
+    problems,
+  );
+  const licenses = licenseDump?.entries;
+  current = {
+    licenses: licenses ? new Map([...bundled, ...licenses]) : bundled,
+    maintainers: maintainerDump?.entries ?? null,
+  };
+  return problems;
+}
+
+export function getAttribution(): Attribution {
+  return current;
+}
+
+export function licenseDoc(license: License): string {
+  const parts = [license.fullName];
+  if (license.spdxId) parts.push(`SPDX: \`${license.spdxId}\``);
+  if (license.free === false) parts.push("Unfree.");
+  return parts.join("\n\n");
+}
+
+export function maintainerDoc(maintainer: Maintainer): string {
+  const parts: string[] = [];
+  if (maintainer.name) parts.push(maintainer.name);
+  if (maintainer.github) {
+    parts.push(
+      `GitHub: [@${maintainer.github}](https://github.com/${maintainer.github})`,
+    );
+  }
+  if (maintainer.email) parts.push(`Email: ${maintainer.email}`);
+  return parts.join("\n\n");
+}
+
+export function attributionHover(global: string, name: string): string | null {
+  if (global === "l") {
+    const license = current.licenses.get(name);
+    return license
+      ? `**$l.${name}** — license\n\n${licenseDoc(license)}`
+      : null;
+  }
+  const maintainer = current.maintainers?.get(name);
+  if (!maintainer) return null;
+  const doc = maintainerDoc(maintainer);
+  return `**$m.${name}** — maintainer` + (doc ? `\n\n${doc}` : "");
+}
+
+export function runAttributionChecks(doc: TextDocument): Diagnostic[] {
+  return checkAttribution(getParsed(doc), current).map((issue) => {
+    const diagnostic = Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      issue.message,
+      issue.code === "string-license"
+        ? DiagnosticSeverity.Information
+        : DiagnosticSeverity.Warning,
+      issue.code,
+    );
+    if (issue.suggestion) diagnostic.data = { suggestion: issue.suggestion };
+    return diagnostic;
+  });
+}
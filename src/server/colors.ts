@@ -0,0 +1,173 @@
+// Color swatches and the picker for `$c.` theme colors and the colors of
+// `$type.color` values, and the malformed-color check for theme colors.
+// Theme colors are whatever the workspace sets under `zenos.theme.colors`,
+// which is what `$c` stands for.
+
+import {
+  Color as LspColor,
+  ColorInformation,
+  ColorPresentation,
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Expr, attrNameText, stringValue, walk } from "../zone/ast";
+import {
+  Color,
+  ColorNotation,
+  colorError,
+  formatColor,
+  parseColor,
+} from "../zone/colors";
+import { CONFIG_ROOT, ConfigEntry } from "../zone/paths";
+import { colorValues } from "../zone/types";
+import { getParsed } from "./documents";
+import { configTree, documentEntries } from "./paths";
+
+const THEME_COLORS = [CONFIG_ROOT, "theme", "colors"];
+
+/** Most names offered when picking a color for a `$c.` reference. */
+const MAX_THEME_PRESENTATIONS = 5;
+
+interface ThemeColor {
+  name: string;
+  value: Expr;
+}
+
+/**
+ * The `$c.` names a file sets, in either form:
+ * `theme.colors.accent = "…";` or `theme.colors = { accent = "…"; };`.
+ */
+function themeColorsOf(entries: ConfigEntry[]): ThemeColor[] {
+  const colors: ThemeColor[] = [];
+  const under = (path: string[]) =>
+    THEME_COLORS.every((name, i) => path[i] === name);
+  for (const entry of entries) {
+    const value = entry.value;
+    if (entry.kind !== "setting" || !value || !under(entry.path)) continue;
+    if (entry.path.length === THEME_COLORS.length + 1) {
+      colors.push({ name: entry.path[THEME_COLORS.length], value });
+    } else if (
+      entry.path.length === THEME_COLORS.length &&
+      value.kind === "AttrSet"
+    ) {
+      for (const item of value.items) {
+        if (item.kind !== "Binding" || item.path.length !== 1) continue;
+        const name = attrNameText(item.path[0]);
+        if (name && item.value) colors.push({ name, value: item.value });
+      }
+    }
+  }
+  return colors;
+}
+
+/** Every `$c.` name of the workspace with its color; the first one wins. */
+function themeColors(): Map<string, Color> {
+  const colors = new Map<string, Color>();
+  for (const file of configTree()) {
+    for (const theme of themeColorsOf(file.entries)) {
+      const text = stringValue(theme.value);
+      const color = text !== null && parseColor(text);
+      if (color && !colors.has(theme.name)) colors.set(theme.name, color);
+    }
+  }
+  return colors;
+}
+
+const toLsp = (color: Color): LspColor =>
+  LspColor.create(color.red, color.green, color.blue, color.alpha);
+
+/** Offsets of the text between the quotes of a one-line string. */
+function literalRange(value: Expr): { start: number; end: number } | null {
+  if (value.kind !== "String" || value.indented) return null;
+  return { start: value.start + 1, end: value.end - 1 };
+}
+
+export function provideDocumentColors(
+  document: TextDocument,
+): ColorInformation[] {
+  const parsed = getParsed(document);
+  const theme = themeColors();
+  const found: ColorInformation[] = [];
+  const add = (start: number, end: number, color: Color) =>
+    found.push(
+      ColorInformation.create(
+        Range.create(document.positionAt(start), document.positionAt(end)),
+        toLsp(color),
+      ),
+    );
+
+  const literal = (value: Expr) => {
+    const range = literalRange(value);
+    const text = stringValue(value);
+    const color = text !== null && parseColor(text);
+    if (range && color) add(range.start, range.end, color);
+  };
+
+  walk(parsed.file, (node) => {
+    if (node.kind !== "ZenVar") return;
+    const name = node.segments[0]?.name;
+    const color = node.name === "c" && name ? theme.get(name) : undefined;
+    if (color) add(node.start, node.end, color);
+    return false;
+  });
+  for (const value of colorValues(parsed)) literal(value);
+  for (const { value } of themeColorsOf(documentEntries(document))) {
+    literal(value);
+  }
+  return found;
+}
+
+export function provideColorPresentations(
+  document: TextDocument,
+  color: LspColor,
+  range: Range,
+): ColorPresentation[] {
+  const text = document.getText(range);
+  const edit = (label: string) =>
+    ColorPresentation.create(label, TextEdit.replace(range, label));
+
+  if (text.startsWith("$c.")) {
+    // A reference stays one: offer the theme colors nearest to the pick
+    const distance = (c: Color) =>
+      (c.red - color.red) ** 2 +
+      (c.green - color.green) ** 2 +
+      (c.blue - color.blue) ** 2 +
+      (c.alpha - color.alpha) ** 2;
+    return [...themeColors()]
+      .sort((a, b) => distance(a[1]) - distance(b[1]))
+      .slice(0, MAX_THEME_PRESENTATIONS)
+      .map(([name]) => edit(`$c.${name}`));
+  }
+
+  const original = parseColor(text);
+  const notations: ColorNotation[] =
+    original?.notation === "rgb" ? ["rgb", "hex"] : ["hex", "rgb"];
+  return notations.map((notation) =>
+    edit(formatColor(color, notation, original?.short)),
+  );
+}
+
+/** Malformed theme colors; `$type.color` values are left to the type checks. */
+export function runColorChecks(document: TextDocument): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const { name, value } of themeColorsOf(documentEntries(document))) {
+    const text = stringValue(value);
+    const error = text !== null && colorError(text);
+    if (!error) continue;
+    diagnostics.push(
+      Diagnostic.create(
+        Range.create(
+          document.positionAt(value.start),
+          document.positionAt(value.end),
+        ),
+        `Malformed color for $c.${name}: ${error}.`,
+        DiagnosticSeverity.Error,
+        "malformed-color",
+      ),
+    );
+  }
+  return diagnostics;
+}
@@ -0,0 +1,583 @@
+// Completion for ZenOS-extended Nix.
+
+import * as path from "path";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionList,
+  InsertTextFormat,
+  MarkupKind,
+  Position,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { callAt, enableOptionMeta } from "../zone/calls";
+import { cursorContext } from "../zone/context";
+import {
+  ACTION_DOCS,
+  ENABLE_OPTION_DOC,
+  ENABLE_OPTION_PARTS,
+  GLOBAL_DOCS,
+  STRUCTURAL_DOCS,
+  TYPE_DOCS,
+} from "../zone/docs";
+import {
+  OPTION_SET_LABELS,
+  findOption,
+  isPlaceholder,
+  optionPathAt,
+  optionType,
+} from "../zone/options";
+import { matchPackages, packageValueAt } from "../zone/packages";
+import { BUILD_TYPES, FETCHERS, blockFieldsAt } from "../zone/schema";
+import { TYPE_NAMES, ZoneType } from "../zone/types";
+import { getVocabulary } from "../zone/vocabulary";
+import { getAttribution, licenseDoc, maintainerDoc } from "./attribution";
+import { getParsed } from "./documents";
+import { displayName } from "./imports";
+import { ZPKG_ONLY_BLOCKS, ZPKG_ONLY_GLOBALS } from "./kinds";
+import { optionDoc, optionTree } from "./options";
+import { packageDoc, packageIndexes } from "./packages";
+import { configTree } from "./paths";
+import { getProjectConfig } from "./project";
+import { SYMBOL_ACCESSORS, visibleSymbols } from "./symbols";
+import { fileKind, listWorkspaceFiles, uriToPath } from "./workspace";
+
+/** Most packages offered at once; typing more narrows the list down. */
+const MAX_PACKAGE_ITEMS = 100;
+
+/**
+ * The client's command for opening the suggestions again, named in the
+ * `suggestCommand` initialization option. Without one, accepting a package
+ * set or an option group just inserts it.
+ */
+let suggestCommand: string | undefined;
+
+export function setSuggestCommand(command: unknown) {
+  suggestCommand = typeof command === "string" && command ? command : undefined;
+}
+
+/** Open the suggestions again once `item` is in, to pick one of its members. */
+function suggestAfter(item: CompletionItem) {
+  if (!suggestCommand) return;
+  item.command = { title: "Suggest", command: suggestCommand };
+}
+
+export function provideCompletionItems(
+  document: TextDocument,
+  position: Position,
+): CompletionList {
+  const completions: CompletionItem[] = [];
+  let isIncomplete = false;
+  const linePrefix = document.getText({
+    start: { line: position.line, character: 0 },
+    end: position,
+  });
+  const offset = document.offsetAt(position);
+  const parsed = getParsed(document);
+  const ctx = cursorContext(parsed, offset);
+
+  if (ctx.inComment || ctx.inString) {
+    return CompletionList.create(completions);
+  }
+
+  // `_src`, `_build` and `$deps` belong to packages; files of unknown kind
+  // get everything.
+  const kind = fileKind(document.uri);
+  const allowsZpkgOnly = !kind || kind === "zpkg";
+
+  // Helper to explicitly calculate the overwrite range, bypassing the client's word engine
+  const createItemWithRange = (
+    label: string,
+    kind: CompletionItemKind,
+    insert: string,
+    detail: string,
+    matchText: string,
+    documentation?: string,
+  ): CompletionItem => {
+    const startPos = position.character - matchText.length;
+    const range = Range.create(
+      position.line,
+      Math.max(0, startPos),
+      position.line,
+      position.character,
+    );
+
+    return {
+      label,
+      kind,
+      detail,
+      insertTextFormat: InsertTextFormat.Snippet,
+      textEdit: TextEdit.replace(range, insert),
+      documentation: documentation && {
+        kind: MarkupKind.Markdown,
+        value: documentation,
+      },
+    };
+  };
+
+  // The part of `$global.member` being typed, straight from the AST. Only
+  // that part is replaced; the `$` and `$type.` prefixes stay in place.
+  const zenVar = ctx.zenVar;
+  const member = zenVar?.segments[0];
+
+  // 1. $type. Context
+  const typeMatch =
+    zenVar?.name === "type" &&
+    member &&
+    zenVar.segments.length === 1 &&
+    offset >= member.start
+      ? [parsed.text.substring(member.start, offset)]
+      : null;
+  if (typeMatch) {
+    TYPE_NAMES.forEach((type) => {
+      completions.push(
+        createItemWithRange(
+          `$type.${type}`,
+          CompletionItemKind.EnumMember,
+          type,
+          `ZenOS Type: ${type}`,
+          typeMatch[0],
+          TYPE_DOCS[type],
+        ),
+      );
+    });
+  }
+
+  // 2. Global Variables Context ($)
+  const globalVarMatch =
+    zenVar && offset <= zenVar.nameEnd
+      ? [parsed.text.substring(zenVar.start + 1, offset)]
+      : null;
+  if (globalVarMatch && !typeMatch) {
+    Object.entries(GLOBAL_DOCS).forEach(([label, doc]) => {
+      if (!allowsZpkgOnly && ZPKG_ONLY_GLOBALS.includes(label)) return;
+      completions.push(
+        createItemWithRange(
+          `$${label}`,
+          CompletionItemKind.Variable,
+          label,
+          doc.detail,
+          globalVarMatch[0],
+          doc.doc,
+        ),
+      );
+    });
+  }
+
+  // 2b. `$v.` / `$f.` members from the symbol index (this file and its imports)
+  const accessor = zenVar ? SYMBOL_ACCESSORS[zenVar.name] : undefined;
+  if (
+    accessor &&
+    member &&
+    zenVar!.segments.length === 1 &&
+    offset >= member.start
+  ) {
+    const memberText = parsed.text.substring(member.start, offset);
+    visibleSymbols(document.uri)
+      .filter((symbol) => symbol.kind === accessor)
+      .forEach((symbol) => {
+        const where =
+          symbol.uri === document.uri
+            ? ""
+            : ` (${symbol.uri.substring(symbol.uri.lastIndexOf("/") + 1)})`;
+        completions.push(
+          createItemWithRange(
+            symbol.name,
+            accessor === "let"
+              ? CompletionItemKind.Variable
+              : CompletionItemKind.Field,
+            symbol.name,
+            accessor === "let"
+              ? `_let ${symbol.name} : ${symbol.type ?? "?"}${where}`
+              : `Freeform identifier${where}`,
+            memberText,
+          ),
+        );
+      });
+  }
+
+  // 2c. `$l.` licenses and `$m.` maintainers
+  if (
+    (zenVar?.name === "l" || zenVar?.name === "m") &&
+    member &&
+    zenVar.segments.length === 1 &&
+    offset >= member.start
+  ) {
+    const memberText = parsed.text.substring(member.start, offset);
+    const { licenses, maintainers } = getAttribution();
+    if (zenVar.name === "l") {
+      licenses.forEach((license, name) => {
+        completions.push(
+          createItemWithRange(
+            name,
+            CompletionItemKind.Constant,
+            name,
+            license.spdxId ?? license.fullName,
+            memberText,
+            licenseDoc(license),
+          ),
+        );
+      });
+    } else {
+      maintainers?.forEach((maintainer, handle) => {
+        completions.push(
+          createItemWithRange(
+            handle,
+            CompletionItemKind.Value,
+            handle,
+            maintainer.name ?? "Maintainer",
+            memberText,
+            maintainerDoc(maintainer),
+          ),
+        );
+      });
+    }
+  }
+
+  // 3. Keywords & Metadata (_)
+  const keywordMatch = ctx.bindingPosition
+    ? linePrefix.match(/(?:^|\s)(_[a-zA-Z0-9_-]*)$/)
+    : null;
+  if (keywordMatch) {
+    [
+      { label: "meta", detail: "Module Metadata block" },
+      { label: "let", detail: "Internal typed variable" },
+      { label: "import", detail: "Import another ZenOS file" },
+      { label: "src", detail: ".zpkg source fetcher block" },
+      { label: "build", detail: ".zpkg build configuration" },
+    ].forEach((kw) => {
+      if (!allowsZpkgOnly && ZPKG_ONLY_BLOCKS.includes(`_${kw.label}`)) return;
+      let snippetBody: string;
+      if (kw.label === "let") {
+        snippetBody = `_let $0`;
+      } else if (kw.label === "meta") {
+        const metaFields = [
+          "brief",
+          "description",
+          "dependencies",
+          "version",
+          "maintainers",
+          "license",
+        ]
+          .map((v) =>
+            v === "maintainers" || v === "dependencies"
+              ? `\t${v} = [];\n`
+              : `\t${v} = "";\n`,
+          )
+          .join("");
+        snippetBody = `_meta = {\n${metaFields}$0\n};`;
+      } else if (kw.label === "import") {
+        snippetBody = `_import "\${1:path}"`;
+      } else if (kw.label === "src") {
+        snippetBody = `_src = src.\${1|${Object.keys(FETCHERS).join(",")}|} {\n\towner = "\${2:owner}";\n\trepo  = "\${3:repo}";\n\trev   = "\${4:rev}";\n\thash  = "sha256-\${5:...}";\n};`;
+      } else if (kw.label === "build") {
+        snippetBody = `_build = {\n\ttype = \\$type.\${1|${Object.keys(BUILD_TYPES).join(",")}|};\n\t$0\n};`;
+      } else {
+        snippetBody = `_${kw.label} = {\n\t$0\n};`;
+      }
+      completions.push(
+        createItemWithRange(
+          `_${kw.label}`,
+          CompletionItemKind.Keyword,
+          snippetBody,
+          kw.detail,
+          keywordMatch[1],
+        ),
+      );
+    });
+    // and those the project configuration adds
+    for (const [name, kw] of Object.entries(getProjectConfig().keywords)) {
+      completions.push(
+        createItemWithRange(
+          name,
+          CompletionItemKind.Keyword,
+          kw.snippet,
+          kw.detail,
+          keywordMatch[1],
+        ),
+      );
+    }
+  }
+
+  // 3b. Fields of the enclosing `_meta` / `_src` / `_build` block
+  const fieldMatch = linePrefix.match(/([a-zA-Z0-9_-]*)$/);
+  const blockFields =
+    ctx.bindingPosition || ctx.chain[ctx.chain.length - 2]?.kind === "Binding"
+      ? blockFieldsAt(parsed, offset)
+      : null;
+  if (blockFields && fieldMatch) {
+    const { instance, missing } = blockFields;
+    const dotted = instance.set === null;
+    missing.forEach((name) => {
+      const field = instance.schema!.fields[name];
+      const value =
+        instance.block === "_build" && name === "type"
+          ? `\\$type.\${1|${Object.keys(BUILD_TYPES).join(",")}|}`
+          : typeSnippet(field.type);
+      completions.push(
+        createItemWithRange(
+          name,
+          CompletionItemKind.Field,
+          dotted ? name : `${name} = ${value};`,
+          `${instance.label}.${name}${field.required ? " (required)" : ""} — ${field.doc}`,
+          fieldMatch[1],
+        ),
+      );
+    });
+  }
+
+  // 3c. Fetchers after `_src = src.`
+  const fetcherMatch = linePrefix.match(/_src\s*=\s*src\.([a-zA-Z]*)$/);
+  if (fetcherMatch && allowsZpkgOnly) {
+    Object.entries(FETCHERS).forEach(([name, fetcher]) => {
+      const args = Object.entries(fetcher.fields)
+        .filter(([, field]) => field.required)
+        .map(
+          ([arg, field], i) =>
+            `\t${arg} = ${typeSnippet(field.type, i + 1)};\n`,
+        )
+        .join("");
+      completions.push(
+        createItemWithRange(
+          `src.${name}`,
+          CompletionItemKind.Function,
+          `${name} {\n${args}\t$0\n}`,
+          fetcher.doc,
+          fetcherMatch[1],
+        ),
+      );
+    });
+  }
+
+  // 4. Action Shorthands — all six forms (!! before ! to avoid ambiguity)
+  const shorthandMatch = linePrefix.match(/(?:^|\s)(s!!|u!!|s!|u!|!!|!)$/);
+  const isBlankLine = linePrefix.trim().length === 0;
+
+  if (ctx.bindingPosition && (shorthandMatch || isBlankLine)) {
+    const matchText = shorthandMatch ? shorthandMatch[1] : "";
+    Object.entries(ACTION_DOCS).forEach(([label, doc]) => {
+      if (matchText && !label.startsWith(matchText)) return;
+
+      completions.push(
+        createItemWithRange(
+          label,
+          CompletionItemKind.Snippet,
+          `${label} {\n\t$0\n};`,
+          doc.detail,
+          matchText || "",
+          doc.doc,
+        ),
+      );
+    });
+  }
+
+  // 5. enableOption sugar (triggered when typing "enable...")
+  const enableMatch = linePrefix.match(/(?:^|\s)(enable[a-zA-Z0-9_-]*)$/);
+  if (enableMatch) {
+    completions.push(
+      createItemWithRange(
+        "enableOption",
+        CompletionItemKind.Function,
+        `enableOption {\n\t_meta.brief = "\${1:Install \\\$name}";\n\n\ts! {\n\t\t$0\n\t};\n}`,
+        ENABLE_OPTION_DOC.detail,
+        enableMatch[1],
+        ENABLE_OPTION_DOC.doc,
+      ),
+    );
+  }
+
+  // 5b. `_meta.brief` / `_meta.description` in an `enableOption` body
+  const call = callAt(parsed, offset);
+  const metaMatch = linePrefix.match(/(?:^|\s)(_?[a-zA-Z.]*)$/);
+  if (call?.kind === "enableOption" && ctx.bindingPosition && metaMatch) {
+    const present = enableOptionMeta(call.option);
+    (["brief", "description"] as const).forEach((field) => {
+      if (present.includes(field)) return;
+      const part = ENABLE_OPTION_PARTS[field];
+      completions.push(
+        createItemWithRange(
+          part.detail,
+          CompletionItemKind.Field,
+          `${part.detail} = "$1";`,
+          `enableOption — ${part.doc}`,
+          metaMatch[1],
+        ),
+      );
+    });
+  }
+
+  // 6. Structural node completions — triggered after '('
+  const structMatch = ctx.structural
+    ? parsed.text
+        .substring(ctx.structural.start, offset)
+        .match(/^\(\s*([a-zA-Z0-9_-]*)$/)
+    : null;
+  if (structMatch) {
+    const prefix = structMatch[1];
+    [
+      { type: "freeform", snippet: `freeform \${1:id})` },
+      { type: "zmdl", snippet: `zmdl \${1:name})` },
+      { type: "alias", snippet: `alias \${1:path})` },
+      { type: "programs", snippet: `programs)` },
+      { type: "packages", snippet: `packages)` },
+      ...Object.entries(getVocabulary().nodes).map(([type, { arg }]) => ({
+        type,
+        snippet: arg ? `${type} \${1:${arg.name}})` : `${type})`,
+      })),
+    ].forEach(({ type, snippet }) => {
+      if (prefix && !type.startsWith(prefix)) return;
+      const doc = STRUCTURAL_DOCS[type];
+      completions.push(
+        createItemWithRange(
+          `(${type})`,
+          CompletionItemKind.Keyword,
+          snippet,
+          `ZenOS structural node — ${doc.detail}`,
+          structMatch[1],
+          doc.doc,
+        ),
+      );
+    });
+  }
+
+  // 6b. Arguments: module names after `(zmdl `, config paths after `(alias `
+  if (call?.kind === "structural" && call.node === "zmdl") {
+    listWorkspaceFiles()
+      .map(uriToPath)
+      .filter((file) => file.endsWith(".zmdl"))
+      .forEach((file) => {
+        const name = path.basename(file, ".zmdl");
+        completions.push(
+          createItemWithRange(
+            name,
+            CompletionItemKind.Module,
+            name,
+            displayName(file),
+            call.typed,
+          ),
+        );
+      });
+  }
+  if (call?.kind === "structural" && call.node === "alias") {
+    const seen = new Set<string>();
+    for (const file of configTree()) {
+      for (const entry of file.entries) {
+        // Paths below `zenos.`; freeform entries have no fixed name
+        const target = entry.path.slice(1).join(".");
+        if (!target || target.includes("<") || seen.has(target)) continue;
+        seen.add(target);
+        completions.push(
+          createItemWithRange(
+            target,
+            entry.kind === "node"
+              ? CompletionItemKind.Module
+              : entry.kind === "alias"
+                ? CompletionItemKind.Reference
+                : CompletionItemKind.Property,
+            target,
+            `${entry.kind} in ${file.uri.startsWith("file:") ? displayName(uriToPath(file.uri)) : file.uri}`,
+            call.typed,
+          ),
+        );
+      }
+    }
+  }
+
+  // 7. NixOS / Home Manager option names in action bodies and after `$cfg.`
+  const optionPath = optionPathAt(parsed, offset);
+  const options = optionPath && optionTree(optionPath.set);
+  const group = options && findOption(options, optionPath.path);
+  if (optionPath && group) {
+    const label = OPTION_SET_LABELS[optionPath.set];
+    // Only the name is inserted when the rest of the binding is already there
+    const complete =
+      optionPath.cfg || /^[\w'-]*\s*[=.]/.test(parsed.text.slice(offset));
+    group.children.forEach((child, key) => {
+      if (isPlaceholder(key)) return;
+      const name = /^[a-zA-Z_][\w'-]*$/.test(key) ? key : JSON.stringify(key);
+      const option = child.option;
+      const nested = child.children.size > 0;
+      const type = option && optionType(option.type);
+      const item = createItemWithRange(
+        key,
+        nested ? CompletionItemKind.Module : CompletionItemKind.Property,
+        complete
+          ? name
+          : nested
+            ? `${name}.`
+            : `${name} = ${type ? typeSnippet(type) : "$1"};`,
+        option ? `${label} option: ${option.type}` : `${label} options`,
+        optionPath.typed,
+        option && optionDoc(option),
+      );
+      if (nested && !complete) suggestAfter(item);
+      completions.push(item);
+    });
+  }
+
+  // 8. Packages after `$pkgs.`, and bare names where a package is expected
+  const pkgsSegment =
+    zenVar?.name === "pkgs"
+      ? zenVar.segments.findIndex((s) => offset >= s.start && offset <= s.end)
+      : -1;
+  const packagePrefix =
+    pkgsSegment !== -1
+      ? zenVar!.segments.slice(0, pkgsSegment).map((s) => s.name)
+      : null;
+  const packageTyped =
+    pkgsSegment !== -1
+      ? parsed.text.substring(zenVar!.segments[pkgsSegment].start, offset)
+      : !zenVar && packageValueAt(parsed, offset)?.typed;
+  if (typeof packageTyped === "string") {
+    const { matches, total } = matchPackages(
+      packageIndexes(),
+      packagePrefix ?? [],
+      packageTyped,
+      MAX_PACKAGE_ITEMS,
+    );
+    isIncomplete = total > matches.length;
+    matches.forEach(({ name, attr, info }, rank) => {
+      const nested = info === "group";
+      const item = createItemWithRange(
+        packagePrefix ? name : `$pkgs.${attr}`,
+        nested ? CompletionItemKind.Module : CompletionItemKind.Value,
+        // `$` starts a snippet variable
+        packagePrefix
+          ? name + (nested ? "." : "")
+          : `\\$pkgs.${attr}` + (nested ? "." : ""),
+        nested
+          ? "Package set"
+          : [info.version, info.uri ? "workspace" : ""]
+              .filter(Boolean)
+              .join(" · ") || "Package",
+        packageTyped,
+        nested ? undefined : packageDoc(info),
+      );
+      // Keep the ranking of the fuzzy match, not the client's own
+      item.sortText = String(rank).padStart(4, "0");
+      item.filterText = packagePrefix ? name : attr;
+      if (nested) suggestAfter(item);
+      completions.push(item);
+    });
+  }
+
+  return CompletionList.create(completions, isIncomplete);
+}
+
+/** Snippet placeholder matching a type. */
+function typeSnippet(type: ZoneType, tabstop = 1): string {
+  switch (type.kind) {
+    case "bool":
+      return `\${${tabstop}|true,false|}`;
+    case "list":
+      return `[ $${tabstop} ]`;
+    case "set":
+      return `{ $${tabstop} }`;
+    case "string":
+      return `"$${tabstop}"`;
+    default:
+      return `$${tabstop}`;
+  }
+}
@@ -0,0 +1,325 @@
+// Diagnostics for ZenOS-extended Nix: parser findings, `_let` and option type
+// checks, `_meta`/`_src`/`_build` schema checks, unknown packages, licenses and
+// maintainers, dangling and looping aliases, malformed theme colors,
+// deprecated action spellings, and a debounced `nix-instantiate --parse` (and
+// optionally `--eval --strict`) run on the masked text. The project
+// configuration can change the severity of each check by its code, or turn it
+// off. Checks are scheduled per document, so editing one file never holds back
+// another.
+
+import * as cp from "child_process";
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { MaskedText, maskForCompiler } from "../zone/mask";
+import { checkBlocks } from "../zone/schema";
+import { checkDeclarations } from "../zone/types";
+import { runAttributionChecks } from "./attribution";
+import { runColorChecks } from "./colors";
+import { getParsed } from "./documents";
+import { runImportChecks } from "./imports";
+import { runFileKindChecks } from "./kinds";
+import { runLegacyActionChecks } from "./legacy";
+import { runOptionChecks } from "./options";
+import { runPackageChecks } from "./packages";
+import { runAliasChecks } from "./paths";
+import { getProjectConfig } from "./project";
+import { getSettings } from "./settings";
+
+export type PublishDiagnostics = (
+  uri: string,
+  diagnostics: Diagnostic[],
+) => void;
+
+/** Delay between the last edit and the `nix-instantiate` run. */
+const COMPILER_DELAY = 500;
+
+/** The latest check of a document; there is at most one per URI. */
+interface PendingCheck {
+  version: number;
+  timer?: NodeJS.Timeout;
+  process?: cp.ChildProcess;
+  /** Settles the promise returned by `scheduleDiagnostics`. */
+  done: () => void;
+}
+
+const pending = new Map<string, PendingCheck>();
+
+/**
+ * Publish the in-process checks of a document right away, and the alias
+ * checks against the whole config tree and the compiler check once the
+ * document has been left alone for a moment. A newer check of
+ * the same document cancels this one, including its running process, and
+ * results are only published for the version they were computed from. The
+ * promise settles when the check has been published or superseded.
+ */
+export function scheduleDiagnostics(
+  doc: TextDocument,
+  publish: PublishDiagnostics,
+  delay = COMPILER_DELAY,
+): Promise<void> {
+  cancelDiagnostics(doc.uri);
+
+  // Run the static heuristics immediately
+  const heuristics = runStaticHeuristics(doc);
+  const typeChecks = runTypeChecks(doc);
+  const schemaChecks = runSchemaChecks(doc);
+  const importChecks = runImportChecks(doc);
+  const fileKindChecks = runFileKindChecks(doc);
+  const optionChecks = runOptionChecks(doc);
+  const packageChecks = runPackageChecks(doc);
+  const attributionChecks = runAttributionChecks(doc);
+  const colorChecks = runColorChecks(doc);
+  const legacyChecks = runLegacyActionChecks(doc);
+  const initialDiagnostics = [
+    ...heuristics,
+    ...typeChecks,
+    ...schemaChecks,
+    ...importChecks,
+    ...fileKindChecks,
+    ...optionChecks,
+    ...packageChecks,
+    ...attributionChecks,
+    ...colorChecks,
+    ...legacyChecks,
+  ];
+
+  publish(doc.uri, withSeverities(initialDiagnostics));
+
+  return new Promise((resolve) => {
+    const check: PendingCheck = { version: doc.version, done: resolve };
+    pending.set(doc.uri, check);
+    // Debounce the heavy Nix compiler check
+    check.timer = setTimeout(async () => {
+      check.timer = undefined;
+      const aliasChecks = runAliasChecks(doc);
+      const settled = [...initialDiagnostics, ...aliasChecks];
+      if (aliasChecks.length > 0) publish(doc.uri, withSeverities(settled));
+      const masked = maskForCompiler(getParsed(doc));
+      const run = (stage: NixStage) => {
+        const { process, result } = runNixCompilerChecks(doc, masked, stage);
+        check.process = process;
+        return result;
+      };
+      let compilerDiagnostics = await run("parse");
+      // Only a file that parses can be evaluated
+      if (
+        compilerDiagnostics.length === 0 &&
+        getSettings().diagnostics.evaluate &&
+        pending.get(doc.uri) === check
+      ) {
+        compilerDiagnostics = await run("eval");
+      }
+      if (pending.get(doc.uri) !== check) return;
+      pending.delete(doc.uri);
+      if (doc.version === check.version) {
+        publish(doc.uri, withSeverities([...settled, ...compilerDiagnostics]));
+      }
+      check.done();
+    }, delay);
+  });
+}
+
+/** The project's severity for each diagnostic code, dropping those turned off. */
+export function withSeverities(diagnostics: Diagnostic[]): Diagnostic[] {
+  const overrides = getProjectConfig().severity;
+  return diagnostics.flatMap((diagnostic) => {
+    const severity =
+      typeof diagnostic.code === "string"
+        ? overrides[diagnostic.code]
+        : undefined;
+    if (severity === undefined) return [diagnostic];
+    return severity === "off" ? [] : [{ ...diagnostic, severity }];
+  });
+}
+
+/** Stop the pending check of a document, killing its compiler run. */
+export function cancelDiagnostics(uri: string) {
+  const check = pending.get(uri);
+  if (!check) return;
+  pending.delete(uri);
+  if (check.timer) clearTimeout(check.timer);
+  check.process?.kill();
+  check.done();
+}
+
+/** Forget a closed document: nothing pending, nothing shown. */
+export function clearDiagnostics(uri: string, publish: PublishDiagnostics) {
+  cancelDiagnostics(uri);
+  publish(uri, []);
+}
+
+/**
+ * Check the documents one compiler run at a time. Resolves with how many of
+ * them have problems.
+ */
+export async function checkDocuments(
+  docs: TextDocument[],
+  publish: PublishDiagnostics,
+): Promise<number> {
+  let withProblems = 0;
+  for (const doc of docs) {
+    let found = false;
+    await scheduleDiagnostics(
+      doc,
+      (uri, diagnostics) => {
+        found = diagnostics.length > 0;
+        publish(uri, diagnostics);
+      },
+      0,
+    );
+    if (found) withProblems++;
+  }
+  return withProblems;
+}
+
+export function runTypeChecks(doc: TextDocument): Diagnostic[] {
+  return checkDeclarations(getParsed(doc)).map((issue) =>
+    Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      `Type Error in '${issue.name}': ${issue.message}`,
+      DiagnosticSeverity.Error,
+      issue.code,
+    ),
+  );
+}
+
+export function runSchemaChecks(doc: TextDocument): Diagnostic[] {
+  return checkBlocks(getParsed(doc)).map((issue) =>
+    Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      issue.message,
+      issue.severity === "error"
+        ? DiagnosticSeverity.Error
+        : DiagnosticSeverity.Warning,
+      issue.code,
+    ),
+  );
+}
+
+export function runStaticHeuristics(doc: TextDocument): Diagnostic[] {
+  // The parser already knows every missing ';', '=' and bracket; surface its
+  // findings with the same wording the line-based heuristics used.
+  return getParsed(doc).errors.map((error) => {
+    return Diagnostic.create(
+      Range.create(doc.positionAt(error.start), doc.positionAt(error.end)),
+      error.message,
+      DiagnosticSeverity.Error,
+      error.code,
+    );
+  });
+}
+
+/** Which `nix-instantiate` run found a problem. */
+type NixStage = "parse" | "eval";
+
+const STAGES: Record<NixStage, { args: string[]; label: string }> = {
+  parse: { args: ["--parse", "-"], label: "Syntax Error" },
+  eval: { args: ["--eval", "--strict", "-"], label: "Evaluation Error" },
+};
+
+export interface NixError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Every `error:` in nix-instantiate's output. Older Nix puts the position on
+ * the same line (`… at (stdin):3:1`), newer Nix on the next one
+ * (`at «stdin»:3:1:`), after a trace of what was being evaluated.
+ */
+export function parseNixErrors(stderr: string): NixError[] {
+  const at = /(?:«stdin»|\(stdin\)):(\d+):(\d+)/;
+  return stderr
+    .replace(/\x1b\[[0-9;]*m/g, "")
+    .split(/^error:/m)
+    .slice(1)
+    .map((block) => {
+      // With a trace, the actual error comes last, indented
+      const inner = [...block.matchAll(/^\s+error: (.*)$/gm)].pop();
+      const message = (inner ? inner[1] : block.split("\n")[0])
+        .replace(new RegExp(`,? at ${at.source}:?$`), "")
+        .trim();
+      const position =
+        block.slice(inner?.index ?? 0).match(at) ?? block.match(at);
+      return position
+        ? { message, line: +position[1], column: +position[2] }
+        : { message };
+    });
+}
+
+/**
+ * Run `nix-instantiate` on the masked document. The result is empty when Nix
+ * is not installed or the process was killed.
+ */
+function runNixCompilerChecks(
+  doc: TextDocument,
+  masked: MaskedText,
+  stage: NixStage,
+): {
+  process: cp.ChildProcess;
+  result: Promise<Diagnostic[]>;
+} {
+  const nixProcess = cp.spawn(
+    getProjectConfig().tools.nixInstantiate,
+    STAGES[stage].args,
+  );
+
+  let stderr = "";
+  nixProcess.stderr.on("data", (data) => {
+    stderr += data.toString();
+  });
+
+  const result = new Promise<Diagnostic[]>((resolve) => {
+    // Without Nix on PATH only the in-process checks are available
+    nixProcess.on("error", () => {
+      resolve([]);
+    });
+
+    nixProcess.on("close", (code) => {
+      if (code === 0 || !stderr) {
+        resolve([]);
+        return;
+      }
+      const tokens = getParsed(doc).tokens;
+      const lineStarts = [0];
+      for (let i = 0; i < masked.text.length; i++) {
+        if (masked.text[i] === "\n") lineStarts.push(i + 1);
+      }
+      const diagnostics: Diagnostic[] = [];
+      for (const error of parseNixErrors(stderr)) {
+        let start = 0;
+        let end = 0;
+        if (error.line !== undefined && error.column !== undefined) {
+          const line = Math.min(error.line, lineStarts.length) - 1;
+          const offset = Math.min(
+            lineStarts[line] + error.column - 1,
+            masked.text.length,
+          );
+          // Evaluation trips over the stand-ins for ZenOS values; those
+          // errors say nothing about the user's code
+          if (stage === "eval" && masked.isStandIn(offset)) continue;
+          start = masked.originalOffset(offset);
+          const token = tokens.find((t) => t.start <= start && start < t.end);
+          end = token && token.type !== "eof" ? token.end : start;
+          if (token) start = token.start;
+        }
+        diagnostics.push(
+          Diagnostic.create(
+            Range.create(doc.positionAt(start), doc.positionAt(end)),
+            `${STAGES[stage].label}: ${error.message}`,
+            DiagnosticSeverity.Error,
+            `nix-${stage}`,
+          ),
+        );
+      }
+      resolve(diagnostics);
+    });
+  });
+
+  // Writing to a process that was killed or never started fails harmlessly
+  nixProcess.stdin.on("error", () => {});
+  nixProcess.stdin.write(masked.text);
+  nixProcess.stdin.end();
+  return { process: nixProcess, result };
+}
@@ -0,0 +1,21 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ParseResult, parse } from "../zone/parser";
+
+// Every feature works off the same parse; re-parse only when the text changes.
+let parseCache = new WeakMap<
+  TextDocument,
+  { version: number; result: ParseResult }
+>();
+
+export function getParsed(doc: TextDocument): ParseResult {
+  const cached = parseCache.get(doc);
+  if (cached && cached.version === doc.version) return cached.result;
+  const result = parse(doc.getText());
+  parseCache.set(doc, { version: doc.version, result });
+  return result;
+}
+
+/** Re-parse everything, e.g. once the structural node kinds changed. */
+export function clearParseCache() {
+  parseCache = new WeakMap();
+}
@@ -0,0 +1,66 @@
+// Document, range and on-type formatting with the native formatter.
+
+import { Position, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { FormatEdit, formatEdits } from "../zone/format";
+import { getParsed } from "./documents";
+
+/** Characters that format the line they end, or the line before for `\n`. */
+export const ON_TYPE_TRIGGERS = ["}", ";", "]", "\n"];
+
+function toTextEdits(document: TextDocument, edits: FormatEdit[]): TextEdit[] {
+  return edits.map((edit) =>
+    TextEdit.replace(
+      Range.create(
+        document.positionAt(edit.start),
+        document.positionAt(edit.end),
+      ),
+      edit.text,
+    ),
+  );
+}
+
+export function provideDocumentFormattingEdits(
+  document: TextDocument,
+): TextEdit[] {
+  return toTextEdits(document, formatEdits(getParsed(document)));
+}
+
+/** Edits that touch the range; indentation is still worked out from the whole file. */
+export function provideRangeFormattingEdits(
+  document: TextDocument,
+  range: Range,
+): TextEdit[] {
+  const start = document.offsetAt(range.start);
+  const end = document.offsetAt(range.end);
+  return toTextEdits(
+    document,
+    formatEdits(getParsed(document)).filter(
+      (edit) => edit.end >= start && edit.start <= end,
+    ),
+  );
+}
+
+/**
+ * Format the line a closer or `;` was typed on, up to the cursor, or the line
+ * that was just ended by a newline. Nothing after the cursor moves.
+ */
+export function provideOnTypeFormattingEdits(
+  document: TextDocument,
+  position: Position,
+  ch: string,
+): TextEdit[] {
+  const line = ch === "\n" ? position.line - 1 : position.line;
+  if (line < 0) return [];
+  const start = document.offsetAt(Position.create(line, 0));
+  const end =
+    ch === "\n"
+      ? document.offsetAt(Position.create(position.line, 0)) - 1
+      : document.offsetAt(position);
+  return toTextEdits(
+    document,
+    formatEdits(getParsed(document)).filter(
+      (edit) => edit.end >= start && edit.end <= end,
+    ),
+  );
+}
@@ -0,0 +1,316 @@
+// Hover documentation for ZenOS-extended Nix: `$` globals and their members,
+// `_let` variables, action shorthands, structural nodes, cascades,
+// `enableOption`, the `_meta`/`_src`/`_build` schemas, NixOS options, packages,
+// licenses and maintainers.
+
+import { Hover, MarkupKind, Position, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  AttrSet,
+  Binding,
+  EnableOption,
+  Node,
+  StringLit,
+  attrNameText,
+  nodesAt,
+} from "../zone/ast";
+import {
+  ACTION_DOCS,
+  CASCADE_DOCS,
+  ENABLE_OPTION_DOC,
+  GLOBAL_DOCS,
+  GUARD_DOC,
+  STRUCTURAL_DOCS,
+  TYPE_DOCS,
+} from "../zone/docs";
+import { optionRefAt } from "../zone/options";
+import { schemaHoverAt } from "../zone/schema";
+import { formatType, parseTypeExpr } from "../zone/types";
+import { attributionHover } from "./attribution";
+import { getParsed } from "./documents";
+import { displayName } from "./imports";
+import { resolveModule } from "./kinds";
+import { optionHover } from "./options";
+import { packageHover } from "./packages";
+import { configPath } from "./paths";
+import { ZoneSymbol, declaredSymbols, resolveSymbol } from "./symbols";
+import { documentPath, getDocument, uriToPath } from "./workspace";
+
+/** Longest value shown in a `_let` hover, in lines. */
+const MAX_VALUE_LINES = 12;
+
+export function provideHover(
+  document: TextDocument,
+  position: Position,
+): Hover | null {
+  const parsed = getParsed(document);
+  const offset = document.offsetAt(position);
+  const chain = nodesAt(parsed.file, offset);
+
+  const hover = (value: string, start: number, end: number): Hover => ({
+    contents: { kind: MarkupKind.Markdown, value },
+    range: Range.create(document.positionAt(start), document.positionAt(end)),
+  });
+
+  // `_meta`, `_src` and `_build` blocks and their fields
+  const schema = schemaHoverAt(parsed, offset);
+  if (schema) {
+    let value = `**${schema.title}**${schema.type ? ` : \`${formatType(schema.type)}\`` : ""}\n\n${schema.doc}`;
+    const rendered = renderedMeta(document, chain, offset);
+    if (rendered) value += `\n\n---\n\n${rendered}`;
+    return hover(value, schema.start, schema.end);
+  }
+
+  // NixOS / Home Manager options in action bodies and after `$cfg.`
+  const option = optionRefAt(parsed, offset);
+  const optionValue = option && optionHover(option);
+  if (optionValue) return hover(optionValue, option.start, option.end);
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    switch (node.kind) {
+      case "ZenVar": {
+        if (offset <= node.nameEnd) {
+          const doc = GLOBAL_DOCS[node.name];
+          if (!doc) return null;
+          return hover(
+            `**$${node.name}** — ${doc.detail}\n\n${doc.doc}`,
+            node.start,
+            node.nameEnd,
+          );
+        }
+        if (node.name === "pkgs") {
+          // Up to the hovered segment: `python3Packages` or `.requests`
+          const upTo = node.segments.findIndex((s) => offset <= s.end);
+          if (upTo === -1 || offset < node.segments[upTo].start) return null;
+          const segments = node.segments.slice(0, upTo + 1);
+          const text = packageHover(segments.map((s) => s.name));
+          if (!text) return null;
+          return hover(text, node.start, segments[upTo].end);
+        }
+        const member = node.segments[0];
+        if (!member || offset < member.start || offset > member.end) {
+          return null;
+        }
+        if (node.name === "type" && TYPE_DOCS[member.name]) {
+          return hover(
+            `**$type.${member.name}**\n\n${TYPE_DOCS[member.name]}`,
+            node.start,
+            member.end,
+          );
+        }
+        if (node.name === "l" || node.name === "m") {
+          const text = attributionHover(node.name, member.name);
+          return text ? hover(text, node.start, member.end) : null;
+        }
+        if (node.name === "v" || node.name === "f") {
+          const symbol = resolveSymbol(
+            document.uri,
+            node.name === "v" ? "let" : "freeform",
+            member.name,
+          );
+          if (!symbol) return null;
+          return hover(
+            symbolHover(symbol, document.uri),
+            node.start,
+            member.end,
+          );
+        }
+        return null;
+      }
+      case "LetDecl": {
+        if (!node.name || offset > node.name.end) break;
+        const symbol = declaredSymbols(document.uri).find(
+          (s) => s.start === node.name!.start,
+        );
+        if (!symbol) return null;
+        return hover(
+          symbolHover(symbol, document.uri),
+          node.start,
+          node.name.end,
+        );
+      }
+      case "Action": {
+        if (offset > node.formEnd) break;
+        const doc = ACTION_DOCS[node.form];
+        if (!doc) return null;
+        let value = `**${node.form}** — ${doc.detail}\n\n${doc.doc}`;
+        if (node.guard) value += `\n\n${GUARD_DOC}`;
+        return hover(value, node.start, node.formEnd);
+      }
+      case "Structural": {
+        const doc = STRUCTURAL_DOCS[node.node];
+        if (!doc) return null;
+        let value = `**(${node.node})** — ${doc.detail}\n\n${doc.doc}`;
+        const arg = node.args[0];
+        if (node.node === "zmdl" && arg) {
+          const module = resolveModule(arg.text, documentPath(document));
+          value += module
+            ? `\n\nModule: \`${displayName(module)}\``
+            : `\n\nModule \`${arg.text}.zmdl\` not found.`;
+        } else if (node.node === "alias" && arg) {
+          value += `\n\nTarget: \`${arg.text}\``;
+        }
+        return hover(value, node.start, node.end);
+      }
+      case "Cascade": {
+        if (offset > node.start + 2) break;
+        const doc = CASCADE_DOCS[node.op];
+        return hover(
+          `**${node.op}[ … ]** — ${doc.detail}\n\n${doc.doc}`,
+          node.start,
+          node.start + 2,
+        );
+      }
+      case "EnableOption": {
+        if (offset > node.nameEnd) break;
+        let value = `**enableOption** — ${ENABLE_OPTION_DOC.detail}\n\n${ENABLE_OPTION_DOC.doc}`;
+        const names = nodeNames(document, node.start);
+        for (const field of ["brief", "description"]) {
+          const text = metaField(node, field);
+          if (!text) continue;
+          value += `\n\n---\n\n*${field}:* ${renderString(text, names)}`;
+        }
+        return hover(value, node.start, node.nameEnd);
+      }
+    }
+  }
+
+  return null;
+}
+
+function symbolHover(symbol: ZoneSymbol, fromUri: string): string {
+  const where =
+    symbol.uri === fromUri
+      ? ""
+      : `\n\nDeclared in \`${symbol.uri.startsWith("file:") ? displayName(uriToPath(symbol.uri)) : symbol.uri}\``;
+  if (symbol.kind === "freeform") {
+    return `**$f.${symbol.name}**\n\nKey chosen for \`(freeform ${symbol.name})\`.${where}`;
+  }
+
+  const lines = [
+    "```zen-nix",
+    `_let ${symbol.name} : ${symbol.type ?? "?"}`,
+    "```",
+  ];
+  const decl = symbol.decl;
+  if (decl?.type) {
+    const type = parseTypeExpr(decl.type);
+    if (type.ok) {
+      lines.push("", `Type: \`${formatType(type.type)}\``);
+      if (type.type.kind === "enum") {
+        lines.push(
+          "",
+          `Options: ${type.type.options.map((o) => `\`"${o}"\``).join(", ")}`,
+        );
+      }
+    }
+  }
+  const source = getDocument(symbol.uri);
+  if (decl?.value && source) {
+    let value = source
+      .getText()
+      .substring(decl.value.start, decl.value.end)
+      .split("\n");
+    if (value.length > MAX_VALUE_LINES) {
+      value = [...value.slice(0, MAX_VALUE_LINES), "…"];
+    }
+    lines.push("", "Value:", "```zen-nix", ...value, "```");
+  }
+  return lines.join("\n") + where;
+}
+
+/** `$name` and `$path` as far as they are known statically. */
+interface NodeNames {
+  name?: string;
+  path?: string;
+}
+
+/** Names of the node the `enableOption` at `offset` belongs to. */
+function nodeNames(document: TextDocument, offset: number): NodeNames {
+  const segments = configPath(document, offset);
+  if (!segments) return {};
+  return { name: segments[segments.length - 1], path: segments.join(".") };
+}
+
+/** `_meta.<field>` of an `enableOption`, in either the dotted or set form. */
+function metaField(option: EnableOption, field: string): StringLit | null {
+  for (const item of option.body.items) {
+    if (item.kind !== "Binding" || attrNameText(item.path[0]) !== "_meta") {
+      continue;
+    }
+    if (item.path.length === 2 && attrNameText(item.path[1]) === field) {
+      return item.value?.kind === "String" ? item.value : null;
+    }
+    if (item.path.length === 1 && item.value?.kind === "AttrSet") {
+      const inner = fieldOf(item.value, field);
+      if (inner?.value?.kind === "String") return inner.value;
+    }
+  }
+  return null;
+}
+
+function fieldOf(set: AttrSet, name: string): Binding | undefined {
+  return set.items.find(
+    (item): item is Binding =>
+      item.kind === "Binding" &&
+      item.path.length === 1 &&
+      attrNameText(item.path[0]) === name,
+  );
+}
+
+/** For hovers on `_meta.brief` / `description` inside an `enableOption`. */
+function renderedMeta(
+  document: TextDocument,
+  chain: Node[],
+  offset: number,
+): string | null {
+  const index = chain.map((n) => n.kind).lastIndexOf("EnableOption");
+  if (index === -1) return null;
+  const option = chain[index] as EnableOption;
+  const binding = chain
+    .slice(index)
+    .find((n): n is Binding => n.kind === "Binding");
+  if (!binding) return null;
+  const field = binding.path
+    .filter((name) => name.start <= offset && offset <= name.end)
+    .map(attrNameText)[0];
+  if (field !== "brief" && field !== "description") return null;
+  const text = metaField(option, field);
+  return text && renderString(text, nodeNames(document, option.start));
+}
+
+/**
+ * The text a string literal stands for, as users will read it: escapes
+ * resolved, indentation stripped and `$name` / `$path` filled in when known.
+ */
+function renderString(str: StringLit, names: NodeNames): string {
+  let text = "";
+  for (const part of str.parts) {
+    if (part.kind === "Interp") {
+      text += "${…}";
+    } else if (str.indented) {
+      text += part.raw
+        .replace(/''\$/g, "$")
+        .replace(/'''/g, "''")
+        .replace(/''\\(.)/g, "$1");
+    } else {
+      text += part.raw.replace(/\\(.)/g, (_, c: string) =>
+        c === "n" ? "\n" : c === "t" ? "\t" : c,
+      );
+    }
+  }
+  if (str.indented) text = stripIndent(text);
+  if (names.name) text = text.replace(/\$name\b/g, names.name);
+  if (names.path) text = text.replace(/\$path\b/g, names.path);
+  return text.trim();
+}
+
+function stripIndent(text: string): string {
+  const lines = text.replace(/^\n/, "").split("\n");
+  const indents = lines
+    .filter((line) => line.trim())
+    .map((line) => line.match(/^ */)![0].length);
+  const common = indents.length ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join("\n");
+}
@@ -0,0 +1,228 @@
+// `_import` resolution: document links, go-to-definition, broken-import and
+// import-cycle diagnostics.
+
+import * as os from "os";
+import * as path from "path";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  DocumentLink,
+  Location,
+  Position,
+  Range,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Import, stringValue, walk } from "../zone/ast";
+import { ParseResult } from "../zone/parser";
+import { getParsed } from "./documents";
+import {
+  ZONE_EXTENSIONS,
+  documentPath,
+  fileExists,
+  getDocument,
+  getWorkspaceRoots,
+  parseFile,
+  pathToUri,
+} from "./workspace";
+
+export interface ImportRef {
+  node: Import;
+  /** The path as written, without quotes. */
+  spec: string;
+  /** Offsets of the path text itself. */
+  start: number;
+  end: number;
+}
+
+export function importRefs(parsed: ParseResult): ImportRef[] {
+  const refs: ImportRef[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind !== "Import" || !node.target) return;
+    const target = node.target;
+    if (target.kind === "String") {
+      const spec = stringValue(target);
+      if (spec === null) return false;
+      const quote = target.indented ? 2 : 1;
+      refs.push({
+        node,
+        spec,
+        start: target.start + quote,
+        end: target.end - quote,
+      });
+    } else if (target.kind === "Path" && target.style === "path") {
+      refs.push({
+        node,
+        spec: target.value,
+        start: target.start,
+        end: target.end,
+      });
+    }
+    return false;
+  });
+  return refs;
+}
+
+/**
+ * Resolve an import relative to the importing file, then to each workspace
+ * root. The extension may be left out when it is one of the Z.O.N.E. ones.
+ */
+export function resolveImport(
+  spec: string,
+  fromPath: string | undefined,
+): string | undefined {
+  if (!spec) return undefined;
+  if (spec.startsWith("~/")) spec = path.join(os.homedir(), spec.slice(2));
+
+  const bases = path.isAbsolute(spec)
+    ? [""]
+    : [...(fromPath ? [path.dirname(fromPath)] : []), ...getWorkspaceRoots()];
+  const names = ZONE_EXTENSIONS.includes(path.extname(spec))
+    ? [spec]
+    : [spec, ...ZONE_EXTENSIONS.map((ext) => spec + ext)];
+
+  for (const base of bases) {
+    for (const name of names) {
+      const candidate = path.resolve(base, name);
+      if (fileExists(candidate)) return candidate;
+    }
+  }
+  return undefined;
+}
+
+/** Resolved targets of every import in a file on disk or in the editor. */
+function resolvedImportsOf(fsPath: string): string[] {
+  const parsed = parseFile(fsPath);
+  if (!parsed) return [];
+  return importRefs(parsed)
+    .map((ref) => resolveImport(ref.spec, fsPath))
+    .filter((p): p is string => p !== undefined);
+}
+
+/**
+ * Shortest import chain from `start` back to `target`, both included, or
+ * undefined when `target` is not reachable.
+ */
+function findImportChain(start: string, target: string): string[] | undefined {
+  const previous = new Map<string, string | null>([[start, null]]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of resolvedImportsOf(current)) {
+      if (next === target) {
+        const chain = [next, current];
+        let step = previous.get(current);
+        while (step) {
+          chain.push(step);
+          step = previous.get(step);
+        }
+        return chain.reverse();
+      }
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A document followed by everything it imports, directly or transitively,
+ * nearest first. Used to decide which declarations a file can see.
+ */
+export function importClosure(uri: string): string[] {
+  const seen = new Set<string>([uri]);
+  const order = [uri];
+  for (let i = 0; i < order.length; i++) {
+    const doc = getDocument(order[i]);
+    if (!doc) continue;
+    const fromPath = documentPath(doc);
+    for (const ref of importRefs(getParsed(doc))) {
+      const resolved = resolveImport(ref.spec, fromPath);
+      if (!resolved) continue;
+      const target = pathToUri(resolved);
+      if (seen.has(target)) continue;
+      seen.add(target);
+      order.push(target);
+    }
+  }
+  return order;
+}
+
+/** Path relative to its workspace root, or the file name outside one. */
+export function displayName(fsPath: string): string {
+  const root = getWorkspaceRoots().find((r) => fsPath.startsWith(r + path.sep));
+  return root ? path.relative(root, fsPath) : path.basename(fsPath);
+}
+
+export function runImportChecks(doc: TextDocument): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const fromPath = documentPath(doc);
+
+  for (const ref of importRefs(getParsed(doc))) {
+    const range = Range.create(
+      doc.positionAt(ref.start),
+      doc.positionAt(ref.end),
+    );
+    const resolved = resolveImport(ref.spec, fromPath);
+    if (!resolved) {
+      diagnostics.push(
+        Diagnostic.create(
+          range,
+          `Cannot resolve import '${ref.spec}'.`,
+          DiagnosticSeverity.Error,
+          "broken-import",
+        ),
+      );
+      continue;
+    }
+    if (!fromPath) continue;
+
+    const chain =
+      resolved === fromPath ? [fromPath] : findImportChain(resolved, fromPath);
+    if (chain) {
+      const names = [fromPath, ...chain].map(displayName).join(" → ");
+      diagnostics.push(
+        Diagnostic.create(
+          range,
+          `Import cycle: ${names}.`,
+          DiagnosticSeverity.Error,
+          "import-cycle",
+        ),
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+export function provideDocumentLinks(doc: TextDocument): DocumentLink[] {
+  const fromPath = documentPath(doc);
+  const links: DocumentLink[] = [];
+  for (const ref of importRefs(getParsed(doc))) {
+    const resolved = resolveImport(ref.spec, fromPath);
+    if (!resolved) continue;
+    links.push(
+      DocumentLink.create(
+        Range.create(doc.positionAt(ref.start), doc.positionAt(ref.end)),
+        pathToUri(resolved),
+      ),
+    );
+  }
+  return links;
+}
+
+/** Go-to-definition on the path of an `_import` opens the imported file. */
+export function provideImportDefinition(
+  doc: TextDocument,
+  position: Position,
+): Location | null {
+  const offset = doc.offsetAt(position);
+  const ref = importRefs(getParsed(doc)).find(
+    (r) => r.start <= offset && offset <= r.end,
+  );
+  if (!ref) return null;
+  const resolved = resolveImport(ref.spec, documentPath(doc));
+  if (!resolved) return null;
+  return Location.create(pathToUri(resolved), Range.create(0, 0, 0, 0));
+}
@@ -0,0 +1,298 @@
+// Rules that depend on the kind of file: `.zpkg`-only constructs, `(zmdl …)`
+// attachments that must name a real module, and the `_meta` every module
+// needs. Each diagnostic carries what its quick fix needs in `data`.
+
+import * as path from "path";
+import {
+  CodeAction,
+  CodeActionKind,
+  CreateFile,
+  Diagnostic,
+  DiagnosticSeverity,
+  OptionalVersionedTextDocumentIdentifier,
+  Range,
+  TextDocumentEdit,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  AttrSet,
+  Binding,
+  Expr,
+  attrNameText,
+  nodesAt,
+  walk,
+} from "../zone/ast";
+import { editDistance } from "../zone/distance";
+import { getParsed } from "./documents";
+import { resolveImport } from "./imports";
+import {
+  documentPath,
+  fileKind,
+  listWorkspaceFiles,
+  pathToUri,
+  uriToPath,
+} from "./workspace";
+
+/** Bindings and globals only a `.zpkg` may use. */
+export const ZPKG_ONLY_BLOCKS = ["_src", "_build"];
+export const ZPKG_ONLY_GLOBALS = ["deps"];
+
+const META_SKELETON = `_meta = {\n  brief = "";\n  description = "";\n};\n`;
+
+interface ModuleData {
+  name: string;
+  suggestions: string[];
+  createAt?: string;
+}
+
+/**
+ * Find the module a `(zmdl name)` node attaches: `name.zmdl` next to the
+ * file or under a workspace root, otherwise any workspace module of that
+ * name.
+ */
+export function resolveModule(
+  name: string,
+  fromPath: string | undefined,
+): string | undefined {
+  const file = name.endsWith(".zmdl") ? name : `${name}.zmdl`;
+  const direct = resolveImport(file, fromPath);
+  if (direct) return direct;
+  const match = listWorkspaceFiles().find(
+    (uri) => path.basename(uriToPath(uri)) === path.basename(file),
+  );
+  return match && uriToPath(match);
+}
+
+/** Workspace modules whose names are a likely typo of `name`. */
+function similarModules(name: string): string[] {
+  return listWorkspaceFiles()
+    .map((uri) => path.basename(uriToPath(uri)))
+    .filter((base) => base.endsWith(".zmdl"))
+    .map((base) => base.slice(0, -".zmdl".length))
+    .filter((candidate) => editDistance(candidate, name) <= 2)
+    .slice(0, 3);
+}
+
+/** The set holding a file's top-level bindings, looking through lambdas. */
+function topLevelSet(body: Expr | null): AttrSet | null {
+  while (body?.kind === "Lambda") body = body.body;
+  return body?.kind === "AttrSet" ? body : null;
+}
+
+export function runFileKindChecks(doc: TextDocument): Diagnostic[] {
+  const kind = fileKind(doc.uri);
+  if (!kind) return [];
+  const parsed = getParsed(doc);
+  const fromPath = documentPath(doc);
+  const diagnostics: Diagnostic[] = [];
+  const range = (start: number, end: number) =>
+    Range.create(doc.positionAt(start), doc.positionAt(end));
+
+  walk(parsed.file, (node) => {
+    if (kind !== "zpkg" && node.kind === "Binding") {
+      const name = node.path[0] && attrNameText(node.path[0]);
+      if (name && ZPKG_ONLY_BLOCKS.includes(name)) {
+        diagnostics.push(
+          Diagnostic.create(
+            range(node.path[0].start, node.path[0].end),
+            `'${name}' is only allowed in .zpkg files.`,
+            DiagnosticSeverity.Error,
+            "zpkg-only",
+          ),
+        );
+        return false;
+      }
+    }
+    if (
+      kind !== "zpkg" &&
+      node.kind === "ZenVar" &&
+      ZPKG_ONLY_GLOBALS.includes(node.name)
+    ) {
+      diagnostics.push(
+        Diagnostic.create(
+          range(node.start, node.nameEnd),
+          `'$${node.name}' is only available in .zpkg files; use '$pkgs' elsewhere.`,
+          DiagnosticSeverity.Error,
+          "zpkg-only",
+        ),
+      );
+    }
+    if (node.kind === "Structural" && node.node === "zmdl") {
+      const arg = node.args[0];
+      if (!arg || resolveModule(arg.text, fromPath)) return;
+      const data: ModuleData = {
+        name: arg.text,
+        suggestions: similarModules(arg.text),
+        createAt: fromPath
+          ? path.join(
+              path.dirname(fromPath),
+              arg.text.endsWith(".zmdl") ? arg.text : `${arg.text}.zmdl`,
+            )
+          : undefined,
+      };
+      const diagnostic = Diagnostic.create(
+        range(arg.start, arg.end),
+        `No module '${arg.text}' found: expected a matching .zmdl file.`,
+        DiagnosticSeverity.Error,
+        "unknown-module",
+      );
+      diagnostic.data = data;
+      diagnostics.push(diagnostic);
+    }
+  });
+
+  if (kind === "zmdl") {
+    const set = topLevelSet(parsed.file.body);
+    const hasMeta = set?.items.some(
+      (item) =>
+        item.kind === "Binding" && attrNameText(item.path[0]) === "_meta",
+    );
+    if (set && !hasMeta) {
+      const first = doc.getText(Range.create(0, 0, 1, 0)).replace(/\n$/, "");
+      diagnostics.push(
+        Diagnostic.create(
+          Range.create(0, 0, 0, first.length),
+          "Modules must declare a '_meta' block.",
+          DiagnosticSeverity.Warning,
+          "missing-meta",
+        ),
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Remove `start..end` together with the rest of its line when it is blank. */
+function deleteStatement(doc: TextDocument, start: number, end: number) {
+  const text = doc.getText();
+  const rest = text.slice(end).match(/^[ \t]*\r?\n/);
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const onlyIndent = /^[ \t]*$/.test(text.slice(lineStart, start));
+  return TextEdit.del(
+    Range.create(
+      doc.positionAt(rest && onlyIndent ? lineStart : start),
+      doc.positionAt(end + (rest ? rest[0].length : 0)),
+    ),
+  );
+}
+
+function quickFix(
+  title: string,
+  diagnostic: Diagnostic,
+  edit: CodeAction["edit"],
+  isPreferred = false,
+): CodeAction {
+  return {
+    title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit,
+    isPreferred,
+  };
+}
+
+export function fileKindFixes(
+  doc: TextDocument,
+  diagnostic: Diagnostic,
+): CodeAction[] {
+  const uri = doc.uri;
+  switch (diagnostic.code) {
+    case "zpkg-only": {
+      if (doc.getText(diagnostic.range).startsWith("$")) {
+        return [
+          quickFix(
+            "Use '$pkgs' instead",
+            diagnostic,
+            {
+              changes: { [uri]: [TextEdit.replace(diagnostic.range, "$pkgs")] },
+            },
+            true,
+          ),
+        ];
+      }
+      const offset = doc.offsetAt(diagnostic.range.start);
+      const binding = nodesAt(getParsed(doc).file, offset).find(
+        (node): node is Binding =>
+          node.kind === "Binding" && node.path[0]?.start === offset,
+      );
+      if (!binding) return [];
+      return [
+        quickFix("Remove this block", diagnostic, {
+          changes: {
+            [uri]: [deleteStatement(doc, binding.start, binding.end)],
+          },
+        }),
+      ];
+    }
+    case "unknown-module": {
+      const data = diagnostic.data as ModuleData | undefined;
+      if (!data) return [];
+      const fixes = data.suggestions.map((name) =>
+        quickFix(
+          `Change to '${name}'`,
+          diagnostic,
+          { changes: { [uri]: [TextEdit.replace(diagnostic.range, name)] } },
+          // Preferred fixes are applied by "fix all"; only when unambiguous
+          data.suggestions.length === 1,
+        ),
+      );
+      if (data.createAt) {
+        const target = pathToUri(data.createAt);
+        fixes.push(
+          quickFix(`Create ${path.basename(data.createAt)}`, diagnostic, {
+            documentChanges: [
+              CreateFile.create(target, { ignoreIfExists: true }),
+              TextDocumentEdit.create(
+                OptionalVersionedTextDocumentIdentifier.create(target, null),
+                [TextEdit.insert({ line: 0, character: 0 }, META_SKELETON)],
+              ),
+            ],
+          }),
+        );
+      }
+      return fixes;
+    }
+    case "missing-meta":
+      return [
+        quickFix(
+          "Add a '_meta' block",
+          diagnostic,
+          {
+            changes: {
+              [uri]: [insertMeta(doc)],
+            },
+          },
+          true,
+        ),
+      ];
+  }
+  return [];
+}
+
+/** Insert a `_meta` block before the first binding that is not an `_import`. */
+function insertMeta(doc: TextDocument): TextEdit {
+  const text = doc.getText();
+  const set = topLevelSet(getParsed(doc).file.body);
+  const first = set?.items.find((item) => item.kind !== "Import");
+  if (!set || !first) {
+    const at = set && !set.implicit ? set.start + 1 : 0;
+    return TextEdit.insert(
+      doc.positionAt(at),
+      at > 0 ? "\n" + META_SKELETON : META_SKELETON,
+    );
+  }
+  const lineStart = text.lastIndexOf("\n", first.start - 1) + 1;
+  const indent = text.slice(lineStart, first.start);
+  if (!/^[ \t]*$/.test(indent)) {
+    return TextEdit.insert(
+      doc.positionAt(first.start),
+      META_SKELETON.replace(/\n/g, " ").replace(/ +/g, " "),
+    );
+  }
+  return TextEdit.insert(
+    doc.positionAt(lineStart),
+    META_SKELETON.replace(/^/gm, indent).replace(/[ \t]+$/, "") + "\n",
+  );
+}
@@ -0,0 +1,121 @@
+// Deprecated action spellings: a diagnostic on each, a quick fix that rewrites
+// it as a bang shorthand, and the workspace-wide migration behind
+// "Migrate to Action Shorthands", sent as one edit the client can preview.
+
+import {
+  AnnotatedTextEdit,
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  OptionalVersionedTextDocumentIdentifier,
+  Range,
+  TextDocumentEdit,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LegacyAction, legacyActions } from "../zone/legacy";
+import { getParsed } from "./documents";
+import { getDocument, listKnownDocuments } from "./workspace";
+
+/** Rewrites every legacy action of the workspace. */
+export const MIGRATE_ACTIONS_COMMAND = "zen-nix.migrateActions";
+
+const MIGRATION_ANNOTATION = "legacy-actions";
+
+function toEdit(doc: TextDocument, action: LegacyAction): TextEdit | null {
+  const edit = action.edit;
+  if (!edit) return null;
+  return TextEdit.replace(
+    Range.create(doc.positionAt(edit.start), doc.positionAt(edit.end)),
+    edit.text,
+  );
+}
+
+export function runLegacyActionChecks(doc: TextDocument): Diagnostic[] {
+  return legacyActions(getParsed(doc)).map((action) => {
+    const diagnostic = Diagnostic.create(
+      Range.create(doc.positionAt(action.start), doc.positionAt(action.end)),
+      action.message,
+      DiagnosticSeverity.Warning,
+      "legacy-action",
+    );
+    diagnostic.tags = [DiagnosticTag.Deprecated];
+    return diagnostic;
+  });
+}
+
+export function legacyActionFixes(
+  doc: TextDocument,
+  diagnostic: Diagnostic,
+): CodeAction[] {
+  const start = doc.offsetAt(diagnostic.range.start);
+  const action = legacyActions(getParsed(doc)).find((a) => a.start === start);
+  const edit = action && toEdit(doc, action);
+  if (!edit) return [];
+  return [
+    {
+      title: `Change to '${action.form} { … }'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: { changes: { [doc.uri]: [edit] } },
+      isPreferred: true,
+    },
+  ];
+}
+
+/**
+ * One edit rewriting the legacy actions of every workspace file, annotated
+ * so the client asks for confirmation and shows a preview. Null when there
+ * is nothing to migrate.
+ */
+export function migrationEdit(
+  openVersion: (uri: string) => number | null,
+): { edit: WorkspaceEdit; count: number; files: number } | null {
+  const documentChanges: TextDocumentEdit[] = [];
+  let count = 0;
+  for (const uri of listKnownDocuments()) {
+    const doc = getDocument(uri);
+    if (!doc) continue;
+    const edits: AnnotatedTextEdit[] = [];
+    let lastEnd = -1;
+    for (const action of legacyActions(getParsed(doc))) {
+      const edit = toEdit(doc, action);
+      // Nested legacy actions inside a rewritten one wait for the next run
+      if (!edit || action.edit!.start < lastEnd) continue;
+      lastEnd = action.edit!.end;
+      edits.push(
+        AnnotatedTextEdit.replace(
+          edit.range,
+          edit.newText,
+          MIGRATION_ANNOTATION,
+        ),
+      );
+    }
+    if (edits.length === 0) continue;
+    count += edits.length;
+    documentChanges.push(
+      TextDocumentEdit.create(
+        OptionalVersionedTextDocumentIdentifier.create(uri, openVersion(uri)),
+        edits,
+      ),
+    );
+  }
+  if (documentChanges.length === 0) return null;
+  return {
+    edit: {
+      documentChanges,
+      changeAnnotations: {
+        [MIGRATION_ANNOTATION]: {
+          label: "Migrate to action shorthands",
+          description: "Legacy _action/_saction/_uaction spellings",
+          needsConfirmation: true,
+        },
+      },
+    },
+    count,
+    files: documentChanges.length,
+  };
+}
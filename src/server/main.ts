@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// Entry point of the standalone language server. The transport is picked
+// from the command line (`--stdio`, `--node-ipc` or `--socket=<port>`).
+
+import { ProposedFeatures, createConnection } from "vscode-languageserver/node";
+import { startServer } from "./server";
+
+startServer(createConnection(ProposedFeatures.all));
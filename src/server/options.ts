@@ -0,0 +1,127 @@
+// NixOS and Home Manager option trees, loaded from the `options.json` files
+// named in the settings, with the hover text and value checks they drive.
+// Completion of option names lives with the rest of completion.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  NixOption,
+  OPTION_SET_LABELS,
+  OptionNode,
+  OptionRef,
+  OptionSet,
+  buildOptionTree,
+  checkOptionValues,
+  findOption,
+} from "../zone/options";
+import { getParsed } from "./documents";
+import { getSettings } from "./settings";
+import { getWorkspaceRoots } from "./workspace";
+
+interface LoadedOptions {
+  file: string;
+  mtimeMs: number;
+  /** Absent when the file could not be read. */
+  tree?: OptionNode;
+}
+
+const loaded: Partial<Record<OptionSet, LoadedOptions>> = {};
+
+/** `~/…` is in the home directory, relative paths are in the workspace. */
+export function resolveSettingPath(setting: string): string {
+  if (setting.startsWith("~/")) {
+    return path.join(os.homedir(), setting.slice(2));
+  }
+  const root = getWorkspaceRoots()[0];
+  return root ? path.resolve(root, setting) : path.resolve(setting);
+}
+
+/**
+ * Load the option sets whose setting or file changed since the last call.
+ * Returns a message for every file that could not be loaded; a file is not
+ * retried (or reported again) until it changes.
+ */
+export function loadOptionTrees(): string[] {
+  const problems: string[] = [];
+  const settings = getSettings().options;
+  for (const set of Object.keys(OPTION_SET_LABELS) as OptionSet[]) {
+    if (!settings[set]) {
+      delete loaded[set];
+      continue;
+    }
+    const file = resolveSettingPath(settings[set]);
+    let mtimeMs = -1;
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      // Reading it below fails with the reason
+    }
+    const previous = loaded[set];
+    if (previous?.file === file && previous.mtimeMs === mtimeMs) continue;
+
+    const entry: LoadedOptions = { file, mtimeMs };
+    loaded[set] = entry;
+    try {
+      entry.tree = buildOptionTree(JSON.parse(fs.readFileSync(file, "utf8")));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      problems.push(
+        `Could not load ${OPTION_SET_LABELS[set]} options from ${file}: ${reason}`,
+      );
+    }
+  }
+  return problems;
+}
+
+export function optionTree(set: OptionSet): OptionNode | undefined {
+  return loaded[set]?.tree;
+}
+
+export function optionTrees(): Partial<Record<OptionSet, OptionNode>> {
+  return { nixos: optionTree("nixos"), homeManager: optionTree("homeManager") };
+}
+
+function code(text: string): string {
+  return text.includes("\n") ? "```nix\n" + text + "\n```" : `\`${text}\``;
+}
+
+/** Type, description, default and example of an option, as Markdown. */
+export function optionDoc(option: NixOption): string {
+  const parts = [
+    `Type: \`${option.type}\`${option.readOnly ? " (read-only)" : ""}`,
+  ];
+  if (option.description) parts.push(option.description.trim());
+  if (option.default !== undefined) {
+    parts.push(`Default: ${code(option.default)}`);
+  }
+  if (option.example !== undefined) {
+    parts.push(`Example: ${code(option.example)}`);
+  }
+  return parts.join("\n\n");
+}
+
+export function optionHover(ref: OptionRef): string | null {
+  const root = optionTree(ref.set);
+  const node = root && findOption(root, ref.path);
+  if (!node) return null;
+  const label = OPTION_SET_LABELS[ref.set];
+  const name = ref.path.join(".");
+  if (!node.option) {
+    return `**${name}** — ${label} options\n\n${node.children.size} entries.`;
+  }
+  return `**${name}** — ${label} option\n\n${optionDoc(node.option)}`;
+}
+
+export function runOptionChecks(doc: TextDocument): Diagnostic[] {
+  return checkOptionValues(getParsed(doc), optionTrees()).map((issue) =>
+    Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      `Type Error in '${issue.option}': ${issue.message}`,
+      DiagnosticSeverity.Error,
+      issue.code,
+    ),
+  );
+}
@@ -0,0 +1,266 @@
+// Structure of a Z.O.N.E. file for the editor: the outline (and breadcrumbs),
+// folding regions and expand-selection, all from the parse tree.
+
+import {
+  DocumentSymbol,
+  FoldingRange,
+  FoldingRangeKind,
+  Position,
+  Range,
+  SelectionRange,
+  SymbolKind,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  AttrSet,
+  Binding,
+  BindingItem,
+  Expr,
+  Node,
+  Structural,
+  attrNameText,
+  nodesAt,
+  stringValue,
+  walk,
+} from "../zone/ast";
+import { ACTION_DOCS } from "../zone/docs";
+import { getParsed } from "./documents";
+
+const STRUCTURAL_KINDS: Record<string, SymbolKind> = {
+  freeform: SymbolKind.TypeParameter,
+  zmdl: SymbolKind.Module,
+  alias: SymbolKind.Field,
+};
+
+const BLOCKS = ["_meta", "_src", "_build"];
+
+export function provideDocumentSymbols(
+  document: TextDocument,
+): DocumentSymbol[] {
+  const parsed = getParsed(document);
+  const text = parsed.text;
+  const range = (start: number, end: number) =>
+    Range.create(document.positionAt(start), document.positionAt(end));
+  const source = (node: { start: number; end: number }) =>
+    text.substring(node.start, node.end).replace(/\s+/g, " ");
+  const symbol = (
+    name: string,
+    detail: string,
+    kind: SymbolKind,
+    node: { start: number; end: number },
+    selection: { start: number; end: number },
+    children: DocumentSymbol[] = [],
+  ): DocumentSymbol =>
+    DocumentSymbol.create(
+      name || "?",
+      detail,
+      kind,
+      range(node.start, node.end),
+      range(selection.start, selection.end),
+      children,
+    );
+
+  const structural = (
+    node: Structural,
+    item: BindingItem,
+    children: DocumentSymbol[],
+  ): DocumentSymbol | null => {
+    const kind = STRUCTURAL_KINDS[node.node];
+    return kind === undefined
+      ? null
+      : symbol(source(node), "", kind, item, node, children);
+  };
+
+  const setSymbols = (set: AttrSet | null): DocumentSymbol[] =>
+    set ? set.items.flatMap((item) => itemSymbols(item)) : [];
+
+  const valueSymbols = (value: Expr | null): DocumentSymbol[] => {
+    if (value?.kind === "AttrSet") return setSymbols(value);
+    if (value?.kind === "EnableOption") return setSymbols(value.body);
+    return [];
+  };
+
+  const itemSymbols = (item: BindingItem): DocumentSymbol[] => {
+    switch (item.kind) {
+      case "LetDecl":
+        if (!item.name) return [];
+        return [
+          symbol(
+            item.name.name,
+            item.type ? source(item.type) : "",
+            SymbolKind.Variable,
+            item,
+            item.name,
+          ),
+        ];
+      case "Import":
+        return [
+          symbol(
+            "_import",
+            item.target ? source(item.target) : "",
+            SymbolKind.File,
+            item,
+            { start: item.start, end: item.keywordEnd },
+          ),
+        ];
+      case "Action": {
+        const guard =
+          item.guardStart !== -1
+            ? ` ${source({ start: item.guardStart, end: item.guardEnd })}`
+            : "";
+        return [
+          symbol(
+            item.form + guard,
+            ACTION_DOCS[item.form]?.detail ?? "",
+            SymbolKind.Event,
+            item,
+            { start: item.start, end: item.formEnd },
+          ),
+        ];
+      }
+      case "Binding":
+        return bindingSymbols(item);
+    }
+    return [];
+  };
+
+  const bindingSymbols = (item: Binding): DocumentSymbol[] => {
+    const head = item.path[0];
+    if (!head) return [];
+    const children = valueSymbols(item.value);
+    if (head.kind === "Structural") {
+      const found = structural(head, item, children);
+      return found ? [found] : children;
+    }
+    const name = attrNameText(head);
+    const last = item.path[item.path.length - 1];
+    const path = { start: head.start, end: last.end };
+    if (name && BLOCKS.includes(name)) {
+      // `_meta` shows its brief; `_src`/`_build` their fetcher or type
+      const brief =
+        name === "_meta" && item.value?.kind === "AttrSet"
+          ? item.value.items.find(
+              (i): i is Binding =>
+                i.kind === "Binding" && attrNameText(i.path[0]) === "brief",
+            )?.value
+          : null;
+      const detail =
+        (brief && stringValue(brief)) ??
+        (item.value && item.value.kind !== "AttrSet"
+          ? (stringValue(item.value) ?? source(item.value))
+          : "");
+      return [symbol(source(path), detail, SymbolKind.Struct, item, path)];
+    }
+    const value = item.value;
+    if (value?.kind === "EnableOption") {
+      return [
+        symbol(
+          source(path),
+          "enableOption",
+          SymbolKind.Boolean,
+          item,
+          path,
+          children,
+        ),
+      ];
+    }
+    if (value?.kind === "Structural") {
+      const kind = STRUCTURAL_KINDS[value.node];
+      if (kind === undefined) return [];
+      return [symbol(source(path), source(value), kind, item, path)];
+    }
+    if (value?.kind === "AttrSet") {
+      return [
+        symbol(source(path), "", SymbolKind.Namespace, item, path, children),
+      ];
+    }
+    return [];
+  };
+
+  return valueSymbols(parsed.file.body);
+}
+
+export function provideFoldingRanges(document: TextDocument): FoldingRange[] {
+  const parsed = getParsed(document);
+  const ranges: FoldingRange[] = [];
+  const seen = new Set<string>();
+  const fold = (start: number, end: number, kind?: FoldingRangeKind) => {
+    const startLine = document.positionAt(start).line;
+    // The closing line stays visible
+    const endLine = document.positionAt(end).line - (kind ? 0 : 1);
+    // An action and its body fold the same lines
+    const key = `${startLine}:${endLine}`;
+    if (endLine > startLine && !seen.has(key)) {
+      seen.add(key);
+      ranges.push(
+        FoldingRange.create(startLine, endLine, undefined, undefined, kind),
+      );
+    }
+  };
+
+  walk(parsed.file, (node: Node) => {
+    switch (node.kind) {
+      case "Action":
+        // From the form, so the fold keeps `s! [guard] {` in view
+        fold(node.start, node.body?.end ?? node.end);
+        return;
+      case "AttrSet":
+        if (!node.implicit) fold(node.start, node.end);
+        return;
+      case "List":
+      case "Let":
+        fold(node.start, node.end);
+        return;
+      case "String":
+        if (node.indented) fold(node.start, node.end);
+        return;
+    }
+  });
+
+  // Comment blocks: block comments and runs of line comments
+  let run: { start: number; end: number; line: number } | null = null;
+  for (const comment of parsed.comments) {
+    const line = document.positionAt(comment.start).line;
+    if (comment.block) {
+      if (run) fold(run.start, run.end, FoldingRangeKind.Comment);
+      fold(comment.start, comment.end, FoldingRangeKind.Comment);
+      run = null;
+      continue;
+    }
+    if (run && line === run.line + 1) {
+      run.end = comment.end;
+      run.line = line;
+    } else {
+      if (run) fold(run.start, run.end, FoldingRangeKind.Comment);
+      run = { start: comment.start, end: comment.end, line };
+    }
+  }
+  if (run) fold(run.start, run.end, FoldingRangeKind.Comment);
+
+  return ranges;
+}
+
+export function provideSelectionRanges(
+  document: TextDocument,
+  positions: Position[],
+): SelectionRange[] {
+  const parsed = getParsed(document);
+  return positions.map((position) => {
+    const offset = document.offsetAt(position);
+    let selection: SelectionRange | undefined;
+    let last: { start: number; end: number } | undefined;
+    for (const node of nodesAt(parsed.file, offset)) {
+      // Nodes that span the same text would take an extra keypress each
+      if (last && node.start === last.start && node.end === last.end) continue;
+      last = node;
+      selection = SelectionRange.create(
+        Range.create(
+          document.positionAt(node.start),
+          document.positionAt(node.end),
+        ),
+        selection,
+      );
+    }
+    return selection ?? SelectionRange.create(Range.create(position, position));
+  });
+}
@@ -0,0 +1,183 @@
+// The package index: a `nix-env -qaP --json` dump named in the settings,
+// cached on disk in a compact form, plus the workspace's `.zpkg` files.
+// Completion of package names lives with the rest of completion.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  PackageIndex,
+  PackageInfo,
+  buildPackageIndex,
+  checkPackages,
+  findPackage,
+  readPackageDump,
+  zpkgPackage,
+} from "../zone/packages";
+import { getParsed } from "./documents";
+import { resolveSettingPath } from "./options";
+import { getSettings } from "./settings";
+import { listWorkspaceFiles, parseFile, uriToPath } from "./workspace";
+
+/** Bumped whenever the cache file layout changes. */
+const CACHE_VERSION = 1;
+
+interface CacheFile {
+  version: number;
+  source: string;
+  mtimeMs: number;
+  size: number;
+  packages: PackageInfo[];
+}
+
+interface LoadedIndex {
+  file: string;
+  mtimeMs: number;
+  /** Absent when the dump could not be read. */
+  index?: PackageIndex;
+}
+
+let loaded: LoadedIndex | undefined;
+let workspaceIndex: PackageIndex | undefined;
+
+function cacheFile(source: string): string {
+  const dir = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+  const hash = crypto.createHash("sha1").update(source).digest("hex");
+  return path.join(dir, "zen-nix", `packages-${hash.slice(0, 16)}.json`);
+}
+
+function readCache(source: string, stat: fs.Stats): PackageInfo[] | null {
+  try {
+    const cache = JSON.parse(
+      fs.readFileSync(cacheFile(source), "utf8"),
+    ) as CacheFile;
+    return cache.version === CACHE_VERSION &&
+      cache.source === source &&
+      cache.mtimeMs === stat.mtimeMs &&
+      cache.size === stat.size
+      ? cache.packages
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Best effort: without a cache the dump is simply read again next time. */
+function writeCache(source: string, stat: fs.Stats, packages: PackageInfo[]) {
+  const cache: CacheFile = {
+    version: CACHE_VERSION,
+    source,
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    packages,
+  };
+  try {
+    const file = cacheFile(source);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cache));
+  } catch {
+    // Read-only home or the like
+  }
+}
+
+/**
+ * Load the package dump if its setting or file changed since the last call.
+ * Returns a message if it could not be loaded; like the option sets, a dump
+ * is not retried (or reported again) until it changes.
+ */
+export function loadPackageIndex(): string[] {
+  const setting = getSettings().packages.index;
+  if (!setting) {
+    loaded = undefined;
+    return [];
+  }
+  const file = resolveSettingPath(setting);
+  let stat: fs.Stats | undefined;
+  try {
+    stat = fs.statSync(file);
+  } catch {
+    // Reading it below fails with the reason
+  }
+  const mtimeMs = stat?.mtimeMs ?? -1;
+  if (loaded?.file === file && loaded.mtimeMs === mtimeMs) return [];
+
+  loaded = { file, mtimeMs };
+  try {
+    let packages = stat && readCache(file, stat);
+    if (!packages) {
+      packages = readPackageDump(JSON.parse(fs.readFileSync(file, "utf8")));
+      if (stat) writeCache(file, stat, packages);
+    }
+    loaded.index = buildPackageIndex(packages);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return [`Could not load the package index from ${file}: ${reason}`];
+  }
+  return [];
+}
+
+/** Rebuild the `.zpkg` packages on next use, e.g. after one changed. */
+export function invalidateWorkspacePackages() {
+  workspaceIndex = undefined;
+}
+
+/** Workspace packages first, so they shadow nixpkgs ones of the same name. */
+export function packageIndexes(): PackageIndex[] {
+  if (!workspaceIndex) {
+    const packages: PackageInfo[] = [];
+    for (const uri of listWorkspaceFiles()) {
+      if (!uri.endsWith(".zpkg")) continue;
+      const parsed = parseFile(uriToPath(uri));
+      if (parsed) packages.push(zpkgPackage(uri, parsed));
+    }
+    workspaceIndex = buildPackageIndex(packages);
+  }
+  return loaded?.index ? [workspaceIndex, loaded.index] : [workspaceIndex];
+}
+
+/** Version and description of a package, as Markdown. */
+export function packageDoc(info: PackageInfo): string {
+  const parts: string[] = [];
+  if (info.version) parts.push(`Version: \`${info.version}\``);
+  if (info.description) parts.push(info.description.trim());
+  if (info.uri) {
+    parts.push(`Defined in [${path.basename(info.uri)}](${info.uri}).`);
+  }
+  return parts.join("\n\n");
+}
+
+export function packageHover(segments: string[]): string | null {
+  const indexes = packageIndexes();
+  const info = findPackage(indexes, segments);
+  if (!info) return null;
+  if (info === "group") {
+    const entries = indexes.reduce(
+      (n, index) => n + (index.children.get(segments.join("."))?.length ?? 0),
+      0,
+    );
+    return `**${segments.join(".")}** — package set\n\n${entries} entries.`;
+  }
+  const doc = packageDoc(info);
+  return `**${info.attr}** — package` + (doc ? `\n\n${doc}` : "");
+}
+
+/**
+ * Unknown `$pkgs.` names. Without a dump only workspace packages are known,
+ * so nothing is reported then.
+ */
+export function runPackageChecks(doc: TextDocument): Diagnostic[] {
+  if (!loaded?.index) return [];
+  return checkPackages(getParsed(doc), packageIndexes()).map((issue) => {
+    const diagnostic = Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      issue.message,
+      DiagnosticSeverity.Warning,
+      issue.code,
+    );
+    if (issue.suggestion) diagnostic.data = { suggestion: issue.suggestion };
+    return diagnostic;
+  });
+}
@@ -0,0 +1,344 @@
+// Config paths in the editor: inlay hints with what `$path` and `$name` stand
+// for and which node each action block configures, the requests behind
+// "Copy Config Path" and "Go to Config Path", and `(alias …)` targets checked
+// against the workspace tree, with definition and references.
+
+import * as path from "path";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  InlayHint,
+  Location,
+  Position,
+  Range,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Node, walk } from "../zone/ast";
+import {
+  CONFIG_ROOT,
+  ConfigEntry,
+  checkAliases,
+  configEntries,
+  configPathAt,
+  samePath,
+} from "../zone/paths";
+import { getParsed } from "./documents";
+import { importClosure } from "./imports";
+import { resolveModule } from "./kinds";
+import { getDocument, listKnownDocuments, uriToPath } from "./workspace";
+
+/** `{ uri, position }` → the dotted config path there, or null. */
+export const CONFIG_PATH_REQUEST = "zen-nix/configPath";
+
+/** `{}` → every node of the workspace as `{ path, uri, range }`. */
+export const CONFIG_NODES_REQUEST = "zen-nix/configNodes";
+
+export interface ConfigPathParams {
+  uri: string;
+  position: Position;
+}
+
+export interface WorkspaceConfigNode {
+  path: string;
+  uri: string;
+  range: Range;
+}
+
+// Where each file is attached, until an attachment or a file on disk changes.
+const moduleBases = new Map<string, string[]>();
+
+// The `(zmdl …)` attachments of each document when it last changed.
+const attachments = new Map<string, string>();
+
+/** Forget where files are attached; any file may attach any module. */
+export function invalidateModuleBases() {
+  moduleBases.clear();
+}
+
+/** The modules a document attaches and where, as one string. */
+function attachmentKey(doc: TextDocument): string {
+  const parsed = getParsed(doc);
+  const keys: string[] = [];
+  walk(parsed.file, (node: Node) => {
+    if (node.kind !== "Binding") return;
+    for (const name of node.path) {
+      if (name.kind !== "Structural" || name.node !== "zmdl") continue;
+      const at = configPathAt(parsed, name.end, [])?.join(".");
+      keys.push(`${at} ${name.args[0]?.text}`);
+    }
+  });
+  return keys.join("\n");
+}
+
+/**
+ * Forget where files are attached when an edit changed the `(zmdl …)`
+ * attachments of a document; other edits leave every module where it is.
+ */
+export function attachmentsChanged(doc: TextDocument) {
+  const key = attachmentKey(doc);
+  if (attachments.get(doc.uri) === key) return;
+  attachments.set(doc.uri, key);
+  moduleBases.clear();
+}
+
+/** A closed document is read from disk again, attachments and all. */
+export function forgetAttachments(uri: string) {
+  attachments.delete(uri);
+  moduleBases.clear();
+}
+
+/**
+ * Where a file is attached in the tree: under the `(zmdl name)` node that
+ * names it for modules, at the root for everything else.
+ */
+function moduleBase(uri: string): string[] {
+  let base = moduleBases.get(uri);
+  if (!base) {
+    base = findModuleBase(uri, new Set());
+    moduleBases.set(uri, base);
+  }
+  return base;
+}
+
+function findModuleBase(uri: string, seen: Set<string>): string[] {
+  if (!uri.startsWith("file:") || !uri.endsWith(".zmdl") || seen.has(uri)) {
+    return [CONFIG_ROOT];
+  }
+  seen.add(uri);
+  const modulePath = uriToPath(uri);
+  const module = path.basename(modulePath, ".zmdl");
+  for (const other of listKnownDocuments()) {
+    const document = other !== uri && getDocument(other);
+    // Cheap check before parsing every file of the workspace
+    if (!document || !document.getText().includes(module)) continue;
+    const parsed = getParsed(document);
+    const fromPath = other.startsWith("file:") ? uriToPath(other) : undefined;
+    let base: string[] | null = null;
+    walk(parsed.file, (node: Node) => {
+      if (base) return false;
+      if (node.kind !== "Binding") return;
+      const attach = node.path.find(
+        (name) =>
+          name.kind === "Structural" &&
+          name.node === "zmdl" &&
+          !!name.args[0] &&
+          resolveModule(name.args[0].text, fromPath) === modulePath,
+      );
+      if (attach) {
+        const outer = moduleBases.get(other) ?? findModuleBase(other, seen);
+        base = configPathAt(parsed, attach.end, outer);
+        return false;
+      }
+    });
+    if (base) return base;
+  }
+  return [CONFIG_ROOT];
+}
+
+/** The config path at `offset`, with modules placed where they attach. */
+export function configPath(
+  document: TextDocument,
+  offset: number,
+): string[] | null {
+  return configPathAt(getParsed(document), offset, moduleBase(document.uri));
+}
+
+export function provideConfigPath(
+  document: TextDocument,
+  position: Position,
+): string | null {
+  return configPath(document, document.offsetAt(position))?.join(".") ?? null;
+}
+
+/** The entries of one document, placed where it is attached. */
+export function documentEntries(doc: TextDocument): ConfigEntry[] {
+  return configEntries(getParsed(doc), moduleBase(doc.uri));
+}
+
+export interface FileEntries {
+  uri: string;
+  document: TextDocument;
+  entries: ConfigEntry[];
+}
+
+/** The config tree: every workspace file and whatever they import. */
+export function configTree(): FileEntries[] {
+  const uris = new Set<string>();
+  for (const uri of listKnownDocuments()) {
+    for (const imported of importClosure(uri)) uris.add(imported);
+  }
+  const tree: FileEntries[] = [];
+  for (const uri of uris) {
+    const document = getDocument(uri);
+    if (!document) continue;
+    tree.push({ uri, document, entries: documentEntries(document) });
+  }
+  return tree;
+}
+
+function entryLocation(
+  file: FileEntries,
+  start: number,
+  end: number,
+): Location {
+  return Location.create(
+    file.uri,
+    Range.create(
+      file.document.positionAt(start),
+      file.document.positionAt(end),
+    ),
+  );
+}
+
+export function provideConfigNodes(): WorkspaceConfigNode[] {
+  const nodes: WorkspaceConfigNode[] = [];
+  for (const file of configTree()) {
+    for (const entry of file.entries) {
+      if (entry.kind !== "node") continue;
+      nodes.push({
+        path: entry.path.join("."),
+        uri: file.uri,
+        range: entryLocation(file, entry.nameStart, entry.nameEnd).range,
+      });
+    }
+  }
+  return nodes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function runAliasChecks(doc: TextDocument): Diagnostic[] {
+  // The whole tree is only needed when the document has aliases to check
+  const own = documentEntries(doc);
+  if (!own.some((entry) => entry.target)) return [];
+  const all = configTree().flatMap((file) => file.entries);
+  return checkAliases(own, all).map((issue) =>
+    Diagnostic.create(
+      Range.create(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      issue.message,
+      DiagnosticSeverity.Error,
+      issue.code,
+    ),
+  );
+}
+
+/** The alias whose target is at `offset`, or the entry named there. */
+function entryAt(
+  file: FileEntries,
+  offset: number,
+): { path: string[]; onTarget: boolean } | null {
+  for (const entry of file.entries) {
+    const target = entry.target;
+    if (target && target.start <= offset && offset <= target.end) {
+      return { path: target.path, onTarget: true };
+    }
+    if (entry.nameStart <= offset && offset <= entry.nameEnd) {
+      return { path: entry.path, onTarget: false };
+    }
+  }
+  return null;
+}
+
+/** Go-to-definition on an alias target: the entries declaring that path. */
+export function provideAliasDefinition(
+  doc: TextDocument,
+  position: Position,
+): Location[] | null {
+  const tree = configTree();
+  const file = tree.find((f) => f.uri === doc.uri);
+  const at = file && entryAt(file, doc.offsetAt(position));
+  if (!at?.onTarget) return null;
+  const locations = tree.flatMap((f) =>
+    f.entries
+      .filter((entry) => samePath(entry.path, at.path))
+      .map((entry) => entryLocation(f, entry.nameStart, entry.nameEnd)),
+  );
+  return locations.length > 0 ? locations : null;
+}
+
+/** Every alias pointing at the entry at `position` (or at the same target). */
+export function provideAliasReferences(
+  doc: TextDocument,
+  position: Position,
+  includeDeclaration: boolean,
+): Location[] {
+  const tree = configTree();
+  const file = tree.find((f) => f.uri === doc.uri);
+  const at = file && entryAt(file, doc.offsetAt(position));
+  if (!at) return [];
+  const locations: Location[] = [];
+  for (const f of tree) {
+    for (const entry of f.entries) {
+      if (includeDeclaration && samePath(entry.path, at.path)) {
+        locations.push(entryLocation(f, entry.nameStart, entry.nameEnd));
+      }
+      const target = entry.target;
+      if (target && samePath(target.path, at.path)) {
+        locations.push(entryLocation(f, target.start, target.end));
+      }
+    }
+  }
+  return locations;
+}
+
+export function provideInlayHints(
+  document: TextDocument,
+  range: Range,
+): InlayHint[] {
+  const parsed = getParsed(document);
+  const base = moduleBase(document.uri);
+  const from = document.offsetAt(range.start);
+  const to = document.offsetAt(range.end);
+  const hints: InlayHint[] = [];
+  const hint = (offset: number, label: string, tooltip: string) => {
+    hints.push({
+      position: document.positionAt(offset),
+      label,
+      tooltip,
+      paddingLeft: true,
+    });
+  };
+  /** What `$name` or `$path` at `offset` stands for. */
+  const value = (global: string, offset: number): string | null => {
+    const segments = configPathAt(parsed, offset, base);
+    if (!segments) return null;
+    return global === "name"
+      ? segments[segments.length - 1]
+      : segments.join(".");
+  };
+
+  walk(parsed.file, (node: Node) => {
+    if (node.end < from || node.start > to) return false;
+    switch (node.kind) {
+      case "ZenVar": {
+        if (node.name !== "name" && node.name !== "path") return false;
+        const text = value(node.name, node.start);
+        if (text) hint(node.end, `= ${text}`, `$${node.name}`);
+        return false;
+      }
+      case "String":
+        for (const part of node.parts) {
+          if (part.kind !== "StringChunk") continue;
+          for (const match of part.raw.matchAll(/\$(name|path)\b/g)) {
+            const start = part.start + match.index!;
+            const text = value(match[1], start);
+            if (text) {
+              hint(start + match[0].length, `= ${text}`, match[0]);
+            }
+          }
+        }
+        return;
+      case "Action": {
+        if (!node.body) return;
+        const target = configPathAt(parsed, node.start, base);
+        if (target) {
+          hint(
+            node.body.start + 1,
+            target.join("."),
+            `Node configured by this ${node.form} block`,
+          );
+        }
+        return;
+      }
+    }
+  });
+  return hints;
+}
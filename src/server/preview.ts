@@ -0,0 +1,56 @@
+// The plain Nix a Z.O.N.E. file desugars to, for the preview and the export
+// to `.nix`. Served as a custom request so any LSP client can show it.
+
+import * as cp from "child_process";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Desugared, desugar } from "../zone/desugar";
+import { getParsed } from "./documents";
+import { importClosure, importRefs, resolveImport } from "./imports";
+import { getProjectConfig } from "./project";
+import { documentPath, getDocument, pathToUri } from "./workspace";
+
+/** `{ uri }` → `{ text, sourceLines }`, or null for an unknown document. */
+export const DESUGAR_REQUEST = "zen-nix/desugar";
+
+export interface DesugarParams {
+  uri: string;
+  /** Run the result through nixfmt, for the export; the lines then no longer map. */
+  format?: boolean;
+}
+
+export function provideDesugared(document: TextDocument): Desugared {
+  const name = decodeURIComponent(
+    document.uri.slice(document.uri.lastIndexOf("/") + 1),
+  );
+  const parsed = getParsed(document);
+  const refs = importRefs(parsed);
+  const fromPath = documentPath(document);
+  const inlined = new Set([document.uri]);
+  // Each import with what it imports in turn, skipping files already inlined
+  return desugar(parsed, name, (node) => {
+    const ref = refs.find((r) => r.node === node);
+    const resolved = ref && resolveImport(ref.spec, fromPath);
+    if (!resolved) return [];
+    return importClosure(pathToUri(resolved)).flatMap((uri) => {
+      const imported = !inlined.has(uri) && getDocument(uri);
+      inlined.add(uri);
+      return imported ? [getParsed(imported)] : [];
+    });
+  });
+}
+
+/** `text` as nixfmt prints it; unchanged when nixfmt is missing or fails. */
+export function formatWithNixfmt(text: string): Promise<string> {
+  return new Promise((resolve) => {
+    const nixfmt = cp.spawn(getProjectConfig().tools.nixfmt, []);
+    let stdout = "";
+    nixfmt.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+    nixfmt.on("error", () => resolve(text));
+    nixfmt.on("close", (code) => resolve(code === 0 && stdout ? stdout : text));
+    // Writing to a process that never started fails harmlessly
+    nixfmt.stdin.on("error", () => {});
+    nixfmt.stdin.end(text);
+  });
+}
@@ -0,0 +1,271 @@
+// Project configuration: `.zenos.json` at the workspace root, plus the
+// `zen-nix.project` setting in the same shape, which wins where both name the
+// same thing. It extends the vocabulary (see zone/vocabulary.ts), adds
+// `_keyword` snippets and changes the severity of diagnostics by code. Where
+// nixfmt and nix-instantiate are comes from the setting alone: the server
+// runs them, and a cloned repository must not pick what it runs.
+
+import * as fs from "fs";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { Doc } from "../zone/docs";
+import { parse } from "../zone/parser";
+import { FieldSchema, FieldSet } from "../zone/schema";
+import { ZoneType, parseTypeExpr } from "../zone/types";
+import { Vocabulary, applyVocabulary } from "../zone/vocabulary";
+import { clearParseCache } from "./documents";
+import { resolveSettingPath } from "./options";
+import { getSettings } from "./settings";
+import { getWorkspaceRoots } from "./workspace";
+
+export const PROJECT_FILE = ".zenos.json";
+
+export interface ProjectKeyword {
+  detail: string;
+  /** Snippet inserted for the keyword, name included. */
+  snippet: string;
+}
+
+/** What a diagnostic code is reported as; "off" drops it. */
+export type SeverityOverride = DiagnosticSeverity | "off";
+
+export interface ProjectConfig {
+  /** `_name` → its completion. */
+  keywords: Record<string, ProjectKeyword>;
+  /** Diagnostic code → how it is reported. */
+  severity: Record<string, SeverityOverride>;
+  /** Commands to run; plain names are looked up on PATH. */
+  tools: { nixfmt: string; nixInstantiate: string };
+}
+
+const DEFAULTS: ProjectConfig = {
+  keywords: {},
+  severity: {},
+  tools: { nixfmt: "nixfmt", nixInstantiate: "nix-instantiate" },
+};
+
+const SEVERITIES: Record<string, SeverityOverride> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+  off: "off",
+};
+
+let current: ProjectConfig = DEFAULTS;
+
+/** Problems of the last load, so the same ones are not shown twice. */
+let reported = "";
+
+export function getProjectConfig(): ProjectConfig {
+  return current;
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** `"int"`, `"$type.list of $type.string"`, … → the type. */
+function parseTypeText(text: string): ZoneType | string {
+  // Bare text would parse as the bindings of a file
+  const parsed = parse(`(${text})`);
+  if (!parsed.file.body || parsed.errors.length > 0) {
+    return `'${text}' is not a type`;
+  }
+  const result = parseTypeExpr(parsed.file.body);
+  return result.ok ? result.type : result.error.message;
+}
+
+/** A `"detail"` string or a `{ detail, doc }` object. */
+function readDoc(value: unknown): Doc | null {
+  if (typeof value === "string") return { detail: value, doc: value };
+  if (!isObject(value) || typeof value.detail !== "string") return null;
+  return {
+    detail: value.detail,
+    doc: typeof value.doc === "string" ? value.doc : value.detail,
+  };
+}
+
+/** The sections of the file and the setting, merged name by name. */
+function readSources(problem: (message: string) => void): Raw {
+  let file: unknown = {};
+  const root = getWorkspaceRoots()[0];
+  const fsPath = root && path.join(root, PROJECT_FILE);
+  if (fsPath && fs.existsSync(fsPath)) {
+    try {
+      file = JSON.parse(fs.readFileSync(fsPath, "utf8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      problem(`could not read ${fsPath}: ${reason}`);
+    }
+  }
+  if (isObject(file) && "tools" in file) {
+    problem(
+      `tools in ${PROJECT_FILE} are ignored; set them in zen-nix.project.`,
+    );
+  }
+  const setting = getSettings().project;
+  const merged: Raw = {};
+  for (const source of [file, setting]) {
+    if (!isObject(source)) continue;
+    for (const [section, value] of Object.entries(source)) {
+      if (!isObject(value)) continue;
+      if (section === "tools" && source === file) continue;
+      merged[section] = { ...(merged[section] as Raw), ...value };
+    }
+  }
+  return merged;
+}
+
+function readVocabulary(
+  raw: Raw,
+  problem: (message: string) => void,
+): Vocabulary {
+  const vocabulary: Vocabulary = {
+    globals: {},
+    types: {},
+    nodes: {},
+    buildTypes: {},
+  };
+  const section = (name: string) => {
+    const value = raw[name];
+    return Object.entries(isObject(value) ? value : {});
+  };
+
+  for (const [name, value] of section("globals")) {
+    const doc = readDoc(value);
+    if (doc) vocabulary.globals[name.replace(/^\$/, "")] = doc;
+    else problem(`globals.${name}: expected a description.`);
+  }
+  for (const [name, value] of section("types")) {
+    const spec = typeof value === "string" ? { type: value } : value;
+    const type =
+      isObject(spec) && typeof spec.type === "string"
+        ? parseTypeText(spec.type)
+        : 'expected a type such as "int" or "list of string"';
+    if (typeof type === "string") {
+      problem(`types.${name}: ${type}`);
+      continue;
+    }
+    const doc = isObject(spec) && typeof spec.doc === "string" ? spec.doc : "";
+    vocabulary.types[name] = { type, doc };
+  }
+  for (const [name, value] of section("nodes")) {
+    const doc = readDoc(value);
+    if (!doc) {
+      problem(`nodes.${name}: expected a description.`);
+      continue;
+    }
+    const arg = isObject(value) ? value.arg : undefined;
+    vocabulary.nodes[name] = {
+      doc,
+      arg:
+        typeof arg === "string"
+          ? { name: arg, doc: "" }
+          : isObject(arg) && typeof arg.name === "string"
+            ? {
+                name: arg.name,
+                doc: typeof arg.doc === "string" ? arg.doc : "",
+              }
+            : undefined,
+    };
+  }
+  for (const [name, value] of section("buildTypes")) {
+    if (!isObject(value)) {
+      problem(`buildTypes.${name}: expected { doc, fields }.`);
+      continue;
+    }
+    const schema: FieldSet = {
+      doc: typeof value.doc === "string" ? value.doc : "",
+      fields: {},
+    };
+    const fields = isObject(value.fields) ? value.fields : {};
+    for (const [field, spec] of Object.entries(fields)) {
+      const type =
+        isObject(spec) && typeof spec.type === "string"
+          ? parseTypeText(spec.type)
+          : "expected { type, required?, doc? }";
+      if (typeof type === "string") {
+        problem(`buildTypes.${name}.${field}: ${type}`);
+        continue;
+      }
+      const entry: FieldSchema = { type, doc: "" };
+      if (isObject(spec) && spec.required === true) entry.required = true;
+      if (isObject(spec) && typeof spec.doc === "string") entry.doc = spec.doc;
+      schema.fields[field] = entry;
+    }
+    vocabulary.buildTypes[name] = schema;
+  }
+  return vocabulary;
+}
+
+function readConfig(
+  raw: Raw,
+  problem: (message: string) => void,
+): ProjectConfig {
+  const config: ProjectConfig = {
+    keywords: {},
+    severity: {},
+    tools: { ...DEFAULTS.tools },
+  };
+  const section = (name: string) => {
+    const value = raw[name];
+    return Object.entries(isObject(value) ? value : {});
+  };
+
+  for (const [name, value] of section("keywords")) {
+    if (!name.startsWith("_")) {
+      problem(`keywords.${name}: keywords start with '_'.`);
+      continue;
+    }
+    const doc = readDoc(value);
+    const snippet = isObject(value) ? value.snippet : undefined;
+    config.keywords[name] = {
+      detail: doc?.detail ?? "Project keyword",
+      snippet: typeof snippet === "string" ? snippet : `${name} = {\n\t$0\n};`,
+    };
+  }
+  for (const [code, value] of section("severity")) {
+    const severity =
+      typeof value === "string" &&
+      Object.hasOwn(SEVERITIES, value) &&
+      SEVERITIES[value];
+    if (severity) {
+      config.severity[code] = severity;
+    } else {
+      problem(
+        `severity.${code}: expected one of ${Object.keys(SEVERITIES).join(", ")}.`,
+      );
+    }
+  }
+  for (const [tool, value] of section("tools")) {
+    if (tool !== "nixfmt" && tool !== "nixInstantiate") continue;
+    if (typeof value !== "string" || !value) continue;
+    // A bare name is a command on PATH, anything else a file
+    config.tools[tool] = /[\\/]/.test(value)
+      ? resolveSettingPath(value)
+      : value;
+  }
+  return config;
+}
+
+/**
+ * Read the project configuration again and apply it. Returns a message for
+ * each problem with it, unless the same ones were reported last time.
+ */
+export function loadProjectConfig(): string[] {
+  const problems: string[] = [];
+  const problem = (message: string) =>
+    problems.push(`Project configuration: ${message}`);
+  const raw = readSources(problem);
+  applyVocabulary(readVocabulary(raw, problem));
+  current = readConfig(raw, problem);
+  // Structural node kinds change how files parse
+  clearParseCache();
+
+  const key = problems.join("\n");
+  if (key === reported) return [];
+  reported = key;
+  return problems;
+}
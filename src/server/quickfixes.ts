@@ -0,0 +1,290 @@
+// Quick fixes for the server's own diagnostics, dispatched by diagnostic code,
+// and a "fix all" action that applies every preferred fix in a file at once.
+
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { editDistance } from "../zone/distance";
+import { checkOptionValues } from "../zone/options";
+import { checkBlocks } from "../zone/schema";
+import { TypeIssue, checkDeclarations } from "../zone/types";
+import {
+  runSchemaChecks,
+  runStaticHeuristics,
+  runTypeChecks,
+  withSeverities,
+} from "./diagnostics";
+import { runAttributionChecks } from "./attribution";
+import { getParsed } from "./documents";
+import { fileKindFixes, runFileKindChecks } from "./kinds";
+import { legacyActionFixes, runLegacyActionChecks } from "./legacy";
+import { optionTrees, runOptionChecks } from "./options";
+
+function fix(
+  doc: TextDocument,
+  title: string,
+  diagnostic: Diagnostic,
+  edits: TextEdit[],
+  isPreferred = false,
+): CodeAction {
+  return {
+    title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: { changes: { [doc.uri]: edits } },
+    isPreferred,
+  };
+}
+
+/** Missing `;`, `=` and closing brackets, and stray closers. */
+function syntaxFixes(doc: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+  const start = doc.offsetAt(diagnostic.range.start);
+  const error = getParsed(doc).errors.find(
+    (e) => e.code === diagnostic.code && e.start === start,
+  );
+  if (!error) return [];
+  const text = doc.getText();
+  const insert = (offset: number, value: string) =>
+    TextEdit.insert(doc.positionAt(offset), value);
+
+  switch (error.code) {
+    case "missing-semicolon":
+    case "missing-semicolon-after-brace":
+      return [
+        fix(
+          doc,
+          "Insert missing ';'",
+          diagnostic,
+          [insert(error.end, ";")],
+          true,
+        ),
+      ];
+    case "missing-equals": {
+      // Without a value after it, an `=` alone would not help
+      if (/^\s*(;|$)/.test(text.slice(error.end))) return [];
+      return [
+        fix(
+          doc,
+          "Insert missing '='",
+          diagnostic,
+          [insert(error.end, " =")],
+          true,
+        ),
+      ];
+    }
+    case "unclosed": {
+      if (!error.closer || error.closeAt === undefined) return [];
+      const openLine = doc.positionAt(error.start).line;
+      const at = doc.positionAt(error.closeAt);
+      let value = error.closer;
+      if (at.line !== openLine) {
+        // Close on a line of its own, indented like the opening line
+        const lineText = doc.getText(
+          Range.create(openLine, 0, openLine + 1, 0),
+        );
+        value = "\n" + lineText.match(/^[ \t]*/)![0] + error.closer;
+      } else if (/\s/.test(text[error.end] ?? "")) {
+        // `[ 1 2` → `[ 1 2 ]`, matching the space after the opener
+        value = " " + error.closer;
+      }
+      return [
+        fix(
+          doc,
+          `Insert missing '${error.closer}'`,
+          diagnostic,
+          [insert(error.closeAt, value)],
+          true,
+        ),
+      ];
+    }
+    case "unexpected-close":
+      return [
+        fix(doc, `Remove '${text.slice(error.start, error.end)}'`, diagnostic, [
+          TextEdit.del(diagnostic.range),
+        ]),
+      ];
+  }
+  return [];
+}
+
+/** Put `text` in double quotes, escaping what Nix would interpret. */
+function quote(text: string): string {
+  return `"${text.replace(/[\\"]/g, "\\$&").replace(/\$\{/g, "\\${")}"`;
+}
+
+/** Bad enum values and bare values where a string was expected. */
+function typeFixes(doc: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+  const parsed = getParsed(doc);
+  const start = doc.offsetAt(diagnostic.range.start);
+  const end = doc.offsetAt(diagnostic.range.end);
+  const issues: TypeIssue[] =
+    diagnostic.code === "type-mismatch"
+      ? checkDeclarations(parsed)
+      : diagnostic.code === "invalid-option-value"
+        ? checkOptionValues(parsed, optionTrees())
+        : checkBlocks(parsed).filter((i) => i.code === "invalid-field");
+  const issue = issues.find((i) => i.start === start && i.end === end);
+  const expected = issue?.expected;
+  if (!expected) return [];
+  const value = doc.getText(diagnostic.range);
+
+  if (expected.kind === "enum") {
+    const current = value.replace(/^"|"$/g, "");
+    const ranked = [...expected.options].sort(
+      (a, b) => editDistance(current, a) - editDistance(current, b),
+    );
+    return ranked.map((option, i) =>
+      fix(
+        doc,
+        `Change to "${option}"`,
+        diagnostic,
+        [TextEdit.replace(diagnostic.range, quote(option))],
+        // Only a near miss is safe to apply without looking
+        i === 0 &&
+          (expected.options.length === 1 || editDistance(current, option) <= 2),
+      ),
+    );
+  }
+
+  if (expected.kind === "string" && /^[^\s"'{}[\]()]+$/.test(value)) {
+    return [
+      fix(
+        doc,
+        "Wrap in quotes",
+        diagnostic,
+        [TextEdit.replace(diagnostic.range, quote(value))],
+        true,
+      ),
+    ];
+  }
+  return [];
+}
+
+/**
+ * The "did you mean" of unknown packages, licenses and maintainers, and the
+ * `$l.` name of a license string. Only the latter is certain enough to be
+ * preferred.
+ */
+function suggestionFixes(
+  doc: TextDocument,
+  diagnostic: Diagnostic,
+): CodeAction[] {
+  const data = diagnostic.data as { suggestion?: string } | undefined;
+  if (!data?.suggestion) return [];
+  return [
+    fix(
+      doc,
+      `Change to '${data.suggestion}'`,
+      diagnostic,
+      [TextEdit.replace(diagnostic.range, data.suggestion)],
+      diagnostic.code === "string-license",
+    ),
+  ];
+}
+
+function fixesFor(doc: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+  switch (diagnostic.code) {
+    case "missing-semicolon":
+    case "missing-semicolon-after-brace":
+    case "missing-equals":
+    case "unclosed":
+    case "unexpected-close":
+      return syntaxFixes(doc, diagnostic);
+    case "type-mismatch":
+    case "invalid-field":
+    case "invalid-option-value":
+      return typeFixes(doc, diagnostic);
+    case "unknown-package":
+    case "unknown-license":
+    case "unknown-maintainer":
+    case "string-license":
+      return suggestionFixes(doc, diagnostic);
+    case "legacy-action":
+      return legacyActionFixes(doc, diagnostic);
+  }
+  return fileKindFixes(doc, diagnostic);
+}
+
+/**
+ * The preferred fix of every diagnostic in the file, as one edit. Fixes
+ * that touch other files or overlap an earlier fix are left out.
+ */
+function fixAll(doc: TextDocument, kind: string): CodeAction | null {
+  // Codes turned off are not shown, so they are not fixed either
+  const diagnostics = withSeverities([
+    ...runStaticHeuristics(doc),
+    ...runTypeChecks(doc),
+    ...runSchemaChecks(doc),
+    ...runFileKindChecks(doc),
+    ...runOptionChecks(doc),
+    ...runAttributionChecks(doc),
+    ...runLegacyActionChecks(doc),
+  ]);
+  const edits: { start: number; end: number; edit: TextEdit }[] = [];
+  for (const diagnostic of diagnostics) {
+    const preferred = fixesFor(doc, diagnostic).find((a) => a.isPreferred);
+    const changes = preferred?.edit?.changes;
+    if (!changes || Object.keys(changes).length !== 1) continue;
+    for (const edit of changes[doc.uri] ?? []) {
+      edits.push({
+        start: doc.offsetAt(edit.range.start),
+        end: doc.offsetAt(edit.range.end),
+        edit,
+      });
+    }
+  }
+  // At one offset a missing `;` goes after any missing closers: `];`
+  const semicolonLast = (e: TextEdit) => (e.newText === ";" ? 1 : 0);
+  edits.sort(
+    (a, b) =>
+      a.start - b.start ||
+      a.end - b.end ||
+      semicolonLast(a.edit) - semicolonLast(b.edit),
+  );
+  const merged: TextEdit[] = [];
+  let lastStart = -1;
+  let lastEnd = -1;
+  for (const { start, end, edit } of edits) {
+    const previous = merged[merged.length - 1];
+    if (start === end && start === lastStart && lastStart === lastEnd) {
+      merged[merged.length - 1] = TextEdit.insert(
+        previous.range.start,
+        previous.newText + edit.newText,
+      );
+      continue;
+    }
+    if (start <= lastEnd) continue;
+    merged.push(edit);
+    lastStart = start;
+    lastEnd = end;
+  }
+  if (merged.length === 0) return null;
+  return {
+    title: "Fix all auto-fixable problems",
+    kind,
+    edit: { changes: { [doc.uri]: merged } },
+  };
+}
+
+export function provideCodeActions(
+  doc: TextDocument,
+  diagnostics: Diagnostic[],
+  only?: string[],
+): CodeAction[] {
+  if (only?.some((k) => CodeActionKind.SourceFixAll.startsWith(k))) {
+    const all = fixAll(doc, CodeActionKind.SourceFixAll);
+    return all ? [all] : [];
+  }
+  const actions = diagnostics.flatMap((d) => fixesFor(doc, d));
+  if (actions.length > 0) {
+    const all = fixAll(doc, CodeActionKind.QuickFix);
+    const count = all?.edit?.changes?.[doc.uri].length ?? 0;
+    if (all && count > 1) actions.push(all);
+  }
+  return actions;
+}
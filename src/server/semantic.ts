@@ -0,0 +1,226 @@
+// Semantic tokens for the Z.O.N.E. constructs the TextMate grammars can only
+// guess at: actions by scope and form, `_let` declarations and whether `$v.`
+// / `$f.` references resolve, and deprecated spellings. Plain Nix is left to
+// the grammar.
+
+import {
+  SemanticTokens,
+  SemanticTokensBuilder,
+  SemanticTokensLegend,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LEGACY_ACTIONS, Node, attrNameText, walk } from "../zone/ast";
+import { GLOBAL_DOCS } from "../zone/docs";
+import { BUILD_TYPES } from "../zone/schema";
+import { TYPE_NAMES } from "../zone/types";
+import { getAttribution } from "./attribution";
+import { getParsed } from "./documents";
+import { SYMBOL_ACCESSORS, visibleSymbols } from "./symbols";
+
+/** Token types; `action` is our own and declared in package.json. */
+const TOKEN_TYPES = [
+  "keyword",
+  "action",
+  "variable",
+  "parameter",
+  "type",
+  "enumMember",
+  "function",
+  "operator",
+] as const;
+
+/** `unresolved`, `system`, `user` and `unconditional` are our own. */
+const TOKEN_MODIFIERS = [
+  "declaration",
+  "readonly",
+  "defaultLibrary",
+  "deprecated",
+  "unresolved",
+  "system",
+  "user",
+  "unconditional",
+] as const;
+
+type TokenType = (typeof TOKEN_TYPES)[number];
+type TokenModifier = (typeof TOKEN_MODIFIERS)[number];
+
+export const SEMANTIC_LEGEND: SemanticTokensLegend = {
+  tokenTypes: [...TOKEN_TYPES],
+  tokenModifiers: [...TOKEN_MODIFIERS],
+};
+
+const BLOCKS = ["_meta", "_src", "_build"];
+
+interface Token {
+  start: number;
+  end: number;
+  type: TokenType;
+  modifiers: TokenModifier[];
+}
+
+export function provideSemanticTokens(document: TextDocument): SemanticTokens {
+  const parsed = getParsed(document);
+  const text = parsed.text;
+  const tokens: Token[] = [];
+  const add = (
+    start: number,
+    end: number,
+    type: TokenType,
+    ...modifiers: TokenModifier[]
+  ) => {
+    if (end > start) tokens.push({ start, end, type, modifiers });
+  };
+
+  const visible = new Set(
+    visibleSymbols(document.uri).map((s) => `${s.kind}:${s.name}`),
+  );
+  const { licenses } = getAttribution();
+
+  walk(parsed.file, (node: Node) => {
+    switch (node.kind) {
+      case "Action": {
+        // `s! = {` is the legacy spelling
+        const legacy = /^\s*=/.test(text.slice(node.formEnd));
+        add(
+          node.start,
+          node.formEnd,
+          "action",
+          ...(node.scope === "generic" ? [] : [node.scope]),
+          ...(node.conditional ? [] : (["unconditional"] as const)),
+          ...(legacy ? (["deprecated"] as const) : []),
+        );
+        return;
+      }
+      case "Binding": {
+        const head = node.path[0];
+        const name = head && attrNameText(head);
+        if (name && BLOCKS.includes(name)) {
+          add(head.start, head.end, "keyword");
+        } else if (name && LEGACY_ACTIONS[name]) {
+          const form = LEGACY_ACTIONS[name];
+          add(
+            head.start,
+            head.end,
+            "action",
+            ...(form.startsWith("s") ? (["system"] as const) : []),
+            ...(form.startsWith("u") ? (["user"] as const) : []),
+            ...(form.endsWith("!!") ? (["unconditional"] as const) : []),
+            "deprecated",
+          );
+        }
+        return;
+      }
+      case "LetDecl":
+        add(node.start, node.start + "_let".length, "keyword");
+        if (node.name) {
+          add(
+            node.name.start,
+            node.name.end,
+            "variable",
+            "declaration",
+            "readonly",
+          );
+        }
+        return;
+      case "Import":
+        add(node.start, node.keywordEnd, "keyword");
+        return;
+      case "Structural": {
+        add(node.nodeStart, node.nodeEnd, "keyword");
+        const id = node.args[0];
+        if (node.node === "freeform" && id) {
+          add(id.start, id.end, "parameter", "declaration");
+        }
+        return;
+      }
+      case "EnableOption":
+        add(node.start, node.nameEnd, "function", "defaultLibrary");
+        return;
+      case "Cascade":
+        add(node.start, node.start + node.op.length, "operator");
+        return;
+      case "String":
+        // `$name` and `$path` are filled in inside strings, too
+        for (const part of node.parts) {
+          if (part.kind !== "StringChunk") continue;
+          for (const match of part.raw.matchAll(/\$(?:name|path)\b/g)) {
+            const start = part.start + match.index!;
+            add(
+              start,
+              start + match[0].length,
+              "variable",
+              "readonly",
+              "defaultLibrary",
+            );
+          }
+        }
+        return;
+      case "ZenVar": {
+        add(
+          node.start,
+          node.nameEnd,
+          "variable",
+          "readonly",
+          ...(GLOBAL_DOCS[node.name]
+            ? (["defaultLibrary"] as const)
+            : (["unresolved"] as const)),
+        );
+        const member = node.segments[0];
+        if (!member?.name) return false;
+        const kind = SYMBOL_ACCESSORS[node.name];
+        if (kind) {
+          const resolved = visible.has(`${kind}:${member.name}`);
+          add(
+            member.start,
+            member.end,
+            kind === "let" ? "variable" : "parameter",
+            "readonly",
+            ...(resolved ? [] : (["unresolved"] as const)),
+          );
+        } else if (node.name === "type") {
+          add(
+            member.start,
+            member.end,
+            "type",
+            "defaultLibrary",
+            ...(TYPE_NAMES.includes(member.name) || BUILD_TYPES[member.name]
+              ? []
+              : (["unresolved"] as const)),
+          );
+        } else if (node.name === "l") {
+          add(
+            member.start,
+            member.end,
+            "enumMember",
+            "defaultLibrary",
+            ...(licenses.has(member.name) ? [] : (["unresolved"] as const)),
+          );
+        }
+        return false;
+      }
+    }
+  });
+
+  tokens.sort((a, b) => a.start - b.start);
+  const builder = new SemanticTokensBuilder();
+  let lastEnd = 0;
+  for (const token of tokens) {
+    // Tokens may neither overlap nor span lines
+    if (token.start < lastEnd) continue;
+    const start = document.positionAt(token.start);
+    const end = document.positionAt(token.end);
+    if (start.line !== end.line) continue;
+    builder.push(
+      start.line,
+      start.character,
+      end.character - start.character,
+      TOKEN_TYPES.indexOf(token.type),
+      token.modifiers.reduce(
+        (bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)),
+        0,
+      ),
+    );
+    lastEnd = token.end;
+  }
+  return builder.build();
+}
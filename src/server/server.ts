@@ -0,0 +1,436 @@
+// Z.O.N.E. language server.
+//
+// All language features live here, behind the Language Server Protocol, so
+// any editor with an LSP client gets the same completion, diagnostics and
+// formatting as VS Code. The connection is passed in rather than created
+// here, which lets tests drive the server over in-memory streams.
+
+import {
+  CodeActionKind,
+  Connection,
+  FileChangeType,
+  MessageType,
+  SemanticTokensRequest,
+  ShowMessageNotification,
+  TextDocumentSyncKind,
+  TextDocuments,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { loadAttribution } from "./attribution";
+import { provideColorPresentations, provideDocumentColors } from "./colors";
+import { provideCompletionItems, setSuggestCommand } from "./completion";
+import {
+  PublishDiagnostics,
+  checkDocuments,
+  clearDiagnostics,
+  scheduleDiagnostics,
+} from "./diagnostics";
+import {
+  ON_TYPE_TRIGGERS,
+  provideDocumentFormattingEdits,
+  provideOnTypeFormattingEdits,
+  provideRangeFormattingEdits,
+} from "./formatting";
+import { provideHover } from "./hover";
+import { provideDocumentLinks, provideImportDefinition } from "./imports";
+import { MIGRATE_ACTIONS_COMMAND, migrationEdit } from "./legacy";
+import {
+  DESUGAR_REQUEST,
+  DesugarParams,
+  formatWithNixfmt,
+  provideDesugared,
+} from "./preview";
+import { loadOptionTrees } from "./options";
+import {
+  provideDocumentSymbols,
+  provideFoldingRanges,
+  provideSelectionRanges,
+} from "./outline";
+import { invalidateWorkspacePackages, loadPackageIndex } from "./packages";
+import { PROJECT_FILE, loadProjectConfig } from "./project";
+import {
+  CONFIG_NODES_REQUEST,
+  CONFIG_PATH_REQUEST,
+  ConfigPathParams,
+  attachmentsChanged,
+  forgetAttachments,
+  invalidateModuleBases,
+  provideAliasDefinition,
+  provideAliasReferences,
+  provideConfigNodes,
+  provideConfigPath,
+  provideInlayHints,
+} from "./paths";
+import { provideCodeActions } from "./quickfixes";
+import { SEMANTIC_LEGEND, provideSemanticTokens } from "./semantic";
+import {
+  prepareRename,
+  provideReferences,
+  provideRename,
+  provideSymbolDefinition,
+} from "./symbols";
+import { updateSettings } from "./settings";
+import {
+  SIGNATURE_RETRIGGERS,
+  SIGNATURE_TRIGGERS,
+  provideSignatureHelp,
+} from "./signatures";
+import {
+  fileKind,
+  getDocument,
+  invalidateFile,
+  invalidateWorkspaceFiles,
+  isZoneDocument,
+  listKnownDocuments,
+  setOpenDocuments,
+  setWorkspaceRoots,
+  uriToPath,
+} from "./workspace";
+
+/** Checks every Z.O.N.E. file in the workspace, open or not. */
+export const CHECK_WORKSPACE_COMMAND = "zen-nix.checkWorkspace";
+
+export function startServer(connection: Connection) {
+  const documents = new TextDocuments(TextDocument);
+  setOpenDocuments(documents);
+
+  /** An open document the server handles; see `isZoneDocument`. */
+  const zoneDocument = (uri: string) => {
+    const document = documents.get(uri);
+    return document && isZoneDocument(document) ? document : undefined;
+  };
+  const zoneDocuments = () => documents.all().filter(isZoneDocument);
+
+  let refreshSemanticTokens = false;
+  let refreshInlayHints = false;
+
+  connection.onInitialize((params) => {
+    refreshSemanticTokens =
+      !!params.capabilities.workspace?.semanticTokens?.refreshSupport;
+    refreshInlayHints =
+      !!params.capabilities.workspace?.inlayHint?.refreshSupport;
+    setWorkspaceRoots(
+      params.workspaceFolders?.map((f) => f.uri) ??
+        (params.rootUri ? [params.rootUri] : []),
+    );
+    updateSettings(params.initializationOptions);
+    setSuggestCommand(
+      (params.initializationOptions as { suggestCommand?: unknown } | null)
+        ?.suggestCommand,
+    );
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TextDocumentSyncKind.Incremental,
+          save: { includeText: false },
+        },
+        completionProvider: { triggerCharacters: ["."] },
+        hoverProvider: true,
+        signatureHelpProvider: {
+          triggerCharacters: SIGNATURE_TRIGGERS,
+          retriggerCharacters: SIGNATURE_RETRIGGERS,
+        },
+        codeActionProvider: {
+          codeActionKinds: [
+            CodeActionKind.QuickFix,
+            CodeActionKind.SourceFixAll,
+          ],
+        },
+        documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        documentOnTypeFormattingProvider: {
+          firstTriggerCharacter: ON_TYPE_TRIGGERS[0],
+          moreTriggerCharacter: ON_TYPE_TRIGGERS.slice(1),
+        },
+        documentLinkProvider: {},
+        definitionProvider: true,
+        referencesProvider: true,
+        renameProvider: { prepareProvider: true },
+        executeCommandProvider: {
+          commands: [CHECK_WORKSPACE_COMMAND, MIGRATE_ACTIONS_COMMAND],
+        },
+        semanticTokensProvider: { legend: SEMANTIC_LEGEND, full: true },
+        documentSymbolProvider: true,
+        foldingRangeProvider: true,
+        selectionRangeProvider: true,
+        inlayHintProvider: true,
+        colorProvider: true,
+      },
+      serverInfo: { name: "zen-nix-language-server" },
+    };
+  });
+
+  // One-off notices go out as notifications: `show*Message` sends a request
+  // whose answer nobody waits for
+  const notify = (type: MessageType, message: string) => {
+    connection
+      .sendNotification(ShowMessageNotification.type, { type, message })
+      .catch(() => {});
+  };
+  const warn = (problems: string[]) => {
+    for (const problem of problems) notify(MessageType.Warning, problem);
+  };
+
+  const loadIndexes = () =>
+    warn([
+      ...loadProjectConfig(),
+      ...loadOptionTrees(),
+      ...loadPackageIndex(),
+      ...loadAttribution(),
+    ]);
+
+  // The files behind the settings are only read again when their mtime
+  // changed, so checking them on every open and save is cheap
+  const reloadChangedIndexes = () =>
+    warn([...loadOptionTrees(), ...loadPackageIndex(), ...loadAttribution()]);
+
+  // Before any document is opened, so the first checks know the project
+  // vocabulary, options, packages and licenses
+  connection.onInitialized(loadIndexes);
+
+  const publish: PublishDiagnostics = (uri, diagnostics) =>
+    connection.sendDiagnostics({ uri, diagnostics });
+
+  // Opening a document counts as a change, too. A `.nix` file that stops
+  // using Z.O.N.E. loses its problems.
+  documents.onDidChangeContent((event) => {
+    attachmentsChanged(event.document);
+    if (!isZoneDocument(event.document)) {
+      clearDiagnostics(event.document.uri, publish);
+      return;
+    }
+    if (fileKind(event.document.uri) === "zpkg") invalidateWorkspacePackages();
+    scheduleDiagnostics(event.document, publish);
+  });
+
+  documents.onDidOpen(reloadChangedIndexes);
+
+  // Files it imports may have been saved in the meantime
+  documents.onDidSave((event) => {
+    reloadChangedIndexes();
+    if (!isZoneDocument(event.document)) return;
+    scheduleDiagnostics(event.document, publish);
+  });
+
+  documents.onDidClose((event) => {
+    // The file on disk may differ from the closed buffer
+    forgetAttachments(event.document.uri);
+    clearDiagnostics(event.document.uri, publish);
+  });
+
+  connection.onExecuteCommand(async (params) => {
+    if (params.command === MIGRATE_ACTIONS_COMMAND) {
+      const migration = migrationEdit(
+        (uri) => documents.get(uri)?.version ?? null,
+      );
+      if (!migration) {
+        notify(MessageType.Info, "No legacy actions found.");
+        return;
+      }
+      const result = await connection.workspace.applyEdit({
+        label: "Migrate to action shorthands",
+        edit: migration.edit,
+      });
+      if (result.applied) {
+        notify(
+          MessageType.Info,
+          `Migrated ${migration.count} legacy actions in ${migration.files} files.`,
+        );
+      }
+      return;
+    }
+    if (params.command !== CHECK_WORKSPACE_COMMAND) return;
+    const docs = listKnownDocuments()
+      .map(getDocument)
+      .filter((doc): doc is TextDocument => doc !== undefined);
+    const withProblems = await checkDocuments(docs, publish);
+    notify(
+      MessageType.Info,
+      `Checked ${docs.length} Z.O.N.E. files: ${withProblems === 0 ? "no problems found" : `${withProblems} with problems`}.`,
+    );
+  });
+
+  connection.onDidChangeConfiguration((params) => {
+    updateSettings(params.settings?.["zen-nix"]);
+    loadIndexes();
+    for (const document of zoneDocuments()) {
+      scheduleDiagnostics(document, publish);
+    }
+    // The project vocabulary may have changed
+    if (refreshSemanticTokens) connection.languages.semanticTokens.refresh();
+  });
+
+  // Imports of open documents may point at the files that changed on disk
+  connection.onDidChangeWatchedFiles((params) => {
+    invalidateModuleBases();
+    for (const change of params.changes) {
+      if (change.type !== FileChangeType.Changed) invalidateWorkspaceFiles();
+      if (change.uri.startsWith("file:")) invalidateFile(uriToPath(change.uri));
+      if (fileKind(change.uri) === "zpkg") invalidateWorkspacePackages();
+    }
+    if (params.changes.some((c) => c.uri.endsWith(`/${PROJECT_FILE}`))) {
+      warn(loadProjectConfig());
+    }
+    for (const document of zoneDocuments()) {
+      scheduleDiagnostics(document, publish);
+    }
+    // `$v.` references may resolve differently now
+    if (refreshSemanticTokens) connection.languages.semanticTokens.refresh();
+    // and modules may be attached somewhere else
+    if (refreshInlayHints) connection.languages.inlayHint.refresh();
+  });
+
+  connection.onCompletion((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideCompletionItems(document, params.position);
+  });
+
+  // `languages.semanticTokens.on` does not let the handler answer null
+  connection.onRequest(SemanticTokensRequest.type, (params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideSemanticTokens(document);
+  });
+
+  connection.onDocumentSymbol((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideDocumentSymbols(document);
+  });
+
+  connection.onFoldingRanges((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideFoldingRanges(document);
+  });
+
+  connection.onSelectionRanges((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideSelectionRanges(document, params.positions);
+  });
+
+  connection.onHover((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideHover(document, params.position);
+  });
+
+  connection.onCodeAction((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideCodeActions(
+      document,
+      params.context.diagnostics,
+      params.context.only,
+    );
+  });
+
+  connection.onDocumentFormatting((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideDocumentFormattingEdits(document);
+  });
+
+  connection.onDocumentRangeFormatting((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideRangeFormattingEdits(document, params.range);
+  });
+
+  connection.onDocumentOnTypeFormatting((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideOnTypeFormattingEdits(document, params.position, params.ch);
+  });
+
+  connection.onDocumentLinks((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideDocumentLinks(document);
+  });
+
+  connection.onDefinition((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return (
+      provideImportDefinition(document, params.position) ??
+      provideSymbolDefinition(document, params.position) ??
+      provideAliasDefinition(document, params.position)
+    );
+  });
+
+  connection.onReferences((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    const symbols = provideReferences(
+      document,
+      params.position,
+      params.context.includeDeclaration,
+    );
+    return symbols.length > 0
+      ? symbols
+      : provideAliasReferences(
+          document,
+          params.position,
+          params.context.includeDeclaration,
+        );
+  });
+
+  connection.onPrepareRename((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return prepareRename(document, params.position);
+  });
+
+  connection.onRenameRequest((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideRename(document, params.position, params.newName);
+  });
+
+  connection.onRequest(DESUGAR_REQUEST, async (params: DesugarParams) => {
+    const document = getDocument(params.uri);
+    if (!document) return null;
+    const desugared = provideDesugared(document);
+    if (!params.format) return desugared;
+    return { ...desugared, text: await formatWithNixfmt(desugared.text) };
+  });
+
+  connection.onSignatureHelp((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideSignatureHelp(document, params.position);
+  });
+
+  connection.onDocumentColor((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideDocumentColors(document);
+  });
+
+  connection.onColorPresentation((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideColorPresentations(document, params.color, params.range);
+  });
+
+  connection.languages.inlayHint.on((params) => {
+    const document = zoneDocument(params.textDocument.uri);
+    if (!document) return null;
+    return provideInlayHints(document, params.range);
+  });
+
+  connection.onRequest(CONFIG_PATH_REQUEST, (params: ConfigPathParams) => {
+    const document = getDocument(params.uri);
+    if (!document) return null;
+    return provideConfigPath(document, params.position);
+  });
+
+  connection.onRequest(CONFIG_NODES_REQUEST, () => provideConfigNodes());
+
+  documents.listen(connection);
+  connection.listen();
+}
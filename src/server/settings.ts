@@ -0,0 +1,85 @@
+// Settings of the server, sent by the client as the `zen-nix` configuration
+// section (or as initialization options). Missing values keep their defaults.
+
+import { OptionSet } from "../zone/options";
+
+export interface ZoneSettings {
+  diagnostics: {
+    /** Also run `nix-instantiate --eval --strict` on files that parse. */
+    evaluate: boolean;
+  };
+  /** `options.json` of each option set; empty when there is none. */
+  options: Record<OptionSet, string>;
+  packages: {
+    /** `nix-env -qaP --json` dump; empty when there is none. */
+    index: string;
+  };
+  /** License and maintainer dumps; empty when there is none. */
+  meta: {
+    licenses: string;
+    maintainers: string;
+  };
+  /** The `.zenos.json` shape, checked when it is loaded. */
+  project: unknown;
+}
+
+const DEFAULTS: ZoneSettings = {
+  diagnostics: { evaluate: false },
+  options: { nixos: "", homeManager: "" },
+  packages: { index: "" },
+  meta: { licenses: "", maintainers: "" },
+  project: {},
+};
+
+let current: ZoneSettings = DEFAULTS;
+
+export function getSettings(): ZoneSettings {
+  return current;
+}
+
+/** What a client may send; anything can be missing or of the wrong type. */
+type RawSettings =
+  | {
+      diagnostics?: { evaluate?: unknown };
+      options?: { nixos?: unknown; homeManager?: unknown };
+      packages?: { index?: unknown };
+      meta?: { licenses?: unknown; maintainers?: unknown };
+      project?: unknown;
+    }
+  | null
+  | undefined;
+
+export function updateSettings(raw: unknown) {
+  const settings = raw as RawSettings;
+  const evaluate = settings?.diagnostics?.evaluate;
+  const { nixos, homeManager } = settings?.options ?? {};
+  const index = settings?.packages?.index;
+  const { licenses, maintainers } = settings?.meta ?? {};
+  current = {
+    diagnostics: {
+      evaluate:
+        typeof evaluate === "boolean"
+          ? evaluate
+          : DEFAULTS.diagnostics.evaluate,
+    },
+    options: {
+      nixos: typeof nixos === "string" ? nixos : DEFAULTS.options.nixos,
+      homeManager:
+        typeof homeManager === "string"
+          ? homeManager
+          : DEFAULTS.options.homeManager,
+    },
+    packages: {
+      index: typeof index === "string" ? index : DEFAULTS.packages.index,
+    },
+    meta: {
+      licenses:
+        typeof licenses === "string" ? licenses : DEFAULTS.meta.licenses,
+      maintainers:
+        typeof maintainers === "string"
+          ? maintainers
+          : DEFAULTS.meta.maintainers,
+    },
+    project: settings?.project ?? DEFAULTS.project,
+  };
+}
@@ -0,0 +1,132 @@
+// Signature help while writing the argument set of `src.<fetcher> { … }`,
+// the body of `enableOption { … }` and the argument of `(zmdl …)`,
+// `(alias …)` and `(freeform …)`, with the docs of each argument.
+
+import {
+  MarkupKind,
+  ParameterInformation,
+  Position,
+  SignatureHelp,
+  SignatureInformation,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { attrNameText } from "../zone/ast";
+import { callAt, enableOptionMeta } from "../zone/calls";
+import {
+  ENABLE_OPTION_DOC,
+  ENABLE_OPTION_PARTS,
+  STRUCTURAL_ARGS,
+  STRUCTURAL_DOCS,
+} from "../zone/docs";
+import { FETCHERS } from "../zone/schema";
+import { formatType } from "../zone/types";
+import { getParsed } from "./documents";
+
+/** Opening a call or starting its argument; `;` moves to the next field. */
+export const SIGNATURE_TRIGGERS = ["{", "(", " "];
+export const SIGNATURE_RETRIGGERS = [";"];
+
+interface Parameter {
+  label: string;
+  doc: string;
+}
+
+/** `head` followed by the parameters, each with its offsets in the label. */
+function signature(
+  head: string,
+  parameters: Parameter[],
+  separator: string,
+  tail: string,
+  doc: string,
+): SignatureInformation {
+  let label = head;
+  const infos: ParameterInformation[] = [];
+  for (const [i, parameter] of parameters.entries()) {
+    if (i > 0) label += separator;
+    infos.push({
+      label: [label.length, label.length + parameter.label.length],
+      documentation: { kind: MarkupKind.Markdown, value: parameter.doc },
+    });
+    label += parameter.label;
+  }
+  return {
+    label: label + tail,
+    documentation: { kind: MarkupKind.Markdown, value: doc },
+    parameters: infos,
+  };
+}
+
+const help = (
+  info: SignatureInformation,
+  activeParameter: number,
+): SignatureHelp => ({
+  signatures: [info],
+  activeSignature: 0,
+  activeParameter,
+});
+
+export function provideSignatureHelp(
+  document: TextDocument,
+  position: Position,
+): SignatureHelp | null {
+  const call = callAt(getParsed(document), document.offsetAt(position));
+  switch (call?.kind) {
+    case "fetcher": {
+      const fetcher = FETCHERS[call.name];
+      if (!fetcher) return null;
+      const fields = Object.entries(fetcher.fields);
+      const present = call.args.items
+        .map((item) => item.kind === "Binding" && attrNameText(item.path[0]))
+        .filter((name): name is string => !!name);
+      const info = signature(
+        `src.${call.name} { `,
+        fields.map(([name, field]) => ({
+          label: `${name}${field.required ? "" : "?"};`,
+          doc: `\`${formatType(field.type)}\`${field.required ? " (required)" : ""} — ${field.doc}`,
+        })),
+        " ",
+        " }",
+        fetcher.doc,
+      );
+      // The field being written, else the first one still missing
+      let active = fields.findIndex(([name]) => name === call.field);
+      if (active === -1) {
+        active = fields.findIndex(
+          ([name, field]) => field.required && !present.includes(name),
+        );
+      }
+      return help(info, Math.max(active, 0));
+    }
+    case "enableOption": {
+      const parts = ["brief", "description", "action"] as const;
+      const info = signature(
+        "enableOption { ",
+        parts.map((part) => ({
+          label: `${ENABLE_OPTION_PARTS[part].detail};`,
+          doc: ENABLE_OPTION_PARTS[part].doc,
+        })),
+        " ",
+        " }",
+        ENABLE_OPTION_DOC.doc,
+      );
+      const meta = enableOptionMeta(call.option);
+      const next = parts.find(
+        (part) => part === "action" || !meta.includes(part),
+      )!;
+      return help(info, parts.indexOf(call.part ?? next));
+    }
+    case "structural": {
+      const arg = STRUCTURAL_ARGS[call.node];
+      if (!arg) return null;
+      const info = signature(
+        `(${call.node} `,
+        [{ label: arg.name, doc: arg.doc }],
+        "",
+        ")",
+        STRUCTURAL_DOCS[call.node].doc,
+      );
+      return help(info, 0);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,242 @@
+// Index of `_let` variables and `(freeform id)` nodes, and the `$v.name` /
+// `$f.id` references that read them: completion, definition, references and
+// rename across the workspace.
+
+import {
+  ErrorCodes,
+  Location,
+  Position,
+  Range,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LetDecl, walk } from "../zone/ast";
+import { getParsed } from "./documents";
+import { importClosure } from "./imports";
+import { getDocument, listKnownDocuments } from "./workspace";
+
+export type SymbolKind = "let" | "freeform";
+
+/** `$v` reads `_let` variables, `$f` reads freeform ids. */
+export const SYMBOL_ACCESSORS: Record<string, SymbolKind> = {
+  v: "let",
+  f: "freeform",
+};
+
+export interface ZoneSymbol {
+  kind: SymbolKind;
+  name: string;
+  uri: string;
+  /** Offsets of the declared name in its file. */
+  start: number;
+  end: number;
+  /** Source text of the `_let` type annotation. */
+  type?: string;
+  decl?: LetDecl;
+}
+
+export interface SymbolRef {
+  kind: SymbolKind;
+  name: string;
+  uri: string;
+  /** Offsets of the member name after `$v.` / `$f.`. */
+  start: number;
+  end: number;
+}
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_'-]*$/;
+
+export function declaredSymbols(uri: string): ZoneSymbol[] {
+  const doc = getDocument(uri);
+  if (!doc) return [];
+  const parsed = getParsed(doc);
+  const symbols: ZoneSymbol[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind === "LetDecl" && node.name) {
+      symbols.push({
+        kind: "let",
+        name: node.name.name,
+        uri,
+        start: node.name.start,
+        end: node.name.end,
+        type: node.type
+          ? parsed.text.substring(node.type.start, node.type.end)
+          : undefined,
+        decl: node,
+      });
+    } else if (node.kind === "Structural" && node.node === "freeform") {
+      const id = node.args[0];
+      if (id && IDENTIFIER.test(id.text)) {
+        symbols.push({
+          kind: "freeform",
+          name: id.text,
+          uri,
+          start: id.start,
+          end: id.end,
+        });
+      }
+    }
+  });
+  return symbols;
+}
+
+export function symbolReferences(uri: string): SymbolRef[] {
+  const doc = getDocument(uri);
+  if (!doc) return [];
+  const refs: SymbolRef[] = [];
+  walk(getParsed(doc).file, (node) => {
+    if (node.kind !== "ZenVar") return;
+    const kind = SYMBOL_ACCESSORS[node.name];
+    const member = node.segments[0];
+    if (kind && member && member.name) {
+      refs.push({
+        kind,
+        name: member.name,
+        uri,
+        start: member.start,
+        end: member.end,
+      });
+    }
+    return false;
+  });
+  return refs;
+}
+
+/**
+ * Declarations a document can see: its own first, then those of its imports
+ * in import order. The nearest declaration of a name shadows the others.
+ */
+export function visibleSymbols(uri: string): ZoneSymbol[] {
+  const seen = new Set<string>();
+  const visible: ZoneSymbol[] = [];
+  for (const file of importClosure(uri)) {
+    for (const symbol of declaredSymbols(file)) {
+      const key = `${symbol.kind}:${symbol.name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      visible.push(symbol);
+    }
+  }
+  return visible;
+}
+
+export function resolveSymbol(
+  uri: string,
+  kind: SymbolKind,
+  name: string,
+): ZoneSymbol | undefined {
+  return visibleSymbols(uri).find((s) => s.kind === kind && s.name === name);
+}
+
+function sameSymbol(a: ZoneSymbol, b: ZoneSymbol): boolean {
+  return a.uri === b.uri && a.start === b.start && a.kind === b.kind;
+}
+
+/** The declaration under the cursor, or the one a reference resolves to. */
+export function symbolAt(
+  doc: TextDocument,
+  offset: number,
+): ZoneSymbol | undefined {
+  const declared = declaredSymbols(doc.uri).find(
+    (s) => s.start <= offset && offset <= s.end,
+  );
+  if (declared) return declared;
+  const ref = symbolReferences(doc.uri).find(
+    (r) => r.start <= offset && offset <= r.end,
+  );
+  return ref && resolveSymbol(doc.uri, ref.kind, ref.name);
+}
+
+/** Every reference to `symbol` in the workspace and open documents. */
+export function findReferences(symbol: ZoneSymbol): SymbolRef[] {
+  const found: SymbolRef[] = [];
+  for (const uri of listKnownDocuments()) {
+    const refs = symbolReferences(uri).filter(
+      (r) => r.kind === symbol.kind && r.name === symbol.name,
+    );
+    if (refs.length === 0) continue;
+    // Only references that resolve to this very declaration count
+    const resolved = resolveSymbol(uri, symbol.kind, symbol.name);
+    if (resolved && sameSymbol(resolved, symbol)) found.push(...refs);
+  }
+  return found;
+}
+
+function toLocation(uri: string, start: number, end: number): Location | null {
+  const doc = getDocument(uri);
+  if (!doc) return null;
+  return Location.create(
+    uri,
+    Range.create(doc.positionAt(start), doc.positionAt(end)),
+  );
+}
+
+export function provideSymbolDefinition(
+  doc: TextDocument,
+  position: Position,
+): Location | null {
+  const symbol = symbolAt(doc, doc.offsetAt(position));
+  return symbol ? toLocation(symbol.uri, symbol.start, symbol.end) : null;
+}
+
+export function provideReferences(
+  doc: TextDocument,
+  position: Position,
+  includeDeclaration: boolean,
+): Location[] {
+  const symbol = symbolAt(doc, doc.offsetAt(position));
+  if (!symbol) return [];
+  const locations = findReferences(symbol).map((r) =>
+    toLocation(r.uri, r.start, r.end),
+  );
+  if (includeDeclaration) {
+    locations.unshift(toLocation(symbol.uri, symbol.start, symbol.end));
+  }
+  return locations.filter((l): l is Location => l !== null);
+}
+
+export function prepareRename(
+  doc: TextDocument,
+  position: Position,
+): Range | null {
+  const offset = doc.offsetAt(position);
+  const symbol = symbolAt(doc, offset);
+  if (!symbol) return null;
+  // Highlight the name under the cursor, whether declaration or reference
+  const here = [...declaredSymbols(doc.uri), ...symbolReferences(doc.uri)].find(
+    (s) => s.start <= offset && offset <= s.end,
+  )!;
+  return Range.create(doc.positionAt(here.start), doc.positionAt(here.end));
+}
+
+export function provideRename(
+  doc: TextDocument,
+  position: Position,
+  newName: string,
+): WorkspaceEdit | ResponseError | null {
+  const symbol = symbolAt(doc, doc.offsetAt(position));
+  if (!symbol) return null;
+  if (!IDENTIFIER.test(newName)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `'${newName}' is not a valid identifier.`,
+    );
+  }
+
+  const changes: Record<string, TextEdit[]> = {};
+  const add = (uri: string, start: number, end: number) => {
+    const target = getDocument(uri);
+    if (!target) return;
+    (changes[uri] ??= []).push(
+      TextEdit.replace(
+        Range.create(target.positionAt(start), target.positionAt(end)),
+        newName,
+      ),
+    );
+  };
+  add(symbol.uri, symbol.start, symbol.end);
+  for (const ref of findReferences(symbol)) add(ref.uri, ref.start, ref.end);
+  return { changes };
+}
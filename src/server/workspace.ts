@@ -0,0 +1,163 @@
+// Access to Z.O.N.E. files beyond the one being edited: workspace roots and
+// parsed contents of any file, preferring the editor's unsaved text.
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { usesZone } from "../zone/detect";
+import { ParseResult } from "../zone/parser";
+import { getParsed } from "./documents";
+
+export const ZONE_EXTENSIONS = [".zstr", ".zcfg", ".zmdl", ".zpkg"];
+
+/** `zstr` structures, `zcfg` configs, `zmdl` modules, `zpkg` packages. */
+export type FileKind = "zstr" | "zcfg" | "zmdl" | "zpkg";
+
+/** Kind of a document from its extension; undefined for other files. */
+export function fileKind(uri: string): FileKind | undefined {
+  const ext = path.extname(uri.replace(/[?#].*$/, ""));
+  return ZONE_EXTENSIONS.includes(ext) ? (ext.slice(1) as FileKind) : undefined;
+}
+
+/**
+ * Whether the server handles a document: Z.O.N.E. files and `zen-nix`
+ * buffers always, other documents (plain `.nix` files) only once they carry
+ * the marker comment or use the extensions.
+ */
+export function isZoneDocument(doc: TextDocument): boolean {
+  return (
+    fileKind(doc.uri) !== undefined ||
+    doc.languageId === "zen-nix" ||
+    usesZone(getParsed(doc))
+  );
+}
+
+let roots: string[] = [];
+let openDocuments: TextDocuments<TextDocument> | undefined = undefined;
+
+// Files that are not open in the editor, keyed by path and invalidated by mtime.
+const diskCache = new Map<
+  string,
+  { mtimeMs: number; document: TextDocument }
+>();
+
+// The files under the roots, until the client reports one created or deleted.
+let workspaceFiles: string[] | null = null;
+
+export function setWorkspaceRoots(uris: string[]) {
+  roots = uris.filter((u) => u.startsWith("file:")).map(uriToPath);
+  workspaceFiles = null;
+}
+
+export function getWorkspaceRoots(): string[] {
+  return roots;
+}
+
+export function setOpenDocuments(documents: TextDocuments<TextDocument>) {
+  openDocuments = documents;
+}
+
+export function uriToPath(uri: string): string {
+  return fileURLToPath(uri);
+}
+
+export function pathToUri(fsPath: string): string {
+  return pathToFileURL(fsPath).toString();
+}
+
+/** Local path of a document, or undefined for non-`file:` documents. */
+export function documentPath(doc: TextDocument): string | undefined {
+  return doc.uri.startsWith("file:") ? uriToPath(doc.uri) : undefined;
+}
+
+export function fileExists(fsPath: string): boolean {
+  try {
+    return fs.statSync(fsPath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The editor's copy of a document when it is open, otherwise a snapshot read
+ * from disk. Returns undefined if the file cannot be read.
+ */
+export function getDocument(uri: string): TextDocument | undefined {
+  const open = openDocuments?.get(uri);
+  if (open) return open;
+  if (!uri.startsWith("file:")) return undefined;
+
+  const fsPath = uriToPath(uri);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(fsPath);
+  } catch {
+    diskCache.delete(fsPath);
+    return undefined;
+  }
+  const cached = diskCache.get(fsPath);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.document;
+  let text: string;
+  try {
+    text = fs.readFileSync(fsPath, "utf8");
+  } catch {
+    return undefined;
+  }
+  const document = TextDocument.create(uri, "zen-nix", 0, text);
+  diskCache.set(fsPath, { mtimeMs: stat.mtimeMs, document });
+  return document;
+}
+
+/** Parse any Z.O.N.E. file, open or not. Returns undefined if unreadable. */
+export function parseFile(fsPath: string): ParseResult | undefined {
+  const document = getDocument(pathToUri(fsPath));
+  return document && getParsed(document);
+}
+
+/** Forget cached contents, e.g. after the client reports a file change. */
+export function invalidateFile(fsPath: string) {
+  diskCache.delete(fsPath);
+}
+
+/** Walk the roots again next time, e.g. after a file was created. */
+export function invalidateWorkspaceFiles() {
+  workspaceFiles = null;
+}
+
+/** Every Z.O.N.E. file under the workspace roots, as URIs. */
+export function listWorkspaceFiles(): string[] {
+  if (workspaceFiles) return workspaceFiles;
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") {
+        continue;
+      }
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) visit(full);
+      else if (ZONE_EXTENSIONS.includes(path.extname(entry.name))) {
+        files.push(pathToUri(full));
+      }
+    }
+  };
+  roots.forEach(visit);
+  workspaceFiles = files;
+  return files;
+}
+
+/** Workspace files plus open documents that live elsewhere (or nowhere). */
+export function listKnownDocuments(): string[] {
+  const uris = new Set(listWorkspaceFiles());
+  for (const doc of openDocuments?.all() ?? []) {
+    if (isZoneDocument(doc)) uris.add(doc.uri);
+  }
+  return [...uris];
+}
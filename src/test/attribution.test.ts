@@ -0,0 +1,56 @@
+// Licenses from the bundled nixpkgs list: `$l.` completion, unknown license
+// names, and the quick fix that turns an SPDX string into its `$l.` name.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { CompletionList } from "vscode-languageserver/node";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+test("completes the bundled licenses after $l.", async () => {
+  const uri = "file:///ws/complete.zpkg";
+  await client.openChecked(uri, "{\n  _meta.license = $l.;\n}\n");
+  const list: CompletionList = await client.connection.sendRequest(
+    "textDocument/completion",
+    { textDocument: { uri }, position: { line: 1, character: 21 } },
+  );
+  const labels = list.items.map((item) => item.label);
+  assert.ok(labels.includes("mit"), labels.join(" "));
+  assert.ok(labels.includes("gpl3Only"), labels.join(" "));
+});
+
+test("flags an unknown license and suggests a close one", async () => {
+  const diagnostics = await client.openChecked(
+    "file:///ws/typo.zpkg",
+    "{\n  _meta.license = $l.mitt;\n}\n",
+  );
+  assert.deepEqual(
+    diagnostics
+      .filter((d) => d.code === "unknown-license")
+      .map((d) => d.message),
+    ["Unknown license 'mitt'. Did you mean 'mit'?"],
+  );
+});
+
+test("turns a license string into its $l. name", async () => {
+  const uri = "file:///ws/string.zpkg";
+  const text = '{\n  _meta.license = "MIT";\n}\n';
+  const diagnostics = await client.openChecked(uri, text);
+  const string = diagnostics.find((d) => d.code === "string-license");
+  assert.equal(string?.message, '"MIT" is available as $l.mit.');
+  const [fix] = await client.codeActions(uri, string);
+  assert.equal(fix.title, "Change to '$l.mit'");
+  assert.equal(
+    applyEdits(text, fix.edit!.changes![uri]),
+    "{\n  _meta.license = $l.mit;\n}\n",
+  );
+});
@@ -0,0 +1,143 @@
+// A scripted LSP client for the tests. It starts the server in this process,
+// talking to it over in-memory streams, and answers the requests the server
+// sends back (edits are applied, messages are dismissed).
+
+import { PassThrough } from "stream";
+import {
+  ApplyWorkspaceEditParams,
+  CodeAction,
+  Diagnostic,
+  InitializeResult,
+  MessageConnection,
+  ProposedFeatures,
+  StreamMessageReader,
+  StreamMessageWriter,
+  TextEdit,
+  createConnection,
+  createMessageConnection,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { startServer } from "../server/server";
+
+export interface TestClient {
+  connection: MessageConnection;
+  /** Every `workspace/applyEdit` the server sent. */
+  appliedEdits: ApplyWorkspaceEditParams[];
+  /** The text of every `window/showMessage` the server sent. */
+  messages: string[];
+  open(uri: string, text: string, languageId?: string): void;
+  /** Open a document and wait for the first diagnostics published for it. */
+  openChecked(
+    uri: string,
+    text: string,
+    languageId?: string,
+  ): Promise<Diagnostic[]>;
+  /** Replace the whole text of an open document. */
+  change(uri: string, version: number, text: string): void;
+  /** The next diagnostics published for `uri`; call it before the change. */
+  nextDiagnostics(uri: string): Promise<Diagnostic[]>;
+  /** The code actions offered for one of the document's diagnostics. */
+  codeActions(uri: string, diagnostic: Diagnostic): Promise<CodeAction[]>;
+  /** Stop talking to the server; its pending work fizzles out. */
+  close(): Promise<void>;
+}
+
+export async function startTestServer(
+  rootUri: string | null = null,
+  settings: unknown = {},
+): Promise<{ client: TestClient; initialized: InitializeResult }> {
+  const toServer = new PassThrough();
+  const toClient = new PassThrough();
+  startServer(
+    createConnection(
+      ProposedFeatures.all,
+      new StreamMessageReader(toServer),
+      new StreamMessageWriter(toClient),
+    ),
+  );
+  const connection = createMessageConnection(
+    new StreamMessageReader(toClient),
+    new StreamMessageWriter(toServer),
+  );
+
+  const waiting = new Map<string, ((diagnostics: Diagnostic[]) => void)[]>();
+  connection.onNotification(
+    "textDocument/publishDiagnostics",
+    (params: { uri: string; diagnostics: Diagnostic[] }) => {
+      const waiters = waiting.get(params.uri) ?? [];
+      waiting.delete(params.uri);
+      for (const resolve of waiters) resolve(params.diagnostics);
+    },
+  );
+  const appliedEdits: ApplyWorkspaceEditParams[] = [];
+  connection.onRequest("workspace/applyEdit", (params) => {
+    appliedEdits.push(params as ApplyWorkspaceEditParams);
+    return { applied: true };
+  });
+  const messages: string[] = [];
+  connection.onNotification(
+    "window/showMessage",
+    (params: { message: string }) => {
+      messages.push(params.message);
+    },
+  );
+  // `window/showMessageRequest` and anything else: dismissed
+  connection.onRequest(() => null);
+  connection.listen();
+
+  const initialized: InitializeResult = await connection.sendRequest(
+    "initialize",
+    {
+      processId: null,
+      rootUri,
+      capabilities: {},
+      initializationOptions: settings,
+    },
+  );
+  await connection.sendNotification("initialized", {});
+
+  const client: TestClient = {
+    connection,
+    appliedEdits,
+    messages,
+    open(uri, text, languageId = "zen-nix") {
+      connection.sendNotification("textDocument/didOpen", {
+        textDocument: { uri, languageId, version: 1, text },
+      });
+    },
+    openChecked(uri, text, languageId) {
+      const published = client.nextDiagnostics(uri);
+      client.open(uri, text, languageId);
+      return published;
+    },
+    change(uri, version, text) {
+      connection.sendNotification("textDocument/didChange", {
+        textDocument: { uri, version },
+        contentChanges: [{ text }],
+      });
+    },
+    nextDiagnostics(uri) {
+      return new Promise((resolve) => {
+        waiting.set(uri, [...(waiting.get(uri) ?? []), resolve]);
+      });
+    },
+    codeActions(uri, diagnostic) {
+      return connection.sendRequest("textDocument/codeAction", {
+        textDocument: { uri },
+        range: diagnostic.range,
+        context: { diagnostics: [diagnostic] },
+      });
+    },
+    async close() {
+      await connection.sendRequest("shutdown");
+      connection.dispose();
+    },
+  };
+  return { client, initialized };
+}
+
+/** `text` with the server's edits applied. */
+export function applyEdits(text: string, edits: TextEdit[] | null): string {
+  const document = TextDocument.create("file:///edit", "zen-nix", 0, text);
+  return TextDocument.applyEdits(document, edits ?? []);
+}
@@ -0,0 +1,90 @@
+// Color swatches across a workspace on disk: `$c.` references show the theme
+// color the workspace sets, `$type.color` values their own, the picker offers
+// theme names for a reference, and malformed theme colors are flagged.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import {
+  ColorInformation,
+  ColorPresentation,
+} from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+
+const FILES: Record<string, string> = {
+  "theme.zcfg": `{
+  theme.colors = { accent = "#ff0000"; muted = "#808080"; bad = "#12"; };
+}
+`,
+  "main.zcfg": `{
+  _let background: $type.color = "#00ff00";
+  s! { a = $c.accent; };
+}
+`,
+};
+
+const uri = (name: string) => pathToFileURL(path.join(root, name)).toString();
+
+let client: TestClient;
+
+before(async () => {
+  for (const [name, text] of Object.entries(FILES)) {
+    fs.writeFileSync(path.join(root, name), text);
+  }
+  client = (await startTestServer(pathToFileURL(root).toString())).client;
+  await client.openChecked(uri("main.zcfg"), FILES["main.zcfg"]);
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("shows swatches for $c. references and $type.color values", async () => {
+  const colors: ColorInformation[] = await client.connection.sendRequest(
+    "textDocument/documentColor",
+    { textDocument: { uri: uri("main.zcfg") } },
+  );
+  const found = colors.map(({ range, color }) => [
+    `${range.start.line}:${range.start.character}-${range.end.character}`,
+    [color.red, color.green, color.blue, color.alpha],
+  ]);
+  assert.deepEqual(
+    found.sort(),
+    [
+      ["1:34-41", [0, 1, 0, 1]],
+      ["2:11-20", [1, 0, 0, 1]],
+    ].sort(),
+  );
+});
+
+test("offers the nearest theme colors for a $c. reference", async () => {
+  const presentations: ColorPresentation[] =
+    await client.connection.sendRequest("textDocument/colorPresentation", {
+      textDocument: { uri: uri("main.zcfg") },
+      color: { red: 0.9, green: 0.1, blue: 0.1, alpha: 1 },
+      range: {
+        start: { line: 2, character: 11 },
+        end: { line: 2, character: 20 },
+      },
+    });
+  assert.deepEqual(
+    presentations.map((p) => p.label),
+    ["$c.accent", "$c.muted"],
+  );
+});
+
+test("flags a malformed theme color", async () => {
+  const diagnostics = await client.openChecked(
+    uri("theme.zcfg"),
+    FILES["theme.zcfg"],
+  );
+  const malformed = diagnostics.filter((d) => d.code === "malformed-color");
+  assert.equal(malformed.length, 1, JSON.stringify(diagnostics));
+  assert.match(malformed[0].message, /^Malformed color for \$c\.bad: /);
+});
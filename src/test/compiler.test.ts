@@ -0,0 +1,225 @@
+// The compiler check: reading nix-instantiate's errors in the old and new
+// formats, and, against a stub nix-instantiate, where its errors land, how a
+// newer version of a document cancels the running check and the problem
+// count of "Check Workspace".
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { Diagnostic } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { parseNixErrors, scheduleDiagnostics } from "../server/diagnostics";
+import { TestClient, startTestServer } from "./client";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+const log = path.join(dir, "runs.log");
+const stub = path.join(dir, "nix-instantiate");
+
+/**
+ * Logs its pid when it starts, then fails with a syntax error at `broken`,
+ * or takes its time when the text says `slow`.
+ */
+const STUB = `#!/usr/bin/env node
+require("fs").appendFileSync(${JSON.stringify(log)}, process.pid + "\\n");
+let input = "";
+process.stdin.on("data", (data) => (input += data));
+process.stdin.on("end", () => {
+  const at = input.indexOf("broken");
+  if (at !== -1) {
+    const before = input.slice(0, at).split("\\n");
+    process.stderr.write(
+      "error: syntax error, unexpected ID\\n" +
+        \`       at «stdin»:\${before.length}:\${before.pop().length + 1}:\\n\`,
+    );
+    process.exit(1);
+  }
+  setTimeout(() => process.exit(0), input.includes("slow") ? 10000 : 0);
+});
+`;
+
+const settings = { project: { tools: { nixInstantiate: stub } } };
+
+const runs = () =>
+  fs.existsSync(log)
+    ? fs.readFileSync(log, "utf8").split("\n").filter(Boolean)
+    : [];
+
+const alive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+async function waitFor(condition: () => boolean, what: string) {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  assert.ok(condition(), what);
+}
+
+/** nix-instantiate's stderr, as Nix 2.3 and Nix 2.18 print it. */
+const OLD_PARSE =
+  "error: syntax error, unexpected ';', expecting ID or OR_KW or DOLLAR_CURLY or '\"', at (stdin):3:9\n";
+const OLD_EVAL = "error: undefined variable 'foo' at (stdin):2:7\n";
+const NEW_PARSE = `error: syntax error, unexpected ';', expecting identifier or 'or' or '\${' or '"'
+
+       at «stdin»:3:9:
+
+            2|   a = 1;
+            3|   b.  = 2;
+             |         ^
+            4| }
+`;
+const NEW_EVAL = `\x1b[31;1merror:\x1b[0m
+       … while evaluating the attribute 'a'
+
+         at «stdin»:2:3:
+
+            1| {
+            2|   a = foo;
+             |   ^
+            3| }
+
+       \x1b[31;1merror:\x1b[0m undefined variable 'foo'
+
+       at «stdin»:2:7:
+
+            1| {
+            2|   a = foo;
+             |       ^
+            3| }
+`;
+
+test("reads errors in the format of older Nix", () => {
+  assert.deepEqual(parseNixErrors(OLD_PARSE), [
+    {
+      message:
+        "syntax error, unexpected ';', expecting ID or OR_KW or DOLLAR_CURLY or '\"'",
+      line: 3,
+      column: 9,
+    },
+  ]);
+  assert.deepEqual(parseNixErrors(OLD_EVAL), [
+    { message: "undefined variable 'foo'", line: 2, column: 7 },
+  ]);
+});
+
+test("reads errors in the format of newer Nix, past the trace", () => {
+  assert.deepEqual(parseNixErrors(NEW_PARSE), [
+    {
+      message:
+        "syntax error, unexpected ';', expecting identifier or 'or' or '${' or '\"'",
+      line: 3,
+      column: 9,
+    },
+  ]);
+  assert.deepEqual(parseNixErrors(NEW_EVAL), [
+    { message: "undefined variable 'foo'", line: 2, column: 7 },
+  ]);
+});
+
+test("reads every error, with or without a position", () => {
+  assert.deepEqual(
+    parseNixErrors(
+      OLD_EVAL + "error: stack overflow (possible infinite recursion)\n",
+    ),
+    [
+      { message: "undefined variable 'foo'", line: 2, column: 7 },
+      { message: "stack overflow (possible infinite recursion)" },
+    ],
+  );
+});
+
+let client: TestClient;
+
+before(async () => {
+  fs.writeFileSync(stub, STUB, { mode: 0o755 });
+  client = (await startTestServer(null, settings)).client;
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("places compiler errors on the token they are about", async () => {
+  const uri = "file:///ws/broken.zcfg";
+  const initial = client.nextDiagnostics(uri);
+  client.open(uri, "{\n  s! { a = broken; };\n}\n");
+  assert.deepEqual(await initial, []);
+  const [error] = await client.nextDiagnostics(uri);
+  assert.equal(error.code, "nix-parse");
+  assert.equal(error.message, "Syntax Error: syntax error, unexpected ID");
+  assert.deepEqual(error.range, {
+    start: { line: 1, character: 11 },
+    end: { line: 1, character: 17 },
+  });
+});
+
+test("a newer version kills the running check of the older one", async () => {
+  const uri = "file:///ws/slow.zcfg";
+  const started = runs().length;
+  client.open(uri, "{\n  a = slow;\n}\n");
+  await waitFor(() => runs().length > started, "the check started");
+  const pid = Number(runs()[started]);
+  assert.ok(alive(pid));
+
+  const published: Diagnostic[][] = [];
+  const collect = async () => {
+    for (;;) {
+      const diagnostics = await client.nextDiagnostics(uri);
+      published.push(diagnostics);
+      if (diagnostics.some((d) => d.code === "nix-parse")) return;
+    }
+  };
+  const done = collect();
+  client.change(uri, 2, "{\n  a = broken;\n}\n");
+  await waitFor(() => !alive(pid), "the older check was killed");
+  await done;
+  // The initial checks of version 2, then its compiler check
+  assert.equal(published.length, 2);
+  assert.equal(published[1][0].range.start.line, 1);
+});
+
+test("publishes nothing for a version that has changed since", async () => {
+  const document = TextDocument.create(
+    "file:///ws/guard.zcfg",
+    "zen-nix",
+    1,
+    "{ a = broken; }",
+  );
+  const published: Diagnostic[][] = [];
+  const check = scheduleDiagnostics(
+    document,
+    (_, diagnostics) => published.push(diagnostics),
+    0,
+  );
+  TextDocument.update(document, [{ text: "{ a = 1; }" }], 2);
+  await check;
+  // Only the in-process checks of version 1, published right away
+  assert.deepEqual(published, [[]]);
+});
+
+test("Check Workspace counts the files with problems", async () => {
+  const root = path.join(dir, "ws");
+  fs.mkdirSync(root);
+  fs.writeFileSync(path.join(root, "ok.zcfg"), "{\n  a = 1;\n}\n");
+  fs.writeFileSync(path.join(root, "bad.zcfg"), "{\n  a = broken;\n}\n");
+  fs.writeFileSync(path.join(root, "missing.zcfg"), "{\n  a = 1\n}\n");
+  const workspace = (
+    await startTestServer(pathToFileURL(root).toString(), settings)
+  ).client;
+  await workspace.connection.sendRequest("workspace/executeCommand", {
+    command: "zen-nix.checkWorkspace",
+  });
+  assert.deepEqual(workspace.messages, [
+    "Checked 3 Z.O.N.E. files: 2 with problems.",
+  ]);
+  await workspace.close();
+});
@@ -0,0 +1,46 @@
+// The desugared module: imported `_let` bindings are inlined, and
+// `enableOption` nodes become options, whichever way they are written.
+
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { desugar } from "../zone/desugar";
+import { parse } from "../zone/parser";
+
+const OTHER = parse(
+  '{ _let port: $type.int = 8080; _let host = "box-${$v.port}"; _let url = "x"; }',
+);
+const MAIN = parse(
+  '{\n  _import "./other.zmdl";\n  _let url = "u";\n  s! { a = $v.port; };\n}\n',
+);
+
+test("inlines the _let bindings of imported files", () => {
+  const { text } = desugar(MAIN, "main.zcfg", () => [OTHER]);
+  assert.match(
+    text,
+    /# _let variables of "\.\/other\.zmdl"\n\s*port = 8080;\n\s*host = "box-\$\{port\}";\n\s*url = "u";\n/,
+  );
+  assert.match(text, /\{ a = port; \}/);
+});
+
+test("maps the inlined lines to the _import", () => {
+  const { text, sourceLines } = desugar(MAIN, "main.zcfg", () => [OTHER]);
+  const lines = text.split("\n");
+  assert.equal(sourceLines[lines.findIndex((l) => l.includes("host ="))], 1);
+});
+
+test("keeps the header alone when the import cannot be read", () => {
+  const { text } = desugar(MAIN, "main.zcfg");
+  assert.match(text, /# _let variables of "\.\/other\.zmdl"\n\s*url = "u";/);
+});
+
+test("desugars `node = enableOption` like `node.enable = enableOption`", () => {
+  const body = '{\n    _meta.brief = "Foo";\n    s! { a = 1; };\n  }';
+  const short = desugar(parse(`{\n  foo = enableOption ${body};\n}\n`), "m");
+  const long = desugar(
+    parse(`{\n  foo.enable = enableOption ${body};\n}\n`),
+    "m",
+  );
+  assert.equal(short.text, long.text);
+  assert.match(short.text, /enable = lib\.mkEnableOption "Foo";/);
+  assert.match(short.text, /\(lib\.mkIf cfg\.foo\.enable \{ a = 1; \}\)/);
+});
@@ -0,0 +1,64 @@
+// Which documents the server handles besides `.zcfg`/`.zmdl`/`.zpkg` files:
+// `.nix` files with the marker comment or any Z.O.N.E. construct, and
+// untitled buffers in the zen-nix language. Plain Nix is left alone.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { DocumentSymbol } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const PLAIN = "{\n  a = 1\n}\n";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+const symbols = (uri: string): Promise<DocumentSymbol[] | null> =>
+  client.connection.sendRequest("textDocument/documentSymbol", {
+    textDocument: { uri },
+  });
+
+const codes = (diagnostics: { code?: string | number }[]) =>
+  diagnostics.map((d) => d.code);
+
+test("serves a .nix file with the marker comment", async () => {
+  const uri = "file:///ws/marked.nix";
+  const diagnostics = await client.openChecked(
+    uri,
+    "# zen-nix\n" + PLAIN,
+    "nix",
+  );
+  assert.deepEqual(codes(diagnostics), ["missing-semicolon"]);
+  assert.notEqual(await symbols(uri), null);
+});
+
+test("leaves a plain .nix file alone", async () => {
+  const uri = "file:///ws/plain.nix";
+  assert.deepEqual(await client.openChecked(uri, PLAIN, "nix"), []);
+  assert.equal(await symbols(uri), null);
+});
+
+test("picks up a .nix file once it uses Z.O.N.E., and lets go again", async () => {
+  const uri = "file:///ws/grows.nix";
+  await client.openChecked(uri, PLAIN, "nix");
+  const using = client.nextDiagnostics(uri);
+  client.change(uri, 2, "{\n  s! { a = 1 };\n}\n");
+  assert.deepEqual(codes(await using), ["missing-semicolon"]);
+  const plain = client.nextDiagnostics(uri);
+  client.change(uri, 3, PLAIN);
+  assert.deepEqual(await plain, []);
+});
+
+test("serves an untitled buffer in the zen-nix language", async () => {
+  const uri = "untitled:Untitled-1";
+  assert.deepEqual(codes(await client.openChecked(uri, PLAIN)), [
+    "missing-semicolon",
+  ]);
+  assert.notEqual(await symbols(uri), null);
+});
@@ -0,0 +1,71 @@
+// The formatter only ever changes whitespace, and formatting twice changes
+// nothing.
+
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { applyFormatEdits, formatEdits } from "../zone/format";
+import { parse } from "../zone/parser";
+
+const format = (text: string) =>
+  applyFormatEdits(text, formatEdits(parse(text)));
+
+const SAMPLE = `{
+_meta={brief="My module";
+    description=''
+      Sets up the bar.
+    '';};
+  _import   "./other.zmdl";
+_let port: $type.int =  8080;   # the port
+
+
+  s![ $cfg.x.enable ]{networking.hostName="box";
+  services.foo = { enable=true; };};
+  list = [ 1 2
+    3 ];
+}
+`;
+
+test("formats a file, keeping its line breaks", () => {
+  assert.equal(
+    format(SAMPLE),
+    `{
+  _meta = { brief = "My module";
+    description = ''
+      Sets up the bar.
+    ''; };
+  _import "./other.zmdl";
+  _let port : $type.int = 8080; # the port
+
+  s! [ $cfg.x.enable ] { networking.hostName = "box";
+    services.foo = { enable = true; }; };
+  list = [ 1 2
+    3 ];
+}
+`,
+  );
+});
+
+test("formatting twice changes nothing", () => {
+  const once = format(SAMPLE);
+  assert.equal(format(once), once);
+});
+
+test("keeps text after an unterminated string", () => {
+  assert.equal(format("x = '"), "x = '");
+  assert.equal(format('{ a  = "b'), '{ a = "b');
+});
+
+test("formatting twice changes nothing, unterminated or not", () => {
+  for (const text of ['{ a  = "b', "{ a  = ''b\n", "{ a = 1; /* open\n"]) {
+    const once = format(text);
+    assert.equal(format(once), once, JSON.stringify(text));
+  }
+});
+
+test("only changes whitespace, whatever the prefix", () => {
+  const visible = (text: string) => text.replace(/\s/g, "");
+  for (let end = 0; end <= SAMPLE.length; end++) {
+    const text = SAMPLE.slice(0, end);
+    assert.equal(visible(format(text)), visible(text), `prefix ${end}`);
+  }
+});
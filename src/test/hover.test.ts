@@ -0,0 +1,64 @@
+// Hover documentation for ZenOS constructs: `$` globals, action shorthands
+// with their guard, and the `_let` variable a `$v.name` reads.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Hover, MarkupContent } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const uri = "file:///ws/hover.zcfg";
+const TEXT = `{
+  _let port: $type.int = 8080;
+  s!! [ $cfg.x.enable ] { a = $v.port; };
+}
+`;
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+  await client.openChecked(uri, TEXT);
+});
+
+after(async () => {
+  await client.close();
+});
+
+/** The hover just inside the first `at` on `line`. */
+async function hoverAt(line: number, at: string) {
+  const hover: Hover | null = await client.connection.sendRequest(
+    "textDocument/hover",
+    {
+      textDocument: { uri },
+      position: { line, character: TEXT.split("\n")[line].indexOf(at) + 1 },
+    },
+  );
+  assert.ok(hover, `no hover on ${at}`);
+  return hover;
+}
+
+test("documents a $ global", async () => {
+  const hover = await hoverAt(2, "$cfg");
+  assert.match(
+    (hover.contents as MarkupContent).value,
+    /^\*\*\$cfg\*\* — Global Evaluated Configuration/,
+  );
+  assert.deepEqual(hover.range, {
+    start: { line: 2, character: 8 },
+    end: { line: 2, character: 12 },
+  });
+});
+
+test("documents an action shorthand and its guard", async () => {
+  const markdown = ((await hoverAt(2, "s!!")).contents as MarkupContent).value;
+  assert.match(markdown, /^\*\*s!!\*\* — Unconditional system action/);
+  assert.match(markdown, /The `\[…\]` guard adds a condition/);
+});
+
+test("shows the type and value of the _let a $v reads", async () => {
+  const markdown = ((await hoverAt(2, "port;")).contents as MarkupContent)
+    .value;
+  assert.match(markdown, /_let port : \$type\.int/);
+  assert.match(markdown, /Type: `int`/);
+  assert.match(markdown, /Value:\n```zen-nix\n8080\n```/);
+});
@@ -0,0 +1,82 @@
+// `_import` across a workspace on disk: links and go-to-definition open the
+// imported file, and imports that cannot be read or lead back to the
+// importing file are flagged.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { DocumentLink, Location } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+
+const FILES: Record<string, string> = {
+  "main.zcfg":
+    '{\n  _import "./shared.zmdl";\n  _import "./missing.zmdl";\n}\n',
+  "shared.zmdl": "{\n  _let port = 80;\n}\n",
+  "a.zmdl": '{\n  _import "./b.zmdl";\n}\n',
+  "b.zmdl": '{\n  _import "./a.zmdl";\n}\n',
+};
+
+const uri = (name: string) => pathToFileURL(path.join(root, name)).toString();
+
+let client: TestClient;
+
+before(async () => {
+  for (const [name, text] of Object.entries(FILES)) {
+    fs.writeFileSync(path.join(root, name), text);
+  }
+  client = (await startTestServer(pathToFileURL(root).toString())).client;
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("flags imports that cannot be resolved", async () => {
+  const diagnostics = await client.openChecked(
+    uri("main.zcfg"),
+    FILES["main.zcfg"],
+  );
+  const broken = diagnostics.filter((d) => d.code === "broken-import");
+  assert.equal(broken.length, 1, JSON.stringify(diagnostics));
+  assert.equal(broken[0].range.start.line, 2);
+  assert.equal(broken[0].message, "Cannot resolve import './missing.zmdl'.");
+});
+
+test("links the imports that resolve", async () => {
+  const links: DocumentLink[] = await client.connection.sendRequest(
+    "textDocument/documentLink",
+    { textDocument: { uri: uri("main.zcfg") } },
+  );
+  assert.deepEqual(
+    links.map((link) => [link.range.start.line, link.target]),
+    [[1, uri("shared.zmdl")]],
+  );
+});
+
+test("goes from an import to the imported file", async () => {
+  const definition: Location | Location[] = await client.connection.sendRequest(
+    "textDocument/definition",
+    {
+      textDocument: { uri: uri("main.zcfg") },
+      position: { line: 1, character: 15 },
+    },
+  );
+  const locations = Array.isArray(definition) ? definition : [definition];
+  assert.deepEqual(
+    locations.map((location) => location.uri),
+    [uri("shared.zmdl")],
+  );
+});
+
+test("flags an import that leads back to the importing file", async () => {
+  const diagnostics = await client.openChecked(uri("a.zmdl"), FILES["a.zmdl"]);
+  const cycles = diagnostics.filter((d) => d.code === "import-cycle");
+  assert.equal(cycles.length, 1, JSON.stringify(diagnostics));
+  assert.equal(cycles[0].message, "Import cycle: a.zmdl → b.zmdl → a.zmdl.");
+});
@@ -0,0 +1,73 @@
+// Rules that depend on the kind of file, with their quick fixes: package-only
+// blocks and globals outside a `.zpkg`, and modules without `_meta`.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+/** Open `text`, then apply the fix titled `title` for its `code` problem. */
+async function fix(uri: string, text: string, code: string, title: string) {
+  const diagnostics = await client.openChecked(uri, text);
+  const diagnostic = diagnostics.find((d) => d.code === code);
+  assert.ok(diagnostic, JSON.stringify(diagnostics));
+  const actions = await client.codeActions(uri, diagnostic);
+  const action = actions.find((a) => a.title === title);
+  assert.ok(action?.edit?.changes, JSON.stringify(actions));
+  return applyEdits(text, action.edit.changes[uri]);
+}
+
+test("removes a package-only block from a config", async () => {
+  assert.equal(
+    await fix(
+      "file:///ws/block.zcfg",
+      '{\n  _src = src.url { url = "u"; hash = "h"; };\n  a = 1;\n}\n',
+      "zpkg-only",
+      "Remove this block",
+    ),
+    "{\n  a = 1;\n}\n",
+  );
+});
+
+test("replaces $deps with $pkgs outside a package", async () => {
+  assert.equal(
+    await fix(
+      "file:///ws/deps.zmdl",
+      '{\n  _meta.brief = "x";\n  s! { a = $deps.hello; };\n}\n',
+      "zpkg-only",
+      "Use '$pkgs' instead",
+    ),
+    '{\n  _meta.brief = "x";\n  s! { a = $pkgs.hello; };\n}\n',
+  );
+});
+
+test("adds the _meta block a module lacks", async () => {
+  const fixed = await fix(
+    "file:///ws/meta.zmdl",
+    "{\n  a = 1;\n}\n",
+    "missing-meta",
+    "Add a '_meta' block",
+  );
+  assert.match(fixed, /_meta = \{\n\s*brief = "";\n\s*description = "";\n/);
+  assert.match(fixed, /a = 1;/);
+});
+
+test("leaves package-only blocks alone in a package", async () => {
+  const diagnostics = await client.openChecked(
+    "file:///ws/pkg.zpkg",
+    '{\n  _src = src.url { url = "u"; hash = "h"; };\n  b = $deps.hello;\n}\n',
+  );
+  assert.deepEqual(
+    diagnostics.filter((d) => d.code === "zpkg-only"),
+    [],
+  );
+});
@@ -0,0 +1,86 @@
+// Legacy action spellings: flagged on open, fixed one at a time by the quick
+// fix and all at once by "Migrate to Action Shorthands".
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import {
+  CodeAction,
+  TextDocumentEdit,
+  TextEdit,
+} from "vscode-languageserver/node";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+const LEGACY = "{\n  _saction = { a = 1; };\n  _action.b = 2;\n}\n";
+const MIGRATED = "{\n  s! { a = 1; };\n  ! { b = 2; };\n}\n";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(() => client.close());
+
+test("flags legacy actions and fixes each one", async () => {
+  const uri = "file:///ws/fix.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, LEGACY);
+  const legacy = (await published).filter((d) => d.code === "legacy-action");
+  assert.equal(legacy.length, 2);
+
+  const actions: CodeAction[] = await client.connection.sendRequest(
+    "textDocument/codeAction",
+    {
+      textDocument: { uri },
+      range: legacy[0].range,
+      context: { diagnostics: [legacy[0]] },
+    },
+  );
+  const fix = actions.find((action) => action.isPreferred);
+  assert.ok(fix?.edit?.changes, JSON.stringify(actions));
+  assert.equal(
+    applyEdits(LEGACY, fix.edit.changes[uri]),
+    "{\n  s! { a = 1; };\n  _action.b = 2;\n}\n",
+  );
+});
+
+test("migrates every legacy action in one edit", async () => {
+  const uri = "file:///ws/migrate.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, LEGACY);
+  await published;
+  await client.connection.sendRequest("workspace/executeCommand", {
+    command: "zen-nix.migrateActions",
+  });
+  const changes = client.appliedEdits
+    .flatMap((params) => params.edit.documentChanges ?? [])
+    .filter((change): change is TextDocumentEdit => TextDocumentEdit.is(change))
+    .filter((change) => change.textDocument.uri === uri);
+  assert.equal(changes.length, 1);
+  assert.equal(applyEdits(LEGACY, changes[0].edits as TextEdit[]), MIGRATED);
+});
+
+test("leaves legacy actions alone when their code is turned off", async () => {
+  const quiet = (
+    await startTestServer(null, {
+      project: { severity: { "legacy-action": "off" } },
+    })
+  ).client;
+  const uri = "file:///ws/off.zcfg";
+  const published = quiet.nextDiagnostics(uri);
+  quiet.open(uri, LEGACY);
+  assert.deepEqual(await published, []);
+  const actions: CodeAction[] = await quiet.connection.sendRequest(
+    "textDocument/codeAction",
+    {
+      textDocument: { uri },
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+      context: { diagnostics: [], only: ["source.fixAll"] },
+    },
+  );
+  assert.deepEqual(actions, []);
+  await quiet.close();
+});
@@ -0,0 +1,63 @@
+// The masked text handed to nix-instantiate: plain Nix where the file had
+// ZenOS constructs, and a map back to the original for every offset.
+
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { maskForCompiler } from "../zone/mask";
+import { parse } from "../zone/parser";
+
+const SAMPLE = `{
+  _import "./other.zmdl";
+  _let port: $type.int = 8080;
+  _src = src.github { owner = "a"; };
+  ! { a = lib.mkDefault $v.port; };
+  ! { b = 2; };
+  s!! [ $cfg.x.enable ] { c = 3; };
+  (freeform id).enable = true;
+  list = ++[ 4 ];
+}
+`;
+
+/** The masked text without the prelude binding the stand-ins. */
+const body = (text: string) => text.slice(text.indexOf(" in ") + 4);
+
+test("copies plain Nix through and maps it back exactly", () => {
+  const masked = maskForCompiler(parse(SAMPLE));
+  for (let offset = 0; offset < masked.text.length; offset++) {
+    if (masked.isStandIn(offset)) continue;
+    const original = masked.originalOffset(offset);
+    assert.equal(SAMPLE[original], masked.text[offset], `offset ${offset}`);
+  }
+});
+
+test("maps stand-ins back into the construct they replace", () => {
+  const masked = maskForCompiler(parse(SAMPLE));
+  const at = masked.text.indexOf("v          {");
+  assert.ok(masked.isStandIn(at));
+  const original = masked.originalOffset(at);
+  assert.equal(SAMPLE.slice(original, original + 10), "src.github");
+});
+
+test("keeps the lines of the original", () => {
+  const masked = maskForCompiler(parse(SAMPLE));
+  assert.deepEqual(
+    body(masked.text).split("\n").length,
+    SAMPLE.split("\n").length,
+  );
+});
+
+test("names every action block differently", () => {
+  const names = [
+    ...body(maskForCompiler(parse(SAMPLE)).text).matchAll(
+      /^\s*(\S+?)\s*=\s*\{/gm,
+    ),
+  ].map((match) => match[1]);
+  assert.equal(names.length, 3);
+  assert.equal(new Set(names).size, 3, names.join(" "));
+});
+
+test("leaves no ZenOS syntax behind", () => {
+  const text = body(maskForCompiler(parse(SAMPLE)).text);
+  assert.doesNotMatch(text, /\$|_let|_import|!|\(freeform|\+\+\[/);
+  assert.doesNotMatch(text, /src\.github|lib\.mkDefault/);
+});
@@ -0,0 +1,115 @@
+// NixOS options from a small `options.json`: completed in `s!` blocks, shown
+// on hover, checked against their type, and read again when the file changes.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import {
+  CompletionList,
+  Hover,
+  MarkupContent,
+} from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+const file = path.join(dir, "options.json");
+
+const OPTIONS = {
+  "services.nginx.enable": {
+    type: "boolean",
+    description: "Whether to enable Nginx Web Server.",
+    default: { _type: "literalExpression", text: "false" },
+  },
+  "services.nginx.user": {
+    type: "string",
+    description: "User account under which nginx runs.",
+  },
+};
+
+let client: TestClient;
+
+before(async () => {
+  fs.writeFileSync(file, JSON.stringify(OPTIONS));
+  client = (await startTestServer(null, { options: { nixos: file } })).client;
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function completionLabels(uri: string, text: string, at: string) {
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, text);
+  await published;
+  const offset = text.indexOf(at) + at.length;
+  const before = text.slice(0, offset).split("\n");
+  const list: CompletionList = await client.connection.sendRequest(
+    "textDocument/completion",
+    {
+      textDocument: { uri },
+      position: {
+        line: before.length - 1,
+        character: before[before.length - 1].length,
+      },
+    },
+  );
+  return list.items.map((item) => item.label);
+}
+
+test("completes option names in s! blocks", async () => {
+  const labels = await completionLabels(
+    "file:///ws/complete.zcfg",
+    "{\n  s! { services.nginx. };\n}\n",
+    "services.nginx.",
+  );
+  assert.ok(labels.includes("enable"), labels.join(" "));
+  assert.ok(labels.includes("user"), labels.join(" "));
+});
+
+test("shows an option's type and description on hover", async () => {
+  const uri = "file:///ws/hover.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, "{\n  s! { services.nginx.enable = true; };\n}\n");
+  await published;
+  const hover: Hover = await client.connection.sendRequest(
+    "textDocument/hover",
+    { textDocument: { uri }, position: { line: 1, character: 24 } },
+  );
+  const markdown = (hover.contents as MarkupContent).value;
+  assert.match(markdown, /Type: `boolean`/);
+  assert.match(markdown, /Whether to enable Nginx Web Server\./);
+});
+
+test("flags values of the wrong type", async () => {
+  const uri = "file:///ws/check.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(
+    uri,
+    '{\n  s! { services.nginx = { enable = "yes"; user = "www"; }; };\n}\n',
+  );
+  const issues = (await published).filter(
+    (d) => d.code === "invalid-option-value",
+  );
+  assert.equal(issues.length, 1, JSON.stringify(issues));
+  assert.equal(issues[0].range.start.line, 1);
+});
+
+test("reads options.json again when it changed", async () => {
+  const updated = {
+    ...OPTIONS,
+    "services.nginx.group": { type: "string", description: "Group." },
+  };
+  fs.writeFileSync(file, JSON.stringify(updated));
+  // Make sure the modification time moves on coarse file systems
+  const later = new Date(Date.now() + 2000);
+  fs.utimesSync(file, later, later);
+  const labels = await completionLabels(
+    "file:///ws/reloaded.zcfg",
+    "{\n  s! { services.nginx. };\n}\n",
+    "services.nginx.",
+  );
+  assert.ok(labels.includes("group"), labels.join(" "));
+});
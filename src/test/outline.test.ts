@@ -0,0 +1,91 @@
+// The structure of a file for the editor: outline symbols for `_let`s,
+// options and actions, folding regions for sets, actions and comment runs,
+// and expand-selection through the enclosing nodes.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import {
+  DocumentSymbol,
+  FoldingRange,
+  SelectionRange,
+  SymbolKind,
+} from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const uri = "file:///ws/outline.zmdl";
+const TEXT = `# Two lines
+# of comment
+{
+  _let port = 1;
+  web = enableOption {
+    _meta.brief = "Web";
+  };
+  s! [ $cfg.x ] {
+    a = 1;
+  };
+}
+`;
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+  await client.openChecked(uri, TEXT);
+});
+
+after(async () => {
+  await client.close();
+});
+
+type Outline = [string, string, SymbolKind, Outline[]];
+
+const outline = (symbol: DocumentSymbol): Outline => [
+  symbol.name,
+  symbol.detail ?? "",
+  symbol.kind,
+  (symbol.children ?? []).map(outline),
+];
+
+test("outlines _let variables, options and actions", async () => {
+  const symbols: DocumentSymbol[] = await client.connection.sendRequest(
+    "textDocument/documentSymbol",
+    { textDocument: { uri } },
+  );
+  assert.deepEqual(symbols.map(outline), [
+    ["port", "", SymbolKind.Variable, []],
+    [
+      "web",
+      "enableOption",
+      SymbolKind.Boolean,
+      [["_meta.brief", "Web", SymbolKind.Struct, []]],
+    ],
+    ["s! [ $cfg.x ]", "Conditional system action", SymbolKind.Event, []],
+  ]);
+});
+
+test("folds sets, actions and runs of comments", async () => {
+  const ranges: FoldingRange[] = await client.connection.sendRequest(
+    "textDocument/foldingRange",
+    { textDocument: { uri } },
+  );
+  assert.deepEqual(
+    ranges.map(
+      (r) => `${r.startLine}-${r.endLine}${r.kind ? ` ${r.kind}` : ""}`,
+    ),
+    ["2-9", "4-5", "7-8", "0-1 comment"],
+  );
+});
+
+test("expands the selection through the enclosing nodes", async () => {
+  const [selection]: SelectionRange[] = await client.connection.sendRequest(
+    "textDocument/selectionRange",
+    { textDocument: { uri }, positions: [{ line: 8, character: 9 }] },
+  );
+  const lines: string[] = [];
+  for (let r: SelectionRange | undefined = selection; r; r = r.parent) {
+    lines.push(`${r.range.start.line}:${r.range.start.character}`);
+  }
+  // The value, its binding, the action's body, the action, the file's set
+  // and the whole file
+  assert.deepEqual(lines, ["8:8", "8:4", "7:16", "7:2", "2:0", "0:0"]);
+});
@@ -0,0 +1,131 @@
+// The package index from a small `nix-env -qaP --json` dump: `$pkgs.`
+// completion through package sets, unknown package names, the compact copy
+// cached on disk, and the client command that reopens the suggestions.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { CompletionItem, CompletionList } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+const dump = path.join(dir, "packages.json");
+
+const PACKAGES = {
+  "nixpkgs.hello": {
+    name: "hello-2.12.1",
+    meta: { description: "A program that produces a familiar greeting" },
+  },
+  "nixpkgs.python3Packages.requests": { name: "python3.11-requests-2.31.0" },
+};
+
+let client: TestClient;
+
+before(async () => {
+  // The server runs in this process and caches the dump under here
+  process.env.XDG_CACHE_HOME = path.join(dir, "cache");
+  fs.writeFileSync(dump, JSON.stringify(PACKAGES));
+  client = (await startTestServer(null, { packages: { index: dump } })).client;
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function completionItems(
+  uri: string,
+  text: string,
+  at: string,
+  from = client,
+) {
+  await from.openChecked(uri, text);
+  const offset = text.indexOf(at) + at.length;
+  const before = text.slice(0, offset).split("\n");
+  const list: CompletionList = await from.connection.sendRequest(
+    "textDocument/completion",
+    {
+      textDocument: { uri },
+      position: {
+        line: before.length - 1,
+        character: before[before.length - 1].length,
+      },
+    },
+  );
+  return list.items;
+}
+
+const completionLabels = async (uri: string, text: string, at: string) =>
+  (await completionItems(uri, text, at)).map((item) => item.label);
+
+test("completes packages and package sets after $pkgs.", async () => {
+  const labels = await completionLabels(
+    "file:///ws/top.zcfg",
+    "{\n  s! { a = $pkgs.; };\n}\n",
+    "$pkgs.",
+  );
+  assert.ok(labels.includes("hello"), labels.join(" "));
+  assert.ok(labels.includes("python3Packages"), labels.join(" "));
+  assert.ok(!labels.includes("requests"), labels.join(" "));
+});
+
+test("completes the members of a package set", async () => {
+  const labels = await completionLabels(
+    "file:///ws/set.zcfg",
+    "{\n  s! { a = $pkgs.python3Packages.; };\n}\n",
+    "python3Packages.",
+  );
+  assert.deepEqual(labels, ["requests"]);
+});
+
+test("flags an unknown package and suggests a close one", async () => {
+  const diagnostics = await client.openChecked(
+    "file:///ws/typo.zcfg",
+    "{\n  s! { a = $pkgs.helo; };\n}\n",
+  );
+  const unknown = diagnostics.filter((d) => d.code === "unknown-package");
+  assert.deepEqual(
+    unknown.map((d) => d.message),
+    ["Unknown package 'helo'. Did you mean 'hello'?"],
+  );
+});
+
+test("caches the dump in a compact form", () => {
+  const [cached] = fs.readdirSync(path.join(dir, "cache", "zen-nix"));
+  assert.match(cached, /^packages-[0-9a-f]{16}\.json$/);
+  const cache = JSON.parse(
+    fs.readFileSync(path.join(dir, "cache", "zen-nix", cached), "utf8"),
+  );
+  assert.deepEqual(
+    cache.packages.map((info: { attr: string }) => info.attr),
+    ["hello", "python3Packages.requests"],
+  );
+});
+
+test("reopens suggestions after a package set only with the client's command", async () => {
+  const text = "{\n  s! { a = $pkgs.; };\n}\n";
+  const set = (items: CompletionItem[]) =>
+    items.find((item) => item.label === "python3Packages");
+  const plain = await completionItems("file:///ws/plain.zcfg", text, "$pkgs.");
+  assert.equal(set(plain)?.command, undefined);
+
+  const vscode = (
+    await startTestServer(null, {
+      packages: { index: dump },
+      suggestCommand: "editor.action.triggerSuggest",
+    })
+  ).client;
+  const items = await completionItems(
+    "file:///ws/vscode.zcfg",
+    text,
+    "$pkgs.",
+    vscode,
+  );
+  assert.deepEqual(set(items)?.command, {
+    title: "Suggest",
+    command: "editor.action.triggerSuggest",
+  });
+  await vscode.close();
+});
@@ -0,0 +1,60 @@
+// The parser stays tolerant: half-typed files give errors, never exceptions.
+
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { parse } from "../zone/parser";
+
+const SAMPLE = `{
+  _meta = {
+    brief = "My module";
+    description = ''
+      Sets up \${"the"} bar.
+    '';
+  };
+  _import "./other.zmdl";
+  _let port: $type.int = 8080; # the port
+  /* options */
+  (freeform id).enable = true;
+  s! [ $cfg.x.enable ] {
+    networking.hostName = "box-\${$f.id}";
+  };
+  a."b c".d = [ 1 2 ];
+}
+`;
+
+test("parses unterminated strings without throwing", () => {
+  for (const text of [
+    '_import "',
+    '{ brief = My module"; }',
+    '{ a = "x',
+    "{ a = ''x",
+    '{ "a',
+    '{ a."b',
+    '{ a = "${',
+  ]) {
+    const parsed = parse(text);
+    assert.ok(parsed.errors.length > 0, text);
+  }
+});
+
+test("parses unterminated comments without throwing", () => {
+  const parsed = parse("{ a = 1; /* open");
+  assert.ok(parsed.errors.length > 0);
+});
+
+test("parses every prefix of a file", () => {
+  for (let end = 0; end <= SAMPLE.length; end++) {
+    assert.doesNotThrow(() => parse(SAMPLE.slice(0, end)), `prefix ${end}`);
+  }
+});
+
+test("parses a file with one character removed anywhere", () => {
+  for (let at = 0; at < SAMPLE.length; at++) {
+    const text = SAMPLE.slice(0, at) + SAMPLE.slice(at + 1);
+    assert.doesNotThrow(() => parse(text), `without ${at}`);
+  }
+});
+
+test("parses the sample cleanly", () => {
+  assert.deepEqual(parse(SAMPLE).errors, []);
+});
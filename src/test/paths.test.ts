@@ -0,0 +1,130 @@
+// Config paths across a workspace on disk: a module continues the path of the
+// `(zmdl name)` node that attaches it, in inlay hints and the config path
+// request alike, and `(alias …)` targets are looked up in the whole tree.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { Diagnostic, InlayHint, Location } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+
+const FILES: Record<string, string> = {
+  "host.zcfg": "{\n  apps.(zmdl web) = { };\n}\n",
+  "web.zmdl": `{
+  enable = enableOption { _meta.brief = "Web"; };
+  port = 80;
+  s! { services.x.name = "$path"; };
+}
+`,
+  "aliases.zcfg": `{
+  old = (alias apps.web);
+  gone = (alias apps.nothing);
+  a = (alias b);
+  b = (alias a);
+}
+`,
+};
+
+const uri = (name: string) => pathToFileURL(path.join(root, name)).toString();
+
+let client: TestClient;
+
+before(async () => {
+  for (const [name, text] of Object.entries(FILES)) {
+    fs.writeFileSync(path.join(root, name), text);
+  }
+  client = (await startTestServer(pathToFileURL(root).toString())).client;
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function open(name: string, text = FILES[name]) {
+  const published = client.nextDiagnostics(uri(name));
+  client.open(uri(name), text);
+  await published;
+}
+
+const configPath = (name: string, line: number, character: number) =>
+  client.connection.sendRequest("zen-nix/configPath", {
+    uri: uri(name),
+    position: { line, character },
+  });
+
+test("places a module under the node that attaches it", async () => {
+  await open("web.zmdl");
+  assert.equal(await configPath("web.zmdl", 2, 3), "zenos.apps.web.port");
+});
+
+test("hints what $path stands for and which node a block configures", async () => {
+  const hints: InlayHint[] = await client.connection.sendRequest(
+    "textDocument/inlayHint",
+    {
+      textDocument: { uri: uri("web.zmdl") },
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 5, character: 0 },
+      },
+    },
+  );
+  const labels = hints.map((hint) => hint.label);
+  assert.ok(labels.includes("= zenos.apps.web"), labels.join(", "));
+  assert.ok(labels.includes("zenos.apps.web"), labels.join(", "));
+});
+
+test("flags dangling aliases and alias cycles", async () => {
+  const aliases = uri("aliases.zcfg");
+  client.open(aliases, FILES["aliases.zcfg"]);
+  // The whole tree is only checked once the document has been left alone
+  let diagnostics: Diagnostic[] = [];
+  while (!diagnostics.some((d) => d.code === "dangling-alias")) {
+    diagnostics = await client.nextDiagnostics(aliases);
+  }
+  const found = diagnostics.map((d) => `${d.range.start.line} ${d.code}`);
+  assert.deepEqual(found.sort(), [
+    "2 dangling-alias",
+    "3 alias-cycle",
+    "4 alias-cycle",
+  ]);
+});
+
+test("goes from an alias to its target and back", async () => {
+  const definition: Location[] = await client.connection.sendRequest(
+    "textDocument/definition",
+    {
+      textDocument: { uri: uri("aliases.zcfg") },
+      position: { line: 1, character: 20 },
+    },
+  );
+  assert.deepEqual(
+    definition.map((location) => location.uri),
+    [uri("host.zcfg")],
+  );
+  await open("host.zcfg");
+  const references: Location[] = await client.connection.sendRequest(
+    "textDocument/references",
+    {
+      textDocument: { uri: uri("host.zcfg") },
+      position: { line: 1, character: 14 },
+      context: { includeDeclaration: false },
+    },
+  );
+  assert.deepEqual(
+    references.map((location) => [location.uri, location.range.start.line]),
+    [[uri("aliases.zcfg"), 1]],
+  );
+});
+
+test("follows the module when its attachment moves", async () => {
+  const moved = client.nextDiagnostics(uri("host.zcfg"));
+  client.change(uri("host.zcfg"), 2, "{\n  desktop.(zmdl web) = { };\n}\n");
+  await moved;
+  assert.equal(await configPath("web.zmdl", 2, 3), "zenos.desktop.web.port");
+});
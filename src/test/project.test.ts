@@ -0,0 +1,40 @@
+// Severity overrides from the project configuration: a valid one changes
+// what is published, anything else is reported and leaves the default.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+let client: TestClient;
+
+before(async () => {
+  client = (
+    await startTestServer(null, {
+      project: {
+        severity: {
+          "missing-semicolon": "hint",
+          "legacy-action": "constructor",
+        },
+      },
+    })
+  ).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+test("applies severity overrides and rejects inherited names", async () => {
+  const diagnostics = await client.openChecked(
+    "file:///ws/severity.zcfg",
+    "{\n  a = 1\n  _action.b = 2;\n}\n",
+  );
+  const severity = (code: string) =>
+    diagnostics.find((d) => d.code === code)?.severity;
+  assert.equal(severity("missing-semicolon"), DiagnosticSeverity.Hint);
+  assert.equal(severity("legacy-action"), DiagnosticSeverity.Warning);
+  assert.deepEqual(client.messages, [
+    "Project configuration: severity.legacy-action: expected one of error, warning, information, hint, off.",
+  ]);
+});
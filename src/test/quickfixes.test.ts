@@ -0,0 +1,56 @@
+// Quick fixes for syntax problems the parser recovers from, one at a time and
+// all at once through "fix all".
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { CodeAction } from "vscode-languageserver/node";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+const uri = "file:///ws/fixes.zcfg";
+const BROKEN = "{\n  a = 1\n  b = [ 1 2;\n  c = 3;\n}\n";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+test("inserts a missing ';'", async () => {
+  const diagnostics = await client.openChecked(uri, BROKEN);
+  const missing = diagnostics.find((d) => d.code === "missing-semicolon");
+  assert.ok(missing, JSON.stringify(diagnostics));
+  const actions = await client.codeActions(uri, missing);
+  const fix = actions.find((action) => action.isPreferred);
+  assert.equal(fix?.title, "Insert missing ';'");
+  assert.equal(
+    applyEdits(BROKEN, fix.edit!.changes![uri]),
+    "{\n  a = 1;\n  b = [ 1 2;\n  c = 3;\n}\n",
+  );
+  // More than one problem can be fixed, so "fix all" is offered as well
+  assert.ok(
+    actions.some((action) => action.title === "Fix all auto-fixable problems"),
+  );
+});
+
+test("fixes every problem of the file at once", async () => {
+  const actions: CodeAction[] = await client.connection.sendRequest(
+    "textDocument/codeAction",
+    {
+      textDocument: { uri },
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+      context: { diagnostics: [], only: ["source.fixAll"] },
+    },
+  );
+  assert.equal(actions.length, 1);
+  assert.equal(
+    applyEdits(BROKEN, actions[0].edit!.changes![uri]),
+    "{\n  a = 1;\n  b = [ 1 2 ];\n  c = 3;\n}\n",
+  );
+});
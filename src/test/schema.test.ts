@@ -0,0 +1,67 @@
+// The `_meta`, `_src` and `_build` blocks of a package checked against their
+// schemas: missing and unknown fields, field types and unknown fetchers.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { TestClient, startTestServer } from "./client";
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+});
+
+after(async () => {
+  await client.close();
+});
+
+/** `line code message` of every schema problem in a package. */
+async function schemaIssues(name: string, text: string) {
+  const diagnostics = await client.openChecked(`file:///ws/${name}.zpkg`, text);
+  return diagnostics
+    .filter((d) =>
+      [
+        "missing-field",
+        "unknown-field",
+        "invalid-field",
+        "unknown-fetcher",
+      ].includes(String(d.code)),
+    )
+    .map((d) => `${d.range.start.line} ${d.code} ${d.message}`);
+}
+
+test("flags a fetcher call missing a required field", async () => {
+  assert.deepEqual(
+    await schemaIssues(
+      "missing",
+      '{\n  _src = src.github { owner = "a"; repo = "b"; rev = "c"; };\n}\n',
+    ),
+    ["1 missing-field Missing required field 'hash' in src.github."],
+  );
+});
+
+test("flags unknown fields and values of the wrong type", async () => {
+  const issues = await schemaIssues(
+    "fields",
+    `{
+  _meta.colour = "red";
+  _src = src.url { url = "u"; hash = "h"; name = 3; };
+}
+`,
+  );
+  assert.equal(issues.length, 2, issues.join("\n"));
+  assert.equal(issues[0], "1 unknown-field Unknown field 'colour' in _meta.");
+  assert.match(issues[1], /^2 invalid-field Field 'name' of src\.url: /);
+});
+
+test("flags an unknown fetcher", async () => {
+  assert.deepEqual(
+    await schemaIssues(
+      "fetcher",
+      '{\n  _src = src.gitlab { url = "u"; };\n}\n',
+    ),
+    [
+      "1 unknown-fetcher Unknown fetcher 'gitlab'. Expected one of: github, tarball, git, url.",
+    ],
+  );
+});
@@ -0,0 +1,85 @@
+// Semantic tokens for Z.O.N.E. constructs, decoded with the legend the server
+// announced: actions by scope, `_let` declarations, and `$v.` references that
+// do or do not resolve.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import {
+  SemanticTokens,
+  SemanticTokensLegend,
+} from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const uri = "file:///ws/tokens.zcfg";
+const TEXT = `{
+  _let port = 1;
+  s! { a = $v.port; b = $v.nope; };
+}
+`;
+
+let client: TestClient;
+let legend: SemanticTokensLegend;
+
+before(async () => {
+  const started = await startTestServer();
+  client = started.client;
+  legend = started.initialized.capabilities.semanticTokensProvider!.legend;
+  await client.openChecked(uri, TEXT);
+});
+
+after(async () => {
+  await client.close();
+});
+
+/** Every token as `text type modifier…`, in document order. */
+async function tokens(): Promise<string[]> {
+  const { data }: SemanticTokens = await client.connection.sendRequest(
+    "textDocument/semanticTokens/full",
+    { textDocument: { uri } },
+  );
+  const lines = TEXT.split("\n");
+  const decoded: string[] = [];
+  let line = 0;
+  let character = 0;
+  for (let i = 0; i < data.length; i += 5) {
+    const [deltaLine, deltaStart, length, type, modifiers] = data.slice(
+      i,
+      i + 5,
+    );
+    line += deltaLine;
+    character = deltaLine === 0 ? character + deltaStart : deltaStart;
+    const names = legend.tokenModifiers.filter(
+      (_, bit) => modifiers & (1 << bit),
+    );
+    decoded.push(
+      [
+        lines[line].slice(character, character + length),
+        legend.tokenTypes[type],
+        ...names,
+      ].join(" "),
+    );
+  }
+  return decoded;
+}
+
+test("marks actions with their scope", async () => {
+  assert.ok((await tokens()).includes("s! action system"));
+});
+
+test("marks _let declarations", async () => {
+  assert.ok(
+    (await tokens()).some((token) =>
+      /^port variable .*\bdeclaration\b/.test(token),
+    ),
+  );
+});
+
+test("tells resolved $v. references from unresolved ones", async () => {
+  const all = await tokens();
+  const port = all.find(
+    (token) => token.startsWith("port ") && !token.includes("declaration"),
+  );
+  const nope = all.find((token) => token.startsWith("nope "));
+  assert.ok(port && !port.includes("unresolved"), all.join("\n"));
+  assert.ok(nope?.includes("unresolved"), all.join("\n"));
+});
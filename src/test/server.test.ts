@@ -0,0 +1,83 @@
+// The language server driven end to end by the scripted client: what an
+// editor sees from opening a file to formatting it.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { CompletionList, TextEdit } from "vscode-languageserver/node";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+let client: TestClient;
+
+before(async () => {
+  const started = await startTestServer();
+  client = started.client;
+  assert.ok(started.initialized.capabilities.completionProvider);
+  assert.ok(started.initialized.capabilities.documentFormattingProvider);
+});
+
+after(() => client.close());
+
+test("publishes parser problems when a file is opened", async () => {
+  const uri = "file:///ws/missing-semi.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, "{\n  a = 1\n  b = 2;\n}\n");
+  const diagnostics = await published;
+  assert.ok(
+    diagnostics.some((d) => d.message.startsWith("Missing ';'")),
+    JSON.stringify(diagnostics),
+  );
+});
+
+test("publishes nothing for a clean file", async () => {
+  const uri = "file:///ws/clean.zcfg";
+  const published = client.nextDiagnostics(uri);
+  client.open(
+    uri,
+    '{\n  _let port: $type.int = 8080;\n  s! { networking.hostName = "box"; };\n}\n',
+  );
+  assert.deepEqual(await published, []);
+});
+
+test("completes $type members", async () => {
+  const uri = "file:///ws/complete.zcfg";
+  const text = "{\n  _let x: $type.\n}\n";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, text);
+  await published;
+  const list: CompletionList = await client.connection.sendRequest(
+    "textDocument/completion",
+    { textDocument: { uri }, position: { line: 1, character: 16 } },
+  );
+  const labels = list.items.map((item) => item.label);
+  assert.ok(labels.includes("$type.string"), labels.join(" "));
+  assert.ok(labels.includes("$type.either"), labels.join(" "));
+});
+
+test("formats a document", async () => {
+  const uri = "file:///ws/format.zcfg";
+  const text = "{\n    a =  1;\n  s!{ b=2; };\n}\n";
+  const published = client.nextDiagnostics(uri);
+  client.open(uri, text);
+  await published;
+  const edits: TextEdit[] = await client.connection.sendRequest(
+    "textDocument/formatting",
+    { textDocument: { uri }, options: { tabSize: 2, insertSpaces: true } },
+  );
+  assert.equal(applyEdits(text, edits), "{\n  a = 1;\n  s! { b = 2; };\n}\n");
+});
+
+test("answers null for plain Nix files", async () => {
+  const uri = "file:///ws/plain.nix";
+  client.open(uri, "{ a =  1; }\n", "nix");
+  for (const method of [
+    "textDocument/formatting",
+    "textDocument/semanticTokens/full",
+    "textDocument/documentSymbol",
+  ]) {
+    const result = await client.connection.sendRequest(method, {
+      textDocument: { uri },
+      options: { tabSize: 2, insertSpaces: true },
+    });
+    assert.equal(result, null, method);
+  }
+});
@@ -0,0 +1,61 @@
+// Signature help inside fetcher calls and structural nodes: the fields of
+// `src.github { … }` with the one being written, or else the first required
+// one still missing, as the active parameter.
+
+import * as assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { SignatureHelp } from "vscode-languageserver/node";
+import { TestClient, startTestServer } from "./client";
+
+const uri = "file:///ws/signatures.zpkg";
+const TEXT = `{
+  _src = src.github { owner = "a"; repo = ; };
+  apps.(zmdl web) = { };
+}
+`;
+
+let client: TestClient;
+
+before(async () => {
+  client = (await startTestServer()).client;
+  await client.openChecked(uri, TEXT);
+});
+
+after(async () => {
+  await client.close();
+});
+
+/** Signature help just after the first `at` on `line`. */
+function signatureAfter(line: number, at: string): Promise<SignatureHelp> {
+  const character = TEXT.split("\n")[line].indexOf(at) + at.length;
+  return client.connection.sendRequest("textDocument/signatureHelp", {
+    textDocument: { uri },
+    position: { line, character },
+  });
+}
+
+/** The label of the active parameter. */
+function active(help: SignatureHelp): string {
+  const [start, end] = help.signatures[0].parameters![help.activeParameter!]
+    .label as [number, number];
+  return help.signatures[0].label.slice(start, end);
+}
+
+test("lists a fetcher's fields and marks the one being written", async () => {
+  const help = await signatureAfter(1, "repo = ");
+  assert.equal(
+    help.signatures[0].label,
+    "src.github { owner; repo; rev; hash; fetchSubmodules?; }",
+  );
+  assert.equal(active(help), "repo;");
+});
+
+test("marks the first required field still missing", async () => {
+  assert.equal(active(await signatureAfter(1, "repo = ; ")), "rev;");
+});
+
+test("shows the argument of a structural node", async () => {
+  const help = await signatureAfter(2, "(zmdl ");
+  assert.match(help.signatures[0].label, /^\(zmdl \S+\)$/);
+  assert.equal(help.activeParameter, 0);
+});
@@ -0,0 +1,89 @@
+// `_let` variables across a workspace on disk: `$v.` completes the variables
+// an imported file declares, and renaming one rewrites the declaration and
+// every `$v.name` that reads it.
+
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import {
+  CompletionList,
+  ResponseError,
+  WorkspaceEdit,
+} from "vscode-languageserver/node";
+import { TestClient, applyEdits, startTestServer } from "./client";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "zen-nix-test-"));
+
+const FILES: Record<string, string> = {
+  "shared.zmdl": '{\n  _let port = 80;\n  _let host = "box";\n}\n',
+  "main.zcfg": `{
+  _import "./shared.zmdl";
+  s! { a = $v.port; b = $v.port; };
+  c = $v.;
+}
+`,
+};
+
+const uri = (name: string) => pathToFileURL(path.join(root, name)).toString();
+
+let client: TestClient;
+
+before(async () => {
+  for (const [name, text] of Object.entries(FILES)) {
+    fs.writeFileSync(path.join(root, name), text);
+  }
+  client = (await startTestServer(pathToFileURL(root).toString())).client;
+  await client.openChecked(uri("main.zcfg"), FILES["main.zcfg"]);
+});
+
+after(async () => {
+  await client.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const rename = (line: number, character: number, newName: string) =>
+  client.connection.sendRequest<WorkspaceEdit>("textDocument/rename", {
+    textDocument: { uri: uri("main.zcfg") },
+    position: { line, character },
+    newName,
+  });
+
+test("completes the _let variables of imported files after $v.", async () => {
+  const list: CompletionList = await client.connection.sendRequest(
+    "textDocument/completion",
+    {
+      textDocument: { uri: uri("main.zcfg") },
+      position: { line: 3, character: 9 },
+    },
+  );
+  const labels = list.items.map((item) => item.label);
+  assert.ok(labels.includes("port"), labels.join(" "));
+  assert.ok(labels.includes("host"), labels.join(" "));
+});
+
+test("renames a _let variable in its file and where it is read", async () => {
+  const { changes } = await rename(2, 16, "listen");
+  assert.deepEqual(Object.keys(changes!).sort(), [
+    uri("main.zcfg"),
+    uri("shared.zmdl"),
+  ]);
+  assert.equal(
+    applyEdits(FILES["shared.zmdl"], changes![uri("shared.zmdl")]),
+    '{\n  _let listen = 80;\n  _let host = "box";\n}\n',
+  );
+  assert.match(
+    applyEdits(FILES["main.zcfg"], changes![uri("main.zcfg")]),
+    /a = \$v\.listen; b = \$v\.listen;/,
+  );
+});
+
+test("refuses a new name that is not an identifier", async () => {
+  await assert.rejects(
+    rename(2, 16, "not valid"),
+    (error: ResponseError<unknown>) =>
+      error.message === "'not valid' is not a valid identifier.",
+  );
+});
@@ -0,0 +1,59 @@
+// `_let` declarations checked against their `$type` annotation.
+
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { parse } from "../zone/parser";
+import { checkDeclarations } from "../zone/types";
+
+/** The codes `_let name: type = value;` is flagged with. */
+const check = (type: string, value: string) =>
+  checkDeclarations(parse(`{ _let x: ${type} = ${value}; }`)).map(
+    (issue) => issue.code,
+  );
+
+test("accepts values of the declared type", () => {
+  for (const [type, value] of [
+    ["$type.int", "8080"],
+    ["$type.float", "1"],
+    ["$type.string", '"a"'],
+    ["$type.bool", "true"],
+    ["$type.path", "./file"],
+    ["$type.path", '"/etc/x"'],
+    ["$type.color", '"#ff8800"'],
+    ["$type.list of $type.int", "[ 1 2 ]"],
+    ["$type.set of $type.string", '{ a = "b"; }'],
+    ['$type.enum [ "a" "b" ]', '"b"'],
+    ["$type.either [ $type.int $type.string ]", '"a"'],
+    ["$type.nullable $type.path", "null"],
+    ["$type.functionTo $type.string", "x: x"],
+    // Unknown until evaluated
+    ["$type.int", "$v.other"],
+  ]) {
+    assert.deepEqual(check(type, value), [], `${type} = ${value}`);
+  }
+});
+
+test("flags values of another type", () => {
+  for (const [type, value] of [
+    ["$type.int", '"8080"'],
+    ["$type.string", "1"],
+    ["$type.color", '"#ff888"'],
+    ["$type.list of $type.int", '[ 1 "2" ]'],
+    ["$type.set of $type.string", "{ a = 1; }"],
+    ['$type.enum [ "a" "b" ]', '"c"'],
+    ["$type.either [ $type.int $type.string ]", "true"],
+    ["$type.nullable $type.path", "1"],
+  ]) {
+    assert.deepEqual(
+      check(type, value),
+      ["type-mismatch"],
+      `${type} = ${value}`,
+    );
+  }
+});
+
+test("flags annotations that are no type", () => {
+  assert.deepEqual(check("$type.port", "1"), ["invalid-type"]);
+  assert.deepEqual(check("$type.int $type.string", "1"), ["invalid-type"]);
+  assert.deepEqual(check("$type.either $type.int", "1"), ["invalid-type"]);
+});
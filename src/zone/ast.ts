@@ -0,0 +1,457 @@
+// AST for ZenOS-extended Nix.
+//
+// Every node carries absolute `start`/`end` offsets into the source text.
+// Consumers convert offsets into editor positions themselves, which keeps
+// this module free of any editor API.
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type ActionScope = "system" | "user" | "generic";
+
+/** The six action shorthands and their meaning. */
+export const ACTION_FORMS: Record<
+  string,
+  { scope: ActionScope; conditional: boolean }
+> = {
+  "!": { scope: "generic", conditional: true },
+  "!!": { scope: "generic", conditional: false },
+  "s!": { scope: "system", conditional: true },
+  "s!!": { scope: "system", conditional: false },
+  "u!": { scope: "user", conditional: true },
+  "u!!": { scope: "user", conditional: false },
+};
+
+/** Pre-shorthand spellings of the actions, e.g. `_saction = { … };`. */
+export const LEGACY_ACTIONS: Record<string, string> = {
+  _action: "!",
+  _action_unconditional: "!!",
+  _saction: "s!",
+  _saction_unconditional: "s!!",
+  _uaction: "u!",
+  _uaction_unconditional: "u!!",
+};
+
+/** Keywords allowed inside `( … )` structural nodes. */
+export const STRUCTURAL_KINDS = [
+  "freeform",
+  "zmdl",
+  "alias",
+  "programs",
+  "packages",
+  "group",
+  "needs",
+];
+
+export interface Ident extends Span {
+  kind: "Ident";
+  name: string;
+}
+
+export interface IntLit extends Span {
+  kind: "Int";
+  value: number;
+}
+
+export interface FloatLit extends Span {
+  kind: "Float";
+  value: number;
+}
+
+export interface StringLit extends Span {
+  kind: "String";
+  indented: boolean;
+  /** Literal chunks (raw source text) interleaved with interpolations. */
+  parts: (StringChunk | Interp)[];
+}
+
+export interface StringChunk extends Span {
+  kind: "StringChunk";
+  raw: string;
+}
+
+export interface Interp extends Span {
+  kind: "Interp";
+  expr: Expr | null;
+}
+
+export interface PathLit extends Span {
+  kind: "Path";
+  /** `./x`, `~/x`, `<nixpkgs>` or a bare URI. */
+  style: "path" | "search" | "uri";
+  value: string;
+}
+
+/** `$name.seg.seg` — a ZenOS global and its member access. */
+export interface ZenVar extends Span {
+  kind: "ZenVar";
+  name: string;
+  nameEnd: number;
+  segments: Ident[];
+}
+
+export interface List extends Span {
+  kind: "List";
+  items: Expr[];
+}
+
+export interface AttrSet extends Span {
+  kind: "AttrSet";
+  rec: boolean;
+  /** True for the file-level attribute set that has no braces. */
+  implicit: boolean;
+  items: BindingItem[];
+}
+
+export interface Let extends Span {
+  kind: "Let";
+  items: BindingItem[];
+  body: Expr | null;
+}
+
+export interface With extends Span {
+  kind: "With";
+  scope: Expr | null;
+  body: Expr | null;
+}
+
+export interface Assert extends Span {
+  kind: "Assert";
+  cond: Expr | null;
+  body: Expr | null;
+}
+
+export interface If extends Span {
+  kind: "If";
+  cond: Expr | null;
+  then: Expr | null;
+  else: Expr | null;
+}
+
+export interface PatternField extends Span {
+  name: Ident;
+  default: Expr | null;
+}
+
+export interface Pattern extends Span {
+  kind: "Pattern";
+  fields: PatternField[];
+  ellipsis: boolean;
+  bind: Ident | null;
+}
+
+export interface Lambda extends Span {
+  kind: "Lambda";
+  param: Ident | Pattern;
+  body: Expr | null;
+}
+
+export interface Apply extends Span {
+  kind: "Apply";
+  fn: Expr;
+  arg: Expr;
+}
+
+export interface Select extends Span {
+  kind: "Select";
+  target: Expr;
+  path: AttrName[];
+  default: Expr | null;
+}
+
+export interface HasAttr extends Span {
+  kind: "HasAttr";
+  target: Expr;
+  path: AttrName[];
+}
+
+export interface Binary extends Span {
+  kind: "Binary";
+  op: string;
+  left: Expr;
+  right: Expr | null;
+}
+
+export interface Unary extends Span {
+  kind: "Unary";
+  op: "!" | "-";
+  operand: Expr | null;
+}
+
+export interface Paren extends Span {
+  kind: "Paren";
+  expr: Expr | null;
+}
+
+export interface StructuralArg extends Span {
+  text: string;
+}
+
+/** `(freeform id)`, `(zmdl name)`, `(alias path)`, `(programs)` … */
+export interface Structural extends Span {
+  kind: "Structural";
+  node: string;
+  nodeStart: number;
+  nodeEnd: number;
+  args: StructuralArg[];
+}
+
+/** `++[ … ]` / `--[ … ]` dependency cascades. */
+export interface Cascade extends Span {
+  kind: "Cascade";
+  op: "++" | "--";
+  list: Expr | null;
+}
+
+/** `enableOption { … }` sugar. */
+export interface EnableOption extends Span {
+  kind: "EnableOption";
+  nameEnd: number;
+  body: AttrSet;
+}
+
+export interface ErrorNode extends Span {
+  kind: "Error";
+}
+
+export type Expr =
+  | Ident
+  | IntLit
+  | FloatLit
+  | StringLit
+  | PathLit
+  | ZenVar
+  | List
+  | AttrSet
+  | Let
+  | With
+  | Assert
+  | If
+  | Lambda
+  | Apply
+  | Select
+  | HasAttr
+  | Binary
+  | Unary
+  | Paren
+  | Structural
+  | Cascade
+  | EnableOption
+  | ErrorNode;
+
+export type AttrName = Ident | StringLit | Interp | Structural | Paren;
+
+export interface Binding extends Span {
+  kind: "Binding";
+  path: AttrName[];
+  /** Offset of the `=`, or -1 when it is missing. */
+  eq: number;
+  value: Expr | null;
+  /** Offset of the terminating `;`, or -1 when it is missing. */
+  semi: number;
+}
+
+export interface Inherit extends Span {
+  kind: "Inherit";
+  from: Expr | null;
+  names: AttrName[];
+  semi: number;
+}
+
+/** `_let name : type = value;` */
+export interface LetDecl extends Span {
+  kind: "LetDecl";
+  name: Ident | null;
+  type: Expr | null;
+  eq: number;
+  value: Expr | null;
+  semi: number;
+}
+
+/** `_import "path"` */
+export interface Import extends Span {
+  kind: "Import";
+  keywordEnd: number;
+  target: Expr | null;
+  semi: number;
+}
+
+/** `s! [guard] { … };` and its five siblings. */
+export interface Action extends Span {
+  kind: "Action";
+  form: string;
+  scope: ActionScope;
+  conditional: boolean;
+  formEnd: number;
+  guard: Expr | null;
+  guardStart: number;
+  guardEnd: number;
+  body: AttrSet | null;
+  semi: number;
+}
+
+export type BindingItem = Binding | Inherit | LetDecl | Import | Action;
+
+export type Node = Expr | BindingItem | Pattern | Interp | File;
+
+export interface File extends Span {
+  kind: "File";
+  body: Expr | null;
+}
+
+export function children(node: Node): Node[] {
+  const out: Node[] = [];
+  const add = (n: Node | null | undefined) => {
+    if (n) out.push(n);
+  };
+  switch (node.kind) {
+    case "File":
+      add(node.body);
+      break;
+    case "String":
+      for (const p of node.parts) if (p.kind === "Interp") add(p.expr);
+      break;
+    case "Interp":
+      add(node.expr);
+      break;
+    case "ZenVar":
+      node.segments.forEach(add);
+      break;
+    case "List":
+      node.items.forEach(add);
+      break;
+    case "AttrSet":
+      node.items.forEach(add);
+      break;
+    case "Let":
+      node.items.forEach(add);
+      add(node.body);
+      break;
+    case "With":
+      add(node.scope);
+      add(node.body);
+      break;
+    case "Assert":
+      add(node.cond);
+      add(node.body);
+      break;
+    case "If":
+      add(node.cond);
+      add(node.then);
+      add(node.else);
+      break;
+    case "Pattern":
+      for (const f of node.fields) {
+        add(f.name);
+        add(f.default);
+      }
+      add(node.bind);
+      break;
+    case "Lambda":
+      add(node.param);
+      add(node.body);
+      break;
+    case "Apply":
+      add(node.fn);
+      add(node.arg);
+      break;
+    case "Select":
+      add(node.target);
+      node.path.forEach(add);
+      add(node.default);
+      break;
+    case "HasAttr":
+      add(node.target);
+      node.path.forEach(add);
+      break;
+    case "Binary":
+      add(node.left);
+      add(node.right);
+      break;
+    case "Unary":
+      add(node.operand);
+      break;
+    case "Paren":
+      add(node.expr);
+      break;
+    case "Cascade":
+      add(node.list);
+      break;
+    case "EnableOption":
+      add(node.body);
+      break;
+    case "Binding":
+      node.path.forEach(add);
+      add(node.value);
+      break;
+    case "Inherit":
+      add(node.from);
+      node.names.forEach(add);
+      break;
+    case "LetDecl":
+      add(node.name);
+      add(node.type);
+      add(node.value);
+      break;
+    case "Import":
+      add(node.target);
+      break;
+    case "Action":
+      add(node.guard);
+      add(node.body);
+      break;
+  }
+  return out;
+}
+
+/**
+ * Depth-first walk. Returning `false` from the visitor skips the children of
+ * that node.
+ */
+export function walk(
+  node: Node,
+  visit: (node: Node, parents: Node[]) => boolean | void,
+) {
+  const parents: Node[] = [];
+  const rec = (n: Node) => {
+    if (visit(n, parents) === false) return;
+    parents.push(n);
+    for (const c of children(n)) rec(c);
+    parents.pop();
+  };
+  rec(node);
+}
+
+/** The chain of nodes enclosing `offset`, outermost first. */
+export function nodesAt(root: Node, offset: number): Node[] {
+  const chain: Node[] = [];
+  let current: Node | undefined = root;
+  while (current) {
+    chain.push(current);
+    current = children(current).find(
+      (c) => c.start <= offset && offset <= c.end,
+    );
+  }
+  return chain;
+}
+
+/** Name of an attribute path element when it is static, otherwise null. */
+export function attrNameText(name: AttrName): string | null {
+  if (name.kind === "Ident") return name.name;
+  if (
+    name.kind === "String" &&
+    name.parts.every((p) => p.kind === "StringChunk")
+  ) {
+    return name.parts.map((p) => (p as StringChunk).raw).join("");
+  }
+  return null;
+}
+
+/** Plain text of a string literal without interpolations, otherwise null. */
+export function stringValue(expr: Expr | null): string | null {
+  if (!expr || expr.kind !== "String") return null;
+  if (!expr.parts.every((p) => p.kind === "StringChunk")) return null;
+  return expr.parts.map((p) => (p as StringChunk).raw).join("");
+}
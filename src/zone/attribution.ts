@@ -0,0 +1,185 @@
+// Licenses and maintainers behind `$l.` and `$m.`: reading them from
+// `nix eval --json` dumps, and checking the references a file makes.
+
+import { Binding, Expr, Node, attrNameText, stringValue, walk } from "./ast";
+import { editDistance } from "./distance";
+import { License } from "./licenses";
+import { ParseResult } from "./parser";
+
+export interface Maintainer {
+  name?: string;
+  email?: string;
+  github?: string;
+}
+
+export interface Attribution {
+  licenses: Map<string, License>;
+  /** Null when no maintainer list is loaded; nothing is checked then. */
+  maintainers: Map<string, Maintainer> | null;
+}
+
+function entries(json: unknown): [string, Record<string, unknown>][] {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("expected an object keyed by attribute name");
+  }
+  return Object.entries(json).filter(
+    (entry): entry is [string, Record<string, unknown>] =>
+      !!entry[1] && typeof entry[1] === "object",
+  );
+}
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+/** `nix eval --json nixpkgs#lib.licenses` */
+export function readLicenses(json: unknown): Map<string, License> {
+  const licenses = new Map<string, License>();
+  for (const [attr, raw] of entries(json)) {
+    licenses.set(attr, {
+      fullName: text(raw.fullName) ?? attr,
+      spdxId: text(raw.spdxId),
+      free: typeof raw.free === "boolean" ? raw.free : undefined,
+    });
+  }
+  return licenses;
+}
+
+/** `nix eval --json -f '<nixpkgs/maintainers/maintainer-list.nix>'` */
+export function readMaintainers(json: unknown): Map<string, Maintainer> {
+  const maintainers = new Map<string, Maintainer>();
+  for (const [handle, raw] of entries(json)) {
+    maintainers.set(handle, {
+      name: text(raw.name),
+      email: text(raw.email),
+      github: text(raw.github),
+    });
+  }
+  return maintainers;
+}
+
+/**
+ * The `$l.` name a license string stands for: an SPDX id, attribute name or
+ * full name, in any case. Deprecated SPDX ids count too: `GPL-3.0` is
+ * `gpl3Only` and `GPL-3.0+` is `gpl3Plus`.
+ */
+export function licenseForString(
+  value: string,
+  licenses: Map<string, License>,
+): string | undefined {
+  const wanted = value.trim().toLowerCase().replace(/\+$/, "-or-later");
+  for (const candidate of [wanted, `${wanted}-only`]) {
+    for (const [attr, license] of licenses) {
+      if (
+        attr.toLowerCase() === candidate ||
+        license.spdxId?.toLowerCase() === candidate ||
+        license.fullName.toLowerCase() === candidate
+      ) {
+        return attr;
+      }
+    }
+  }
+  return undefined;
+}
+
+export interface AttributionIssue {
+  start: number;
+  end: number;
+  message: string;
+  code: "unknown-license" | "unknown-maintainer" | "string-license";
+  /** The `$l.`/`$m.` name to use instead. */
+  suggestion?: string;
+}
+
+/** `_meta.license` values, in both the dotted and the set form. */
+function licenseValues(parsed: ParseResult): Expr[] {
+  const values: Expr[] = [];
+  walk(parsed.file, (node: Node) => {
+    if (node.kind !== "Binding" || attrNameText(node.path[0]) !== "_meta") {
+      return;
+    }
+    if (node.path.length === 2 && attrNameText(node.path[1]) === "license") {
+      if (node.value) values.push(node.value);
+    } else if (node.path.length === 1 && node.value?.kind === "AttrSet") {
+      const field = node.value.items.find(
+        (item): item is Binding =>
+          item.kind === "Binding" &&
+          item.path.length === 1 &&
+          attrNameText(item.path[0]) === "license",
+      );
+      if (field?.value) values.push(field.value);
+    }
+    return false;
+  });
+  return values;
+}
+
+/** A name that extends `name` (`gpl3` → `gpl3Only`), else the nearest. */
+function closest(names: string[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const extending = names
+    .filter((candidate) => candidate.toLowerCase().startsWith(lower))
+    .sort((a, b) => a.length - b.length);
+  if (extending.length > 0) return extending[0];
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 4)) + 1;
+  for (const candidate of names) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Unknown `$l.`/`$m.` names, and license strings in `_meta` that have a
+ * `$l.` name.
+ */
+export function checkAttribution(
+  parsed: ParseResult,
+  attribution: Attribution,
+): AttributionIssue[] {
+  const issues: AttributionIssue[] = [];
+  walk(parsed.file, (node: Node) => {
+    if (node.kind !== "ZenVar") return;
+    const member = node.segments[0];
+    if (!member?.name) return false;
+    const known =
+      node.name === "l"
+        ? attribution.licenses
+        : node.name === "m"
+          ? attribution.maintainers
+          : null;
+    if (!known || known.has(member.name)) return false;
+    const suggestion = closest([...known.keys()], member.name);
+    const what = node.name === "l" ? "license" : "maintainer";
+    issues.push({
+      start: member.start,
+      end: member.end,
+      code: node.name === "l" ? "unknown-license" : "unknown-maintainer",
+      message:
+        `Unknown ${what} '${member.name}'.` +
+        (suggestion ? ` Did you mean '${suggestion}'?` : ""),
+      suggestion,
+    });
+    return false;
+  });
+
+  for (const value of licenseValues(parsed)) {
+    const items = value.kind === "List" ? value.items : [value];
+    for (const item of items) {
+      const license = stringValue(item);
+      const attr = license && licenseForString(license, attribution.licenses);
+      if (!attr) continue;
+      issues.push({
+        start: item.start,
+        end: item.end,
+        code: "string-license",
+        message: `"${license}" is available as $l.${attr}.`,
+        suggestion: `$l.${attr}`,
+      });
+    }
+  }
+  return issues;
+}
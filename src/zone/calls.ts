@@ -0,0 +1,125 @@
+// The call being written at a position: `src.<fetcher> { … }`,
+// `enableOption { … }` or a `( … )` structural node, and which of its
+// arguments the cursor is on. Signature help and argument completion share it.
+
+import {
+  AttrSet,
+  EnableOption,
+  STRUCTURAL_KINDS,
+  attrNameText,
+  nodesAt,
+} from "./ast";
+import { ParseResult } from "./parser";
+import { fetcherCall } from "./schema";
+
+/** The parts of an `enableOption` body signature help walks through. */
+export type EnableOptionPart = "brief" | "description" | "action";
+
+export type CallAt =
+  | {
+      kind: "fetcher";
+      name: string;
+      args: AttrSet;
+      /** The field whose binding holds the cursor. */
+      field: string | null;
+    }
+  | {
+      kind: "enableOption";
+      option: EnableOption;
+      part: EnableOptionPart | null;
+    }
+  | {
+      kind: "structural";
+      node: string;
+      /** The argument typed so far, up to the cursor. */
+      typed: string;
+    };
+
+export function callAt(parsed: ParseResult, offset: number): CallAt | null {
+  // From the text: `(zmdl ` is no structural node until it is closed
+  const lineStart = parsed.text.lastIndexOf("\n", offset - 1) + 1;
+  const open = /\(\s*([a-zA-Z]+)\s+([^()\s]*)$/.exec(
+    parsed.text.slice(lineStart, offset),
+  );
+  if (open && STRUCTURAL_KINDS.includes(open[1])) {
+    return { kind: "structural", node: open[1], typed: open[2] };
+  }
+
+  const chain = nodesAt(parsed.file, offset);
+  const inside = (set: AttrSet) => offset > set.start && offset < set.end;
+  /** Which part of the `enableOption` at `chain[index]` holds the cursor. */
+  const optionPart = (index: number): EnableOptionPart | null => {
+    const below = chain[index + 2];
+    if (below?.kind === "Action") return "action";
+    if (below?.kind !== "Binding" || attrNameText(below.path[0]) !== "_meta") {
+      return null;
+    }
+    // `_meta.brief = …` or `_meta = { brief = …; }`
+    const inner = chain[index + 4];
+    const field =
+      below.path.length > 1
+        ? below.path[1]
+        : inner?.kind === "Binding"
+          ? inner.path[0]
+          : null;
+    const name = field && attrNameText(field);
+    return name === "brief" || name === "description" ? name : null;
+  };
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind === "Binding" && attrNameText(node.path[0]) === "_src") {
+      const call = fetcherCall(node.value);
+      if (!call?.args || chain[i + 2] !== call.args || !inside(call.args)) {
+        return null;
+      }
+      // Only directly in the argument set, not in a nested value
+      const below = chain.slice(i + 3);
+      if (below.some((n) => n.kind === "AttrSet" || n.kind === "List")) {
+        return null;
+      }
+      const field = below[0]?.kind === "Binding" ? below[0].path[0] : null;
+      return {
+        kind: "fetcher",
+        name: call.name.name,
+        args: call.args,
+        field: field ? attrNameText(field) : null,
+      };
+    }
+    if (node.kind === "EnableOption") {
+      if (chain[i + 1] !== node.body || !inside(node.body)) return null;
+      // Past that, NixOS options or nested nodes are being written
+      const below = chain[i + 2];
+      const deeper =
+        below?.kind === "Action"
+          ? !!below.body && offset > below.body.start
+          : below?.kind === "Binding" &&
+            attrNameText(below.path[0]) !== "_meta" &&
+            below.eq !== -1 &&
+            offset > below.eq;
+      if (deeper) return null;
+      return { kind: "enableOption", option: node, part: optionPart(i) };
+    }
+  }
+  return null;
+}
+
+/** The `_meta` fields an `enableOption` body sets, dotted or as a set. */
+export function enableOptionMeta(option: EnableOption): string[] {
+  const fields: string[] = [];
+  for (const item of option.body.items) {
+    if (item.kind !== "Binding" || attrNameText(item.path[0]) !== "_meta") {
+      continue;
+    }
+    if (item.path.length > 1) {
+      const name = attrNameText(item.path[1]);
+      if (name) fields.push(name);
+    } else if (item.value?.kind === "AttrSet") {
+      for (const field of item.value.items) {
+        const name = field.kind === "Binding" && attrNameText(field.path[0]);
+        if (name) fields.push(name);
+      }
+    }
+  }
+  return fields;
+}
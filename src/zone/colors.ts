@@ -0,0 +1,114 @@
+// Color literals as `$type.color` accepts them: `#rgb`, `#rgba`, `#rrggbb`,
+// `#rrggbbaa`, `rgb(r, g, b)` and `rgba(r, g, b, a)`. Reading them into
+// channels, writing channels back in a given notation, and saying what is
+// wrong with a malformed one.
+
+export type ColorNotation = "hex" | "rgb";
+
+export interface Color {
+  /** Channels from 0 to 1. */
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+  notation: ColorNotation;
+  /** A `#rgb`/`#rgba` shorthand; only meaningful for hex. */
+  short?: boolean;
+}
+
+const HEX = /^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+const FUNCTION = /^(rgba?)\s*\((.*)\)$/s;
+
+/** A channel of `rgb(…)`: 0–255 or a percentage; `max` is 1 for alpha. */
+function channel(text: string, max: number): number | string {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)(%?)$/.exec(text);
+  if (!match) return `'${text}' is not a number`;
+  const value = Number(match[1]);
+  if (match[2]) {
+    return value <= 100 ? value / 100 : `${text} is above 100%`;
+  }
+  return value <= max
+    ? value / max
+    : `${text} is out of range (0–${max === 1 ? "1" : max})`;
+}
+
+/** Read a color, or say why it is not one. */
+function read(text: string): Color | string {
+  const value = text.trim();
+  if (value.startsWith("#")) {
+    if (!HEX.test(value)) {
+      return /^#[0-9a-fA-F]*$/.test(value)
+        ? `'${value}' has ${value.length - 1} hex digits (expected 3, 4, 6 or 8)`
+        : `'${value}' is not a hex color`;
+    }
+    let digits = value.slice(1);
+    const short = digits.length <= 4;
+    if (short) digits = [...digits].map((d) => d + d).join("");
+    const byte = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return {
+      red: byte(0) / 255,
+      green: byte(1) / 255,
+      blue: byte(2) / 255,
+      alpha: digits.length === 8 ? byte(3) / 255 : 1,
+      notation: "hex",
+      short,
+    };
+  }
+  const call = FUNCTION.exec(value);
+  if (!call) {
+    return `'${value}' is not a color (expected #rrggbb, rgb(…) or a $c. name)`;
+  }
+  const args = call[2].split(",").map((arg) => arg.trim());
+  if (args.length !== 3 && args.length !== 4) {
+    return `${call[1]}(…) takes 3 or 4 values, not ${args.length}`;
+  }
+  const channels: number[] = [];
+  for (const [i, arg] of args.entries()) {
+    const amount = channel(arg, i === 3 ? 1 : 255);
+    if (typeof amount === "string") return amount;
+    channels.push(amount);
+  }
+  return {
+    red: channels[0],
+    green: channels[1],
+    blue: channels[2],
+    alpha: channels[3] ?? 1,
+    notation: "rgb",
+  };
+}
+
+export function parseColor(text: string): Color | null {
+  const color = read(text);
+  return typeof color === "string" ? null : color;
+}
+
+/** What is wrong with a color, or null when it is fine. */
+export function colorError(text: string): string | null {
+  const color = read(text);
+  return typeof color === "string" ? color : null;
+}
+
+/** Write channels in `notation`, adding alpha only when it is needed. */
+export function formatColor(
+  color: Omit<Color, "notation" | "short">,
+  notation: ColorNotation,
+  short = false,
+): string {
+  const bytes = [color.red, color.green, color.blue].map((c) =>
+    Math.round(c * 255),
+  );
+  const opaque = color.alpha >= 1;
+  if (notation === "rgb") {
+    const alpha = Math.round(color.alpha * 100) / 100;
+    return opaque
+      ? `rgb(${bytes.join(", ")})`
+      : `rgba(${bytes.join(", ")}, ${alpha})`;
+  }
+  if (!opaque) bytes.push(Math.round(color.alpha * 255));
+  const hex = bytes.map((b) => b.toString(16).padStart(2, "0"));
+  // Shorthand only when it loses nothing
+  if (short && hex.every((h) => h[0] === h[1])) {
+    return "#" + hex.map((h) => h[0]).join("");
+  }
+  return "#" + hex.join("");
+}
@@ -0,0 +1,109 @@
+// What sits under the cursor, answered from the AST instead of line regexes.
+
+import { Node, Paren, Structural, ZenVar, nodesAt } from "./ast";
+import { ParseResult } from "./parser";
+
+export interface CursorContext {
+  /** Enclosing nodes, outermost first. */
+  chain: Node[];
+  inComment: boolean;
+  /** Inside the literal part of a string (interpolations do not count). */
+  inString: boolean;
+  /** A new binding, `_keyword` or action could start here. */
+  bindingPosition: boolean;
+  /** The `$global.member` being typed, if any. */
+  zenVar: ZenVar | null;
+  /** The `( … )` node whose keyword is being typed, if any. */
+  structural: Structural | Paren | null;
+}
+
+export function cursorContext(
+  parsed: ParseResult,
+  offset: number,
+): CursorContext {
+  const chain = nodesAt(parsed.file, offset);
+  const inner = chain[chain.length - 1];
+  const parent = chain[chain.length - 2];
+
+  const inComment = parsed.comments.some(
+    (c) => c.start < offset && offset <= c.end,
+  );
+
+  let inString = false;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind === "Interp") break;
+    if (
+      node.kind === "String" &&
+      node.start < offset &&
+      offset < node.end + (isOpenString(parsed, node) ? 1 : 0)
+    ) {
+      inString = true;
+      break;
+    }
+  }
+
+  let zenVar: ZenVar | null = null;
+  if (inner.kind === "ZenVar") zenVar = inner;
+  else if (inner.kind === "Ident" && parent?.kind === "ZenVar") zenVar = parent;
+
+  let structural: Structural | Paren | null = null;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (
+      node.kind === "Structural" &&
+      offset > node.start &&
+      offset <= node.nodeEnd
+    ) {
+      structural = node;
+      break;
+    }
+    if (node.kind === "Paren" && offset > node.start) {
+      // `(fre` is not a structural node yet, only a parenthesised identifier.
+      const typed = parsed.text.slice(node.start + 1, offset);
+      if (
+        /^\s*[a-zA-Z0-9_-]*$/.test(typed) &&
+        (!node.expr || node.expr.kind === "Ident")
+      ) {
+        structural = node;
+      }
+      break;
+    }
+  }
+
+  let bindingPosition = false;
+  switch (inner.kind) {
+    case "File":
+      bindingPosition = true;
+      break;
+    case "AttrSet":
+      bindingPosition =
+        inner.implicit || (offset > inner.start && offset < inner.end);
+      break;
+    case "Let":
+      bindingPosition = !inner.body || offset < inner.body.start;
+      break;
+    case "Action":
+      bindingPosition = !inner.body && offset <= inner.formEnd;
+      break;
+    case "Binding":
+      bindingPosition =
+        inner.eq === -1 &&
+        inner.path.length === 1 &&
+        offset <= inner.path[0].end;
+      break;
+    case "Ident":
+      bindingPosition =
+        parent?.kind === "Binding" &&
+        parent.eq === -1 &&
+        parent.path[0] === inner;
+      break;
+  }
+
+  return { chain, inComment, inString, bindingPosition, zenVar, structural };
+}
+
+/** An unterminated string runs to the end of the file. */
+function isOpenString(parsed: ParseResult, node: Node): boolean {
+  return node.end === parsed.text.length;
+}
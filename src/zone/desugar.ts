@@ -0,0 +1,717 @@
+// Desugaring of Z.O.N.E. files into the plain NixOS module they stand for,
+// for the "Show desugared Nix" preview and the export to `.nix`.
+//
+// It is a reading aid rather than a compiler: every ZenOS construct becomes
+// its closest module-system equivalent (`enableOption` → `mkEnableOption`,
+// `s!` → `mkIf cfg.enable`, `(freeform id)` → `attrsOf submodule` …) and
+// plain Nix is copied over with only its `$` globals rewritten. Each output
+// line remembers the source line it came from, so the two can be scrolled
+// together.
+
+import {
+  Action,
+  AttrName,
+  Binding,
+  BindingItem,
+  EnableOption,
+  Expr,
+  Import,
+  LetDecl,
+  Node,
+  StringLit,
+  ZenVar,
+  attrNameText,
+  walk,
+} from "./ast";
+import { applyFormatEdits, formatEdits } from "./format";
+import { ParseResult, parse } from "./parser";
+import { CONFIG_ROOT, hasZoneItems } from "./paths";
+
+export interface Desugared {
+  text: string;
+  /** Source line of every line of `text`. */
+  sourceLines: number[];
+}
+
+/** What `$` globals stand for in plain Nix; `$v`, `$f`, `$name`, `$path` and `$type` are handled on their own. */
+const GLOBAL_NIX: Record<string, string> = {
+  cfg: "config",
+  pkgs: "pkgs",
+  deps: "pkgs",
+  lib: "lib",
+  l: "lib.licenses",
+  m: "lib.maintainers",
+  c: `config.${CONFIG_ROOT}.theme.colors`,
+};
+
+/** `lib.types` names of `$type` members that are spelled differently. */
+const TYPE_NIX: Record<string, string> = {
+  string: "str",
+  boolean: "bool",
+  list: "listOf",
+  set: "attrsOf",
+  packages: "listOf lib.types.package",
+  color: "str",
+  function: "raw",
+  either: "oneOf",
+  nullable: "nullOr",
+};
+
+/**
+ * The files an `_import` brings in, nearest first, whose `_let` bindings the
+ * desugared module inlines. Files brought in by an earlier import are left
+ * out.
+ */
+export type ImportedFiles = (node: Import) => ParseResult[];
+
+/** Source text of another file, all of it standing for one line here. */
+interface Foreign {
+  text: string;
+  line: number;
+}
+
+/** Every `_let` of a file, nested ones included. */
+function letDecls(parsed: ParseResult): LetDecl[] {
+  const decls: LetDecl[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind === "LetDecl") decls.push(node);
+  });
+  return decls;
+}
+
+/** Generated text and the source line each of its lines stands for. */
+interface Mapped {
+  text: string;
+  lines: number[];
+}
+
+type OptionTree = Map<string, OptionTree | Mapped>;
+
+/** Key of the entry type of a `(freeform id)` node in its option tree. */
+const FREEFORM = "<freeform>";
+
+/** Where the bindings of one ZenOS node end up. */
+interface Scope {
+  /** Names from the root, for `$name` and `$path`; `${id}` for freeform entries. */
+  names: string[];
+  /** Expression for the node's configuration, e.g. `cfg.browser`. */
+  cfg: string;
+  /** Condition of the nearest enclosing `enableOption`. */
+  enable: string | null;
+  /** Names of the node's own options, which freeform entries must skip. */
+  fixed: string[];
+  options: OptionTree;
+  optionsPath: string[];
+  /** Plain values, as module definitions; empty path inside a freeform entry. */
+  settings: Mapped[];
+  settingsPath: string[];
+  actions: Mapped[];
+}
+
+const IDENT_RE = /^[a-zA-Z_][a-zA-Z0-9_'-]*$/;
+
+function attr(name: string): string {
+  return IDENT_RE.test(name) ? name : JSON.stringify(name);
+}
+
+function join(...parts: Mapped[]): Mapped {
+  let text = "";
+  let lines: number[] = [];
+  for (const part of parts) {
+    if (!part.text) continue;
+    // The first line of a part continues the last line so far
+    lines =
+      lines.length === 0 ? [...part.lines] : [...lines, ...part.lines.slice(1)];
+    text += part.text;
+  }
+  return { text, lines };
+}
+
+/** `part` on a line of its own. */
+function nl(part: Mapped): Mapped {
+  return { text: "\n" + part.text, lines: [part.lines[0], ...part.lines] };
+}
+
+/** `{ item … }` or `[ item … ]` with one item per line. */
+function block(open: string, items: Mapped[], close: string, line: number) {
+  return join(
+    { text: open, lines: [line] },
+    ...items.map(nl),
+    nl({ text: close, lines: [line] }),
+  );
+}
+
+/** `_meta.brief` of an `enableOption`, in either the dotted or the set form. */
+function briefOf(option: EnableOption): StringLit | null {
+  for (const item of option.body.items) {
+    if (item.kind !== "Binding" || attrNameText(item.path[0]) !== "_meta") {
+      continue;
+    }
+    if (item.path.length === 2 && attrNameText(item.path[1]) === "brief") {
+      return item.value?.kind === "String" ? item.value : null;
+    }
+    if (item.path.length === 1 && item.value?.kind === "AttrSet") {
+      const brief = item.value.items.find(
+        (b): b is Binding =>
+          b.kind === "Binding" &&
+          b.path.length === 1 &&
+          attrNameText(b.path[0]) === "brief",
+      );
+      if (brief?.value?.kind === "String") return brief.value;
+    }
+  }
+  return null;
+}
+
+export function desugar(
+  parsed: ParseResult,
+  fileName: string,
+  importedFiles: ImportedFiles = () => [],
+): Desugared {
+  const source = parsed.text;
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") lineStarts.push(i + 1);
+  }
+  const lineOf = (offset: number): number => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+  const gen = (text: string, offset: number): Mapped => ({
+    text,
+    lines: text.split("\n").map(() => lineOf(offset)),
+  });
+
+  const lets: Mapped[] = [];
+  const letNames = new Set(
+    letDecls(parsed).flatMap((decl) => (decl.name ? [decl.name.name] : [])),
+  );
+  const imports: Mapped[] = [];
+  const configs: Mapped[] = [];
+  const options: OptionTree = new Map();
+
+  const zenVar = (node: ZenVar, scope: Scope): string => {
+    const members = node.segments.map((s) => s.name);
+    switch (node.name) {
+      case "v":
+      case "f":
+        return members.join(".") || "null";
+      case "name":
+        return JSON.stringify(scope.names[scope.names.length - 1] ?? "");
+      case "path":
+        return JSON.stringify([CONFIG_ROOT, ...scope.names].join("."));
+      case "type": {
+        const [type, ...rest] = members;
+        const base = type ? `lib.types.${TYPE_NIX[type] ?? type}` : "lib.types";
+        return [base, ...rest].join(".");
+      }
+    }
+    return [GLOBAL_NIX[node.name] ?? node.name, ...members].join(".");
+  };
+
+  /** The source of `node` as plain Nix; `from` when it is in another file. */
+  const code = (node: Node, scope: Scope, from?: Foreign): Mapped => {
+    const text = from?.text ?? source;
+    const at = (generated: string, offset: number): Mapped =>
+      from
+        ? { text: generated, lines: generated.split("\n").map(() => from.line) }
+        : gen(generated, offset);
+    const edits: { start: number; end: number; text: string }[] = [];
+    walk(node, (n) => {
+      switch (n.kind) {
+        case "ZenVar":
+          edits.push({ start: n.start, end: n.end, text: zenVar(n, scope) });
+          return false;
+        case "Cascade":
+          edits.push({
+            start: n.start,
+            end: n.start + 2,
+            text:
+              n.op === "++"
+                ? "lib.mkAfter "
+                : "/* taken from the inherited list: */ lib.subtractLists ",
+          });
+          return;
+        case "Structural": {
+          const arg = n.args[0]?.text;
+          edits.push({
+            start: n.start,
+            end: n.end,
+            text:
+              n.node === "alias" && arg
+                ? `config.${CONFIG_ROOT}.${arg}`
+                : `null /* (${n.node}${arg ? " " + arg : ""}) */`,
+          });
+          return false;
+        }
+        case "EnableOption":
+          edits.push({
+            start: n.start,
+            end: n.end,
+            text: enableOption(n, scope, from).text,
+          });
+          return false;
+        case "Action":
+        case "LetDecl":
+        case "Import":
+          if (n !== node) {
+            edits.push({ start: n.start, end: n.end, text: "" });
+            return false;
+          }
+          return;
+        case "String":
+          // `$name` and `$path` are filled in inside strings, too
+          for (const part of n.parts) {
+            if (part.kind !== "StringChunk") continue;
+            const text = part.raw
+              .replace(/\$name\b/g, scope.names[scope.names.length - 1] ?? "")
+              .replace(/\$path\b/g, [CONFIG_ROOT, ...scope.names].join("."));
+            if (text !== part.raw) {
+              edits.push({ start: part.start, end: part.end, text });
+            }
+          }
+          return;
+      }
+    });
+    const parts: Mapped[] = [];
+    const copy = (start: number, end: number) => {
+      if (end <= start) return;
+      const copied = text.slice(start, end);
+      const first = from ? from.line : lineOf(start);
+      parts.push({
+        text: copied,
+        lines: copied.split("\n").map((_, i) => (from ? first : first + i)),
+      });
+    };
+    let last = node.start;
+    for (const edit of edits.sort((a, b) => a.start - b.start)) {
+      copy(last, edit.start);
+      parts.push(at(edit.text, edit.start));
+      last = edit.end;
+    }
+    copy(last, node.end);
+    return join(...parts);
+  };
+
+  const enableOption = (
+    option: EnableOption,
+    scope: Scope,
+    from?: Foreign,
+  ): Mapped => {
+    const brief = briefOf(option);
+    const name = scope.names[scope.names.length - 1] ?? fileName;
+    return join(
+      gen("lib.mkEnableOption ", option.start),
+      brief
+        ? code(brief, scope, from)
+        : gen(JSON.stringify(name), option.start),
+    );
+  };
+
+  const setOption = (scope: Scope, path: string[], value: Mapped) => {
+    const full = [...scope.optionsPath, ...path];
+    let tree = scope.options;
+    for (const key of full.slice(0, -1)) {
+      let next = tree.get(key);
+      if (!(next instanceof Map)) {
+        next = new Map();
+        tree.set(key, next);
+      }
+      tree = next;
+    }
+    tree.set(full[full.length - 1], value);
+  };
+
+  const descend = (scope: Scope, path: string[]): Scope => ({
+    ...scope,
+    names: [...scope.names, ...path],
+    cfg: [scope.cfg, ...path].join("."),
+    fixed: path.length > 0 ? [] : scope.fixed,
+    optionsPath: [...scope.optionsPath, ...path],
+    settingsPath: [...scope.settingsPath, ...path],
+  });
+
+  /** `{ a.b = value; }`. */
+  const setting = (path: string[], value: Mapped, offset: number) =>
+    join(gen(`{ ${path.join(".")} = `, offset), value, gen("; }", offset));
+
+  const action = (item: Action, scope: Scope): Mapped => {
+    let body = item.body ? code(item.body, scope) : gen("{ }", item.start);
+    if (item.scope === "user") {
+      body = join(
+        gen("{\nhome-manager.sharedModules = [\n", item.start),
+        body,
+        gen("\n];\n}", item.end),
+      );
+    }
+    const conditions: Mapped[] = [];
+    if (item.conditional && scope.enable) {
+      conditions.push(gen(scope.enable, item.start));
+    }
+    if (item.guard) {
+      conditions.push(
+        join(
+          gen("(", item.guardStart),
+          code(item.guard, scope),
+          gen(")", item.guardEnd),
+        ),
+      );
+    }
+    const what = {
+      system: "system configuration",
+      user: "Home Manager configuration",
+      generic: "system or Home Manager configuration, by where it is used",
+    }[item.scope];
+    const comment = gen(`# ${item.form}: ${what}\n`, item.start);
+    if (conditions.length === 0) return join(comment, body);
+    const condition = conditions.reduce((a, b) =>
+      join(a, gen(" && ", item.start), b),
+    );
+    return join(
+      comment,
+      gen(conditions.length > 1 ? "(lib.mkIf (" : "(lib.mkIf ", item.start),
+      condition,
+      gen(conditions.length > 1 ? ") " : " ", item.start),
+      body,
+      gen(")", item.end),
+    );
+  };
+
+  /** A `(freeform id)` node: a submodule for every key besides the node's own options. */
+  const freeform = (
+    scope: Scope,
+    id: string,
+    rest: AttrName[],
+    item: Binding,
+  ) => {
+    const entry = `${id}Cfg`;
+    const line = lineOf(item.start);
+    const child: Scope = {
+      names: [...scope.names, "${" + id + "}"],
+      cfg: entry,
+      enable: scope.enable,
+      fixed: [],
+      options: new Map(),
+      optionsPath: [],
+      settings: [],
+      settingsPath: [],
+      actions: [],
+    };
+    assign(child, rest, item);
+
+    const module = [
+      join(
+        gen("options = ", item.start),
+        renderValue(child.options),
+        gen(";", item.start),
+      ),
+    ];
+    if (child.settings.length > 0) {
+      module.push(block("config = lib.mkMerge [", child.settings, "];", line));
+    }
+    setOption(
+      scope,
+      [FREEFORM],
+      join(
+        gen(
+          `lib.types.attrsOf (lib.types.submodule ({ name, ... }: let ${id} = name; in `,
+          item.start,
+        ),
+        block("{", module, "}", line),
+        gen("))", item.end),
+      ),
+    );
+    if (child.actions.length > 0) {
+      const fixed = [...new Set(scope.fixed)].map((n) => JSON.stringify(n));
+      const entries =
+        fixed.length > 0
+          ? `(builtins.removeAttrs ${scope.cfg} [ ${fixed.join(" ")} ])`
+          : scope.cfg;
+      scope.actions.push(
+        join(
+          gen(
+            `(lib.mkMerge (lib.mapAttrsToList (${id}: ${entry}: `,
+            item.start,
+          ),
+          block("lib.mkMerge [", child.actions, "]", line),
+          gen(`) ${entries}))`, item.end),
+        ),
+      );
+    }
+  };
+
+  /** The binding `path = item.value` inside `scope`. */
+  const assign = (scope: Scope, path: AttrName[], item: Binding) => {
+    const segments: string[] = [];
+    for (const [i, name] of path.entries()) {
+      if (name.kind === "Structural") {
+        const arg = name.args[0]?.text;
+        if (name.node === "freeform" && arg) {
+          freeform(descend(scope, segments), arg, path.slice(i + 1), item);
+          return;
+        }
+        if (name.node === "zmdl" && arg) {
+          imports.push(gen(`./${arg}.nix # (zmdl ${arg})`, name.start));
+          segments.push(attr(arg));
+        } else if (name.node === "programs" || name.node === "packages") {
+          segments.push(name.node);
+        }
+        continue;
+      }
+      const text = attrNameText(name);
+      segments.push(text !== null ? attr(text) : code(name, scope).text);
+    }
+    const value = item.value;
+    if (!value) return;
+    if (segments.length === 0) {
+      if (value.kind === "AttrSet") items(value.items, scope);
+      return;
+    }
+
+    if (value.kind === "EnableOption") {
+      // `foo.enable = enableOption { … }`, or `foo = …` for the same node
+      const last = segments[segments.length - 1];
+      const node = descend(
+        scope,
+        last === "enable" ? segments.slice(0, -1) : segments,
+      );
+      setOption(node, ["enable"], enableOption(value, node));
+      items(value.body.items, {
+        ...node,
+        enable: `${node.cfg}.enable`,
+        fixed: [...node.fixed, "enable"],
+      });
+      return;
+    }
+    if (value.kind === "AttrSet" && hasZoneItems(value)) {
+      items(value.items, descend(scope, segments));
+      return;
+    }
+    const target = [...scope.settingsPath, ...segments];
+    if (target[0] !== CONFIG_ROOT) {
+      // Inside a freeform entry a value is what every entry starts with
+      setOption(
+        scope,
+        segments,
+        join(
+          gen("lib.mkOption { default = ", item.start),
+          code(value, scope),
+          gen("; }", item.end),
+        ),
+      );
+      return;
+    }
+    const alias = value.kind === "Structural" && value.node === "alias";
+    if (alias && value.args[0]) {
+      // Setting either name sets both
+      const list = (p: string[]) =>
+        `[ ${p.map((s) => JSON.stringify(s)).join(" ")} ]`;
+      const to = [CONFIG_ROOT, ...value.args[0].text.split(".")];
+      imports.push(
+        gen(
+          `(lib.mkAliasOptionModule ${list(target)} ${list(to)})`,
+          item.start,
+        ),
+      );
+      return;
+    }
+    scope.settings.push(setting(target, code(value, scope), item.start));
+  };
+
+  const items = (list: BindingItem[], outer: Scope) => {
+    const scope = { ...outer, fixed: [...outer.fixed] };
+    const names = (bindings: BindingItem[]) => {
+      for (const item of bindings) {
+        if (item.kind !== "Binding" || !item.path[0]) continue;
+        const name = attrNameText(item.path[0]);
+        if (name === null || name === "_meta") continue;
+        scope.fixed.push(name);
+        // `enable = enableOption { … }` next to the node's actions
+        if (
+          name === "enable" &&
+          item.path.length === 1 &&
+          item.value?.kind === "EnableOption"
+        ) {
+          scope.enable = `${scope.cfg}.enable`;
+          names(item.value.body.items);
+        }
+      }
+    };
+    names(list);
+    for (const item of list) {
+      switch (item.kind) {
+        case "Import":
+          if (item.target) {
+            const target = source.slice(item.target.start, item.target.end);
+            lets.push(gen(`# _let variables of ${target}`, item.start));
+            for (const imported of importedFiles(item)) {
+              const from = { text: imported.text, line: lineOf(item.start) };
+              for (const decl of letDecls(imported)) {
+                // A file's own `_let` shadows an imported one
+                if (!decl.name || !decl.value || letNames.has(decl.name.name)) {
+                  continue;
+                }
+                letNames.add(decl.name.name);
+                lets.push(
+                  join(
+                    gen(`${decl.name.name} = `, item.start),
+                    code(decl.value, scope, from),
+                    gen(";", item.start),
+                  ),
+                );
+              }
+            }
+          }
+          break;
+        case "LetDecl":
+          if (item.name && item.value) {
+            lets.push(
+              join(
+                gen(`${item.name.name} = `, item.start),
+                code(item.value, scope),
+                gen(";", item.end),
+              ),
+            );
+          }
+          break;
+        case "Action":
+          scope.actions.push(action(item, scope));
+          break;
+        case "Inherit": {
+          const inherit = join(
+            gen("{ ", item.start),
+            code(item, scope),
+            gen(" }", item.end),
+          );
+          scope.settings.push(
+            scope.settingsPath.length > 0
+              ? setting(scope.settingsPath, inherit, item.start)
+              : inherit,
+          );
+          break;
+        }
+        case "Binding":
+          // Metadata of the node; its brief already describes the option
+          if (attrNameText(item.path[0]) === "_meta") break;
+          assign(scope, item.path, item);
+          break;
+      }
+    }
+  };
+
+  /** An option tree as a set, or as one option when it holds freeform entries. */
+  const renderValue = (value: OptionTree | Mapped): Mapped => {
+    if (!(value instanceof Map)) return value;
+    const type = value.get(FREEFORM);
+    if (!type || type instanceof Map) {
+      const fields = [...value].map(([key, field]) => {
+        const rendered = renderValue(field);
+        return join(
+          { text: `${key} = `, lines: [rendered.lines[0]] },
+          rendered,
+          { text: ";", lines: [rendered.lines[rendered.lines.length - 1]] },
+        );
+      });
+      return block("{", fields, "}", fields[0]?.lines[0] ?? 0);
+    }
+    const line = type.lines[0];
+    const at = (text: string): Mapped => ({ text, lines: [line] });
+    const own = new Map([...value].filter(([key]) => key !== FREEFORM));
+    const typed =
+      own.size === 0
+        ? type
+        : join(
+            at("lib.types.submodule "),
+            block(
+              "{",
+              [
+                join(at("freeformType = "), type, at(";")),
+                join(at("options = "), renderValue(own), at(";")),
+              ],
+              "}",
+              line,
+            ),
+          );
+    return block(
+      "lib.mkOption {",
+      [join(at("type = "), typed, at(";")), at("default = { };")],
+      "}",
+      line,
+    );
+  };
+
+  let body: Expr | null = parsed.file.body;
+  while (body?.kind === "Lambda") body = body.body;
+  if (body?.kind === "AttrSet") {
+    items(body.items, {
+      names: [],
+      cfg: "cfg",
+      enable: null,
+      fixed: [],
+      options,
+      optionsPath: [],
+      settings: configs,
+      settingsPath: [CONFIG_ROOT],
+      actions: configs,
+    });
+  }
+
+  const sections: Mapped[] = [];
+  if (imports.length > 0) sections.push(block("imports = [", imports, "];", 0));
+  if (options.size > 0) {
+    sections.push(
+      join(
+        gen(`options.${CONFIG_ROOT} = `, 0),
+        renderValue(options),
+        gen(";", 0),
+      ),
+    );
+  }
+  if (configs.length > 0) {
+    sections.push(block("config = lib.mkMerge [", configs, "];", 0));
+  }
+  const module = join(
+    gen(
+      `# ${fileName}, desugared to plain Nix\n{ config, lib, pkgs, ... }:\n`,
+      0,
+    ),
+    block("let", [gen(`cfg = config.${CONFIG_ROOT};`, 0), ...lets], "in", 0),
+    gen("\n", 0),
+    block("{", sections, "}", 0),
+    gen("\n", 0),
+  );
+  return formatted(module);
+}
+
+/** Lay out the generated text with the formatter, keeping the line map. */
+function formatted(module: Mapped): Desugared {
+  const edits = formatEdits(parse(module.text));
+  const text = applyFormatEdits(module.text, edits);
+  // The formatter only drops blank lines; follow the line numbers along
+  const sourceLines: number[] = [];
+  let removed = 0;
+  let e = 0;
+  let offset = 0;
+  module.text.split("\n").forEach((line, i) => {
+    while (e < edits.length && edits[e].end <= offset) {
+      const edit = edits[e++];
+      removed +=
+        module.text.slice(edit.start, edit.end).split("\n").length -
+        edit.text.split("\n").length;
+    }
+    sourceLines[i - removed] ??= module.lines[i];
+    offset += line.length + 1;
+  });
+  const count = text.split("\n").length;
+  sourceLines.length = count;
+  for (let i = 0; i < count; i++) {
+    sourceLines[i] ??= sourceLines[i - 1] ?? 0;
+  }
+  return { text, sourceLines };
+}
@@ -0,0 +1,41 @@
+// Whether a plain `.nix` file is written in Z.O.N.E.: it says so with a
+// `# zen-nix` marker comment, or it uses any of the extensions (actions,
+// `$` variables, `_let`/`_import`, `_meta`/`_src`/`_build`, structural nodes,
+// cascades or `enableOption`).
+
+import { LEGACY_ACTIONS, Node, attrNameText, walk } from "./ast";
+import { ParseResult } from "./parser";
+import { BLOCK_DOCS } from "./schema";
+
+/** `# zen-nix`, or `zen-nix` in a block comment, on a line of its own. */
+const MARKER =
+  /^[ \t]*(?:#[ \t]*zen-nix[ \t]*|\/\*[ \t]*zen-nix[ \t]*\*\/[ \t]*)$/m;
+
+const ZONE_NODES: Node["kind"][] = [
+  "ZenVar",
+  "Structural",
+  "Cascade",
+  "EnableOption",
+  "LetDecl",
+  "Import",
+  "Action",
+];
+
+export function hasZoneMarker(text: string): boolean {
+  return MARKER.test(text);
+}
+
+export function usesZone(parsed: ParseResult): boolean {
+  if (hasZoneMarker(parsed.text)) return true;
+  let found = false;
+  walk(parsed.file, (node: Node) => {
+    if (found) return false;
+    if (ZONE_NODES.includes(node.kind)) {
+      found = true;
+    } else if (node.kind === "Binding") {
+      const name = node.path[0] && attrNameText(node.path[0]);
+      found = !!name && (name in BLOCK_DOCS || name in LEGACY_ACTIONS);
+    }
+  });
+  return found;
+}
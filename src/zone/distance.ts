@@ -0,0 +1,45 @@
+// Edit distance, for "did you mean" suggestions, and fuzzy matching for
+// completion.
+
+/** Levenshtein distance between two strings. */
+export function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * How well `query` matches `candidate`, lower being better, or null when
+ * the letters of `query` do not appear in order. Prefixes rank above
+ * substrings, substrings above scattered letters, short names above long.
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+  const q = query.toLowerCase();
+  const c = candidate.toLowerCase();
+  const extra = c.length - q.length;
+  if (c.startsWith(q)) return extra;
+  const at = c.indexOf(q);
+  if (at !== -1) return 1000 + at + extra;
+  let gaps = 0;
+  let last = -1;
+  let j = 0;
+  for (let i = 0; i < c.length && j < q.length; i++) {
+    if (c[i] !== q[j]) continue;
+    if (last !== -1) gaps += i - last - 1;
+    last = i;
+    j++;
+  }
+  return j === q.length ? 2000 + gaps + extra : null;
+}
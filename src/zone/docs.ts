@@ -0,0 +1,193 @@
+// Documentation for the Z.O.N.E. vocabulary. `detail` is the one-line text
+// completion shows; `doc` is the markdown hover shows.
+
+export interface Doc {
+  detail: string;
+  doc: string;
+}
+
+export const GLOBAL_DOCS: Record<string, Doc> = {
+  type: {
+    detail: "The ZenOS Type System",
+    doc: "Types for `_let` annotations and options, e.g. `$type.string` or `$type.list of $type.int`.",
+  },
+  cfg: {
+    detail: "Global Evaluated Configuration",
+    doc: "The fully evaluated configuration. `$cfg.<path>` reads any option value, including those set by other modules.",
+  },
+  pkgs: {
+    detail: "ZenPkgs (Packages Only)",
+    doc: "The package set. Only packages are exposed, not the rest of nixpkgs; use `$lib` for library functions.",
+  },
+  path: {
+    detail: "Nix-path to current module",
+    doc: "Attribute path of the current node, e.g. `zenos.desktops.gnome`. Useful in option descriptions and assertions.",
+  },
+  name: {
+    detail: "Name of current node",
+    doc: "The last element of `$path`: the attribute name the current node is bound to.",
+  },
+  v: {
+    detail: "Access _let variables",
+    doc: "`$v.<name>` reads a `_let` variable declared in this file or one it imports.",
+  },
+  f: {
+    detail: "Access freeform identifiers",
+    doc: "`$f.<id>` reads the key a `(freeform id)` node was given by the user.",
+  },
+  c: {
+    detail: "Color primitives",
+    doc: "Named colors of the active theme, e.g. `$c.accent`.",
+  },
+  lib: {
+    detail: "Nixpkgs library",
+    doc: "The nixpkgs `lib`, e.g. `$lib.mkDefault` or `$lib.optionals`.",
+  },
+  l: {
+    detail: "Licenses",
+    doc: "License definitions for `_meta.license`, e.g. `$l.mit`.",
+  },
+  m: {
+    detail: "Maintainers",
+    doc: "Maintainer definitions for `_meta.maintainers`, e.g. `[ $m.alice ]`.",
+  },
+  deps: {
+    detail: "Runtime deps (resolved store paths) — .zpkg only",
+    doc: "Store paths of the package's runtime dependencies, resolved at build time. Only available in `.zpkg` files.",
+  },
+};
+
+export const TYPE_DOCS: Record<string, string> = {
+  boolean: "`true` or `false`.",
+  bool: "`true` or `false`. Same as `$type.boolean`.",
+  string: "A string.",
+  int: "An integer.",
+  float: "A floating point number; integers are accepted too.",
+  null: "Only `null`.",
+  set: "An attribute set. `$type.set of t` requires every value to be a `t`.",
+  list: "A list. `$type.list of t` requires every element to be a `t`.",
+  path: 'A path: `./file`, `/abs/file` or a string such as `"/etc/x"`.',
+  package: "A single package (derivation), usually `$pkgs.<name>`.",
+  packages: "A list of packages, e.g. `[ $pkgs.git $pkgs.curl ]`.",
+  color: 'A color: `"#rrggbb"`, `"rgb(…)"` or a `$c.` name.',
+  function: "Any function.",
+  functionTo:
+    "A function returning the given type: `$type.functionTo $type.string`.",
+  enum: 'One of the listed strings: `$type.enum [ "a" "b" ]`.',
+  either:
+    "A value of any of the listed types: `$type.either [ $type.int $type.string ]`.",
+  nullable: "`null` or the given type: `$type.nullable $type.path`.",
+};
+
+export const ACTION_DOCS: Record<string, Doc> = {
+  "!": {
+    detail: "Conditional action (generic)",
+    doc: "Applies its body when the surrounding option is enabled. Targets the system or the user configuration depending on where the module is used.",
+  },
+  "!!": {
+    detail: "Unconditional action (generic)",
+    doc: "Always applies its body, whether or not the surrounding option is enabled. Targets the system or the user configuration depending on where the module is used.",
+  },
+  "s!": {
+    detail: "Conditional system action",
+    doc: "Applies its body to the NixOS system configuration when the surrounding option is enabled.",
+  },
+  "s!!": {
+    detail: "Unconditional system action",
+    doc: "Always applies its body to the NixOS system configuration.",
+  },
+  "u!": {
+    detail: "Conditional user/HM action",
+    doc: "Applies its body to the Home Manager (user) configuration when the surrounding option is enabled.",
+  },
+  "u!!": {
+    detail: "Unconditional user/HM action",
+    doc: "Always applies its body to the Home Manager (user) configuration.",
+  },
+};
+
+/** Added to an action's hover when it has a `[guard]`. */
+export const GUARD_DOC =
+  "The `[…]` guard adds a condition: the body only applies when it is true as well.";
+
+export const STRUCTURAL_DOCS: Record<string, Doc> = {
+  freeform: {
+    detail: "Open attr set with dynamic key name",
+    doc: "`(freeform id)` accepts any key in its place. The key the user chose is available as `$f.id`.",
+  },
+  zmdl: {
+    detail: "Attach a .zmdl module",
+    doc: "`(zmdl name)` attaches the module defined in `name.zmdl` at this point of the tree.",
+  },
+  alias: {
+    detail: "Alias to another config path",
+    doc: "`(alias path)` makes this node another name for the option at `path`; setting either sets both.",
+  },
+  programs: {
+    detail: "Programs namespace scope",
+    doc: "`(programs)` scopes its body to the `programs` namespace.",
+  },
+  packages: {
+    detail: "Packages namespace scope",
+    doc: "`(packages)` scopes its body to the package set of the surrounding module.",
+  },
+  group: {
+    detail: "Group of options",
+    doc: "`(group)` groups related options under one node without adding an enable option.",
+  },
+  needs: {
+    detail: "Dependencies of the node",
+    doc: "`(needs)` lists what the node requires to be enabled alongside it.",
+  },
+};
+
+/** The argument of structural nodes that take one, for signature help. */
+export const STRUCTURAL_ARGS: Record<string, { name: string; doc: string }> = {
+  freeform: {
+    name: "id",
+    doc: "Name of the chosen key inside the entry: `$f.id` reads it.",
+  },
+  zmdl: {
+    name: "name",
+    doc: "Module to attach: `name.zmdl` next to this file, under a workspace root or anywhere in the workspace.",
+  },
+  alias: {
+    name: "path",
+    doc: "Config path below `zenos.` that this node stands for, e.g. `desktop.shell.bar`.",
+  },
+};
+
+export const CASCADE_DOCS: Record<"++" | "--", Doc> = {
+  "++": {
+    detail: "Cascade: add to the inherited list",
+    doc: "`++[ … ]` appends its elements to the value inherited from parent nodes instead of replacing it.",
+  },
+  "--": {
+    detail: "Cascade: remove from the inherited list",
+    doc: "`--[ … ]` removes its elements from the value inherited from parent nodes.",
+  },
+};
+
+export const ENABLE_OPTION_DOC: Doc = {
+  detail: "ZenOS: Standard boolean enable option sugar",
+  doc: "`enableOption { … }` declares a boolean `enable` option for this node. `_meta.brief` becomes its description and the actions in the body apply when it is enabled.",
+};
+
+/** What an `enableOption { … }` body holds, for signature help. */
+export const ENABLE_OPTION_PARTS: Record<
+  "brief" | "description" | "action",
+  Doc
+> = {
+  brief: {
+    detail: "_meta.brief",
+    doc: "One-line summary, used as the option's description. `$name` and `$path` are filled in.",
+  },
+  description: {
+    detail: "_meta.description",
+    doc: "Longer description of the option.",
+  },
+  action: {
+    detail: "s! { … }",
+    doc: "Actions in the body apply when the option is enabled: `s!` to the system, `u!` to Home Manager, `!` to whichever the module is used for.",
+  },
+};
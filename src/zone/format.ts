@@ -0,0 +1,352 @@
+// Formatter for ZenOS-extended Nix.
+//
+// Only the whitespace between tokens is ever rewritten. Line breaks stay
+// where the author put them (at most one blank line in a row), every line is
+// indented from the brackets that enclose it, and spacing within a line is
+// normalized. Strings and comments are kept verbatim; the body of an
+// indented string moves along with the line it starts on. Because the result
+// depends only on the tokens and the line breaks, formatting is idempotent.
+//
+// The output is a list of small edits rather than a new text, so that range
+// and on-type formatting can apply just the ones they are interested in.
+
+import { walk } from "./ast";
+import { Comment, Token, tokenize } from "./lexer";
+import { ParseResult } from "./parser";
+
+export interface FormatEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const INDENT = "  ";
+
+/** A token, a whole string literal or a comment: what spacing goes between. */
+interface Item {
+  kind: "token" | "string" | "comment";
+  text: string;
+  start: number;
+  end: number;
+  token?: Token;
+  /** Tokens of a string literal, including any interpolations. */
+  parts?: Token[];
+  /** A string or block comment that runs to the end of the file. */
+  unterminated?: boolean;
+}
+
+/** An open bracket, `${` or `let`, waiting for its closer. */
+interface Scope {
+  closer: string;
+  openerStart: number;
+  /** Indentation level of the line that opened the scope. */
+  outer: number;
+  /** True when the scope holds bindings, so statements can span lines. */
+  bindings: boolean;
+}
+
+/** What the formatter needs to know from the AST. */
+interface Syntax {
+  bindingBraces: Set<number>;
+  statementEnds: Set<number>;
+  letColons: Set<number>;
+  unaryOps: Set<number>;
+  cascades: Set<number>;
+  actionForms: [number, number][];
+  fileBindings: boolean;
+}
+
+function collectSyntax(parsed: ParseResult): Syntax {
+  const syntax: Syntax = {
+    bindingBraces: new Set(),
+    statementEnds: new Set(),
+    letColons: new Set(),
+    unaryOps: new Set(),
+    cascades: new Set(),
+    actionForms: [],
+    fileBindings:
+      parsed.file.body?.kind === "AttrSet" && parsed.file.body.implicit,
+  };
+  walk(parsed.file, (node) => {
+    switch (node.kind) {
+      case "AttrSet":
+        if (!node.implicit) {
+          syntax.bindingBraces.add(
+            node.rec ? parsed.text.indexOf("{", node.start) : node.start,
+          );
+        }
+        node.items.forEach((item) => syntax.statementEnds.add(item.end));
+        break;
+      case "Let":
+        node.items.forEach((item) => syntax.statementEnds.add(item.end));
+        break;
+      case "LetDecl":
+        if (node.name) syntax.letColons.add(node.name.end);
+        break;
+      case "Unary":
+        syntax.unaryOps.add(node.start);
+        break;
+      case "Cascade":
+        syntax.cascades.add(node.start);
+        break;
+      case "Action":
+        syntax.actionForms.push([node.start, node.formEnd]);
+        break;
+    }
+  });
+  return syntax;
+}
+
+/** Tokens and comments in source order, each string literal as one item. */
+function collectItems(parsed: ParseResult): Item[] {
+  const tokens = parsed.tokens.filter((t) => t.type !== "eof");
+  const code: Item[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "str_open" && token.type !== "ind_open") {
+      const { text, start, end } = token;
+      code.push({ kind: "token", text, start, end, token });
+      continue;
+    }
+    let depth = 0;
+    let j = i;
+    for (; j < tokens.length; j++) {
+      const type = tokens[j].type;
+      if (type === "str_open" || type === "ind_open") depth++;
+      if (type === "str_close" || type === "ind_close") depth--;
+      if (depth === 0) break;
+    }
+    const unterminated = j === tokens.length;
+    j = Math.min(j, tokens.length - 1);
+    const start = token.start;
+    const end = tokens[j].end;
+    code.push({
+      kind: "string",
+      text: parsed.text.slice(start, end),
+      start,
+      end,
+      parts: tokens.slice(i, j + 1),
+      unterminated,
+    });
+    i = j;
+  }
+
+  // Comments inside a string's interpolations belong to the string
+  const items: Item[] = [];
+  let c = 0;
+  const comments = parsed.comments;
+  const comment = (com: Comment): Item => {
+    // A line comment runs up to the `\n`, so it keeps the `\r` of a CRLF
+    const cr = !com.block && com.text.endsWith("\r") ? 1 : 0;
+    return {
+      kind: "comment",
+      text: com.text.slice(0, com.text.length - cr),
+      start: com.start,
+      end: com.end - cr,
+      unterminated:
+        com.block && !(com.text.length >= 4 && com.text.endsWith("*/")),
+    };
+  };
+  for (const item of code) {
+    while (c < comments.length && comments[c].start < item.start) {
+      items.push(comment(comments[c++]));
+    }
+    while (c < comments.length && comments[c].end <= item.end) c++;
+    items.push(item);
+  }
+  while (c < comments.length) items.push(comment(comments[c++]));
+  return items;
+}
+
+/** Closers by opener; `${` is closed by an `interp_close` token. */
+const OPENERS: Record<string, string> = {
+  "{": "}",
+  "[": "]",
+  "(": ")",
+  "${": "interp_close",
+  let: "in",
+};
+
+/** Whether two tokens lex the same when written without a space. */
+function canJoin(a: Item, b: Item): boolean {
+  if (a.kind !== "token" || b.kind !== "token") return true;
+  const tokens = tokenize(a.text + b.text).tokens.filter(
+    (t) => t.type !== "eof",
+  );
+  return (
+    tokens.length === 2 &&
+    tokens[0].text === a.text &&
+    tokens[1].text === b.text
+  );
+}
+
+/** The space between two items on the same line: "" or " ". */
+function spacing(a: Item, b: Item, syntax: Syntax): string {
+  if (a.kind === "comment" || b.kind === "comment") return " ";
+  if (
+    syntax.actionForms.some(
+      ([start, formEnd]) => a.start >= start && b.end <= formEnd,
+    )
+  ) {
+    return "";
+  }
+  const x = a.kind === "token" ? a.text : "";
+  const y = b.kind === "token" ? b.text : "";
+  if (y === ";" || y === ",") return "";
+  if (x === "." || y === ".") return "";
+  if (x === "(" || y === ")") return "";
+  if (x === "@" || y === "@") return "";
+  if (a.token?.type === "interp_open" || b.token?.type === "interp_close") {
+    return "";
+  }
+  // `_let name : type` versus `arg: body`
+  if (y === ":") return syntax.letColons.has(a.end) ? " " : "";
+  if (syntax.unaryOps.has(a.start)) return "";
+  if (syntax.cascades.has(a.start)) return "";
+  return " ";
+}
+
+/** Edits that format the whole document. Empty when it is already formatted. */
+export function formatEdits(parsed: ParseResult): FormatEdit[] {
+  const text = parsed.text;
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const syntax = collectSyntax(parsed);
+  const items = collectItems(parsed);
+  const edits: FormatEdit[] = [];
+  if (items.length === 0) return edits;
+
+  const replace = (start: number, end: number, value: string) => {
+    if (text.slice(start, end) !== value) {
+      edits.push({ start, end, text: value });
+    }
+  };
+
+  const scopes: Scope[] = [
+    { closer: "", openerStart: -1, outer: 0, bindings: syntax.fileBindings },
+  ];
+  /** Index of the innermost open scope `item` closes, or -1. */
+  const closes = (item: Item): number => {
+    if (item.kind !== "token") return -1;
+    const key =
+      item.token!.type === "interp_close" ? "interp_close" : item.text;
+    for (let i = scopes.length - 1; i > 0; i--) {
+      if (scopes[i].closer === key) return i;
+    }
+    return -1;
+  };
+
+  // Indentation level of the line being written, and how far it moved
+  let level = 0;
+  let shift = 0;
+  let last: Item | null = null;
+  let lastCode: Item | null = null;
+
+  const levelOf = (item: Item): number => {
+    const closing = closes(item);
+    if (closing !== -1) return scopes[closing].outer;
+    const scope = scopes[scopes.length - 1];
+    const inner = scope.openerStart === -1 ? 0 : scope.outer + 1;
+    const continues =
+      scope.bindings &&
+      lastCode !== null &&
+      lastCode.start > scope.openerStart &&
+      !syntax.statementEnds.has(lastCode.end);
+    return continues ? inner + 1 : inner;
+  };
+
+  for (const item of items) {
+    const gapStart = last ? last.end : 0;
+    const gap = text.slice(gapStart, item.start);
+    const breaks = gap.split("\n").length - 1;
+    if (!last || breaks > 0) {
+      level = levelOf(item);
+      const indent = INDENT.repeat(level);
+      const old = gap.slice(gap.lastIndexOf("\n") + 1);
+      shift = /^ *$/.test(old) ? indent.length - old.length : 0;
+      if (/\S/.test(gap)) {
+        shift = 0;
+      } else if (!last) {
+        replace(0, item.start, indent);
+      } else {
+        replace(gapStart, item.start, eol.repeat(Math.min(breaks, 2)) + indent);
+      }
+    } else if (!/\S/.test(gap)) {
+      let space = spacing(last, item, syntax);
+      if (space === "" && gap !== "" && !canJoin(last, item)) space = " ";
+      replace(gapStart, item.start, space);
+    }
+
+    if (item.kind === "comment") {
+      shiftLines([item], shift, text, replace);
+    } else if (item.kind === "string" && item.parts![0].type === "ind_open") {
+      const chunks = item.parts!.filter((t) => t.type === "ind_chunk");
+      shiftLines(chunks, shift, text, replace);
+    }
+
+    if (item.kind === "token") {
+      const closing = closes(item);
+      const closer = OPENERS[item.text];
+      if (closing !== -1) {
+        scopes.length = closing;
+      } else if (closer) {
+        scopes.push({
+          closer,
+          openerStart: item.start,
+          outer: level,
+          bindings: item.text === "let" || syntax.bindingBraces.has(item.start),
+        });
+      }
+    }
+    if (item.kind !== "comment") lastCode = item;
+    last = item;
+  }
+
+  // Text the tokens do not cover (an unterminated string) is left alone, and
+  // a final newline would end up inside it
+  if (!last!.unterminated && !/\S/.test(text.slice(last!.end))) {
+    replace(last!.end, text.length, eol);
+  }
+  return edits;
+}
+
+/**
+ * Move the lines that start within `spans` by `shift` columns, so the body
+ * of a block comment or indented string keeps its place relative to the
+ * line it starts on. Nix strips the common indentation of indented strings,
+ * so this does not change their value.
+ */
+function shiftLines(
+  spans: { start: number; end: number }[],
+  shift: number,
+  text: string,
+  replace: (start: number, end: number, value: string) => void,
+) {
+  if (shift === 0) return;
+  const runs: number[] = [];
+  for (const part of spans) {
+    for (let i = part.start; i < part.end; i++) {
+      if (text[i] !== "\n") continue;
+      let end = i + 1;
+      while (end < part.end && text[end] === " ") end++;
+      // Lines with nothing on them keep whatever they have
+      if (end < text.length && /[\r\n]/.test(text[end])) continue;
+      if (end - (i + 1) < -shift) return;
+      runs.push(i + 1);
+    }
+  }
+  for (const start of runs) {
+    if (shift > 0) replace(start, start, " ".repeat(shift));
+    else replace(start, start - shift, "");
+  }
+}
+
+/** The text with the edits applied; they must be sorted and disjoint. */
+export function applyFormatEdits(text: string, edits: FormatEdit[]): string {
+  let out = "";
+  let last = 0;
+  for (const edit of edits) {
+    out += text.slice(last, edit.start) + edit.text;
+    last = edit.end;
+  }
+  return out + text.slice(last);
+}
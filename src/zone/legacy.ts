@@ -0,0 +1,101 @@
+// Legacy action spellings and the bang shorthand each becomes:
+// `_saction = { … };` → `s! { … };`, `_uaction_unconditional = lib.mkIf c { … };`
+// → `u!! [c] { … };`, `_action.foo = 1;` → `! { foo = 1; };` and
+// `s! = { … }` → `s! { … }`.
+
+import { Expr, LEGACY_ACTIONS, Node, attrNameText, walk } from "./ast";
+import { ParseResult } from "./parser";
+
+export interface LegacyAction {
+  /** The legacy spelling, as flagged. */
+  start: number;
+  end: number;
+  /** The shorthand it becomes. */
+  form: string;
+  message: string;
+  /** The rewrite; null when the value is not something an action holds. */
+  edit: { start: number; end: number; text: string } | null;
+}
+
+/** `mkIf cond { … }` or `lib.mkIf cond { … }` → the condition and the set. */
+function mkIf(value: Expr): { guard: Expr; body: Expr } | null {
+  if (value.kind !== "Apply" || value.fn.kind !== "Apply") return null;
+  const fn = value.fn.fn;
+  const name =
+    fn.kind === "Ident"
+      ? fn.name
+      : fn.kind === "Select"
+        ? attrNameText(fn.path[fn.path.length - 1])
+        : null;
+  if (name !== "mkIf" || value.arg.kind !== "AttrSet") return null;
+  return { guard: value.fn.arg, body: value.arg };
+}
+
+export function legacyActions(parsed: ParseResult): LegacyAction[] {
+  const text = parsed.text;
+  const source = (node: { start: number; end: number }) =>
+    text.slice(node.start, node.end);
+  const found: LegacyAction[] = [];
+
+  walk(parsed.file, (node: Node) => {
+    if (node.kind === "Action") {
+      const eq = /^\s*=/.exec(text.slice(node.formEnd));
+      if (eq) {
+        found.push({
+          start: node.start,
+          end: node.formEnd,
+          form: node.form,
+          message: `'${node.form} =' is a legacy spelling; write '${node.form} { … }'.`,
+          edit: {
+            start: node.formEnd,
+            end: node.formEnd + eq[0].length,
+            text: "",
+          },
+        });
+      }
+      return;
+    }
+    if (node.kind !== "Binding") return;
+    const head = node.path[0];
+    const name = head && attrNameText(head);
+    const form = name ? LEGACY_ACTIONS[name] : undefined;
+    if (!form) return;
+    const value = node.value;
+    let edit: LegacyAction["edit"] = null;
+    if (value && node.path.length > 1) {
+      // `_saction.foo.bar = v;` sets a single option
+      const rest = text.slice(
+        node.path[1].start,
+        node.path[node.path.length - 1].end,
+      );
+      edit = {
+        start: node.start,
+        end: node.semi !== -1 ? node.semi + 1 : node.end,
+        text: `${form} { ${rest} = ${source(value)}; };`,
+      };
+    } else if (value?.kind === "AttrSet" && !value.implicit) {
+      edit = { start: node.start, end: value.start, text: `${form} ` };
+    } else if (value) {
+      const guarded = mkIf(value);
+      if (guarded) {
+        const guard =
+          guarded.guard.kind === "Paren" && guarded.guard.expr
+            ? guarded.guard.expr
+            : guarded.guard;
+        edit = {
+          start: node.start,
+          end: guarded.body.start,
+          text: `${form} [${source(guard)}] `,
+        };
+      }
+    }
+    found.push({
+      start: head.start,
+      end: head.end,
+      form,
+      message: `'${name}' is deprecated; write '${form} { … }'.`,
+      edit,
+    });
+  });
+  return found;
+}
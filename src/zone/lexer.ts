@@ -0,0 +1,322 @@
+// Tokenizer for ZenOS-extended Nix.
+//
+// The whole document is tokenized up front into a flat array. Strings are
+// split into chunk/interpolation tokens using a small mode stack, so the
+// parser never has to re-scan source text. Comments are collected on the
+// side because the formatter and the outline need them, the parser does not.
+
+export type TokenType =
+  | "id"
+  | "int"
+  | "float"
+  | "path"
+  | "spath"
+  | "uri"
+  | "zvar"
+  | "str_open"
+  | "str_chunk"
+  | "str_close"
+  | "ind_open"
+  | "ind_chunk"
+  | "ind_close"
+  | "interp_open"
+  | "interp_close"
+  | "op"
+  | "eof";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface Comment {
+  text: string;
+  start: number;
+  end: number;
+  block: boolean;
+}
+
+export interface LexError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  comments: Comment[];
+  errors: LexError[];
+}
+
+const OPERATORS = [
+  "...",
+  "++",
+  "//",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "->",
+  "{",
+  "}",
+  "[",
+  "]",
+  "(",
+  ")",
+  ";",
+  ":",
+  ",",
+  ".",
+  "=",
+  "?",
+  "@",
+  "+",
+  "-",
+  "*",
+  "/",
+  "<",
+  ">",
+  "!",
+];
+
+const ID_RE = /[a-zA-Z_][a-zA-Z0-9_'-]*/y;
+const ZVAR_RE = /\$[a-zA-Z_]?[a-zA-Z0-9_-]*/y;
+const FLOAT_RE = /(?:[1-9][0-9]*\.[0-9]*|0?\.[0-9]+)(?:[Ee][+-]?[0-9]+)?/y;
+const INT_RE = /[0-9]+/y;
+const PATH_RE = /[a-zA-Z0-9._+~-]*(?:\/[a-zA-Z0-9._+-]+)+\/?/y;
+const HPATH_RE = /~(?:\/[a-zA-Z0-9._+-]+)+\/?/y;
+const SPATH_RE = /<[a-zA-Z0-9._+-]+(?:\/[a-zA-Z0-9._+-]+)*>/y;
+const URI_RE = /[a-zA-Z][a-zA-Z0-9+.-]*:[a-zA-Z0-9%/?:@&=+$,_.!~*'-]+/y;
+
+function matchAt(re: RegExp, text: string, pos: number): string | null {
+  re.lastIndex = pos;
+  const m = re.exec(text);
+  return m && m[0].length > 0 ? m[0] : null;
+}
+
+type Mode = { kind: "code"; depth: number } | { kind: "str" } | { kind: "ind" };
+
+export function tokenize(text: string): LexResult {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  const errors: LexError[] = [];
+  // The bottom of the stack is the document itself; every `${` pushes a code
+  // mode that is popped by its matching `}`.
+  const modes: Mode[] = [{ kind: "code", depth: 0 }];
+  let pos = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    tokens.push({ type, text: text.slice(start, end), start, end });
+  };
+
+  while (pos < text.length) {
+    const mode = modes[modes.length - 1];
+
+    if (mode.kind === "str") {
+      const start = pos;
+      while (pos < text.length) {
+        const c = text[pos];
+        if (c === "\\") {
+          pos += 2;
+        } else if (c === '"' || (c === "$" && text[pos + 1] === "{")) {
+          break;
+        } else {
+          pos++;
+        }
+      }
+      pos = Math.min(pos, text.length);
+      if (pos > start) push("str_chunk", start, pos);
+      if (pos >= text.length) break;
+      if (text[pos] === '"') {
+        push("str_close", pos, pos + 1);
+        pos++;
+        modes.pop();
+      } else {
+        push("interp_open", pos, pos + 2);
+        pos += 2;
+        modes.push({ kind: "code", depth: 0 });
+      }
+      continue;
+    }
+
+    if (mode.kind === "ind") {
+      const start = pos;
+      let closed = false;
+      while (pos < text.length) {
+        if (text.startsWith("''", pos)) {
+          const next = text[pos + 2];
+          if (next === "$" || next === "'") {
+            pos += 3;
+            continue;
+          }
+          if (next === "\\") {
+            pos += 4;
+            continue;
+          }
+          closed = true;
+          break;
+        }
+        if (text[pos] === "$" && text[pos + 1] === "{") break;
+        pos++;
+      }
+      pos = Math.min(pos, text.length);
+      if (pos > start) push("ind_chunk", start, pos);
+      if (pos >= text.length) break;
+      if (closed) {
+        push("ind_close", pos, pos + 2);
+        pos += 2;
+        modes.pop();
+      } else {
+        push("interp_open", pos, pos + 2);
+        pos += 2;
+        modes.push({ kind: "code", depth: 0 });
+      }
+      continue;
+    }
+
+    const c = text[pos];
+
+    if (c === " " || c === "\t" || c === "\r" || c === "\n") {
+      pos++;
+      continue;
+    }
+
+    if (c === "#") {
+      const start = pos;
+      while (pos < text.length && text[pos] !== "\n") pos++;
+      comments.push({
+        text: text.slice(start, pos),
+        start,
+        end: pos,
+        block: false,
+      });
+      continue;
+    }
+
+    if (c === "/" && text[pos + 1] === "*") {
+      const start = pos;
+      const close = text.indexOf("*/", pos + 2);
+      if (close === -1) {
+        errors.push({
+          message: "Unterminated block comment.",
+          start,
+          end: start + 2,
+        });
+        pos = text.length;
+      } else {
+        pos = close + 2;
+      }
+      comments.push({
+        text: text.slice(start, pos),
+        start,
+        end: pos,
+        block: true,
+      });
+      continue;
+    }
+
+    if (c === '"') {
+      push("str_open", pos, pos + 1);
+      pos++;
+      modes.push({ kind: "str" });
+      continue;
+    }
+
+    if (text.startsWith("''", pos)) {
+      push("ind_open", pos, pos + 2);
+      pos += 2;
+      modes.push({ kind: "ind" });
+      continue;
+    }
+
+    if (c === "$" && text[pos + 1] === "{") {
+      push("interp_open", pos, pos + 2);
+      pos += 2;
+      modes.push({ kind: "code", depth: 0 });
+      continue;
+    }
+
+    if (c === "$") {
+      const m = matchAt(ZVAR_RE, text, pos)!;
+      push("zvar", pos, pos + m.length);
+      pos += m.length;
+      continue;
+    }
+
+    if (mode.kind === "code" && (c === "{" || c === "}")) {
+      if (c === "{") {
+        mode.depth++;
+      } else if (mode.depth === 0 && modes.length > 1) {
+        push("interp_close", pos, pos + 1);
+        pos++;
+        modes.pop();
+        continue;
+      } else {
+        mode.depth = Math.max(0, mode.depth - 1);
+      }
+      push("op", pos, pos + 1);
+      pos++;
+      continue;
+    }
+
+    const spath = c === "<" ? matchAt(SPATH_RE, text, pos) : null;
+    const path = matchAt(HPATH_RE, text, pos) ?? matchAt(PATH_RE, text, pos);
+    const uri = matchAt(URI_RE, text, pos);
+    const flt = matchAt(FLOAT_RE, text, pos);
+    const int = matchAt(INT_RE, text, pos);
+    const id = matchAt(ID_RE, text, pos);
+
+    // Longest match wins, mirroring Nix's flex lexer. Paths beat identifiers
+    // and numbers of the same prefix because they are strictly longer.
+    const candidates: [TokenType, string | null][] = [
+      ["spath", spath],
+      ["path", path],
+      ["uri", uri],
+      ["float", flt],
+      ["int", int],
+      ["id", id],
+    ];
+    let best: [TokenType, string] | null = null;
+    for (const [type, m] of candidates) {
+      if (m && (!best || m.length > best[1].length)) best = [type, m];
+    }
+    if (best) {
+      push(best[0], pos, pos + best[1].length);
+      pos += best[1].length;
+      continue;
+    }
+
+    // `--[` is the ZenOS removal cascade; anywhere else two minuses stay two
+    // separate tokens, as in plain Nix.
+    if (
+      c === "-" &&
+      text[pos + 1] === "-" &&
+      /^--\s*\[/.test(text.slice(pos, pos + 64))
+    ) {
+      push("op", pos, pos + 2);
+      pos += 2;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => text.startsWith(o, pos));
+    if (op) {
+      push("op", pos, pos + op.length);
+      pos += op.length;
+      continue;
+    }
+
+    errors.push({
+      message: `Unexpected character '${c}'.`,
+      start: pos,
+      end: pos + 1,
+    });
+    pos++;
+  }
+
+  tokens.push({ type: "eof", text: "", start: text.length, end: text.length });
+  return { tokens, comments, errors };
+}
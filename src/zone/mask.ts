@@ -0,0 +1,241 @@
+// Masking of Z.O.N.E. constructs into plain Nix.
+//
+// nix-instantiate only understands plain Nix, so every ZenOS construct has
+// to be replaced by something Nix accepts before the text is handed over.
+// The spans to replace come from the AST, so the compiler check always
+// agrees with the parser on what counts as ZenOS syntax, and the masked text
+// keeps a map back to the original for placing the compiler's errors.
+
+import { Node, walk } from "./ast";
+import { ParseResult } from "./parser";
+
+export type ZoneSpanKind =
+  "import" | "let" | "action" | "var" | "node" | "cascade" | "path";
+
+export interface ZoneSpan {
+  kind: ZoneSpanKind;
+  start: number;
+  end: number;
+  /** Binding name that may stand in for the span (for `_let`). */
+  name?: string;
+}
+
+/**
+ * Names ZenOS puts in scope of every file: `src` for the fetchers of `.zpkg`
+ * files, and the module arguments.
+ */
+const PROVIDED = ["src", "lib", "pkgs", "config"];
+
+/** Outermost ZenOS constructs in source order; nested ones are covered by them. */
+export function collectZoneSpans(parsed: ParseResult): ZoneSpan[] {
+  const spans: ZoneSpan[] = [];
+  walk(parsed.file, (node: Node, parents: Node[]) => {
+    switch (node.kind) {
+      case "Import":
+        spans.push({ kind: "import", start: node.start, end: node.end });
+        return false;
+      case "LetDecl":
+        // Only the `_let name : type =` head is ZenOS; the value is Nix.
+        if (node.eq !== -1) {
+          spans.push({
+            kind: "let",
+            start: node.start,
+            end: node.eq + 1,
+            name: node.name?.name,
+          });
+        }
+        return;
+      case "Action":
+        // The head covers the form and its guard, up to the body's `{`.
+        if (node.body)
+          spans.push({
+            kind: "action",
+            start: node.start,
+            end: node.body.start,
+          });
+        return;
+      case "Paren": {
+        // `($v.name)` used as a dynamic attribute name.
+        const parent = parents[parents.length - 1];
+        const inPath =
+          parent &&
+          (parent.kind === "Binding" || parent.kind === "Select") &&
+          parent.path.includes(node);
+        if (inPath && node.expr?.kind === "ZenVar") {
+          spans.push({ kind: "path", start: node.start, end: node.end });
+          return false;
+        }
+        return;
+      }
+      case "ZenVar":
+        spans.push({ kind: "var", start: node.start, end: node.end });
+        return false;
+      case "Select":
+        // `src.github`, `lib.mkIf`: the stand-in for them has no attributes
+        if (
+          node.target.kind === "Ident" &&
+          PROVIDED.includes(node.target.name)
+        ) {
+          spans.push({ kind: "var", start: node.start, end: node.end });
+          return false;
+        }
+        return;
+      case "Structural": {
+        // As an attribute name it needs a unique key, as a value it is `v`.
+        const parent = parents[parents.length - 1];
+        const inPath = parent?.kind === "Binding" && parent.path.includes(node);
+        spans.push({
+          kind: inPath ? "node" : "var",
+          start: node.start,
+          end: node.end,
+        });
+        return false;
+      }
+      case "Cascade":
+        spans.push({ kind: "cascade", start: node.start, end: node.end });
+        return false;
+    }
+  });
+
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const outermost: ZoneSpan[] = [];
+  for (const span of spans) {
+    const prev = outermost[outermost.length - 1];
+    if (prev && span.start < prev.end) continue;
+    outermost.push(span);
+  }
+  return outermost;
+}
+
+/** Replace everything but line breaks with spaces. */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * `stand` followed by blanks so that `text` keeps its length and line breaks.
+ * A stand-in longer than `text` is kept whole, since a shortened name may
+ * no longer be unique.
+ */
+function fit(stand: string, text: string): string {
+  return stand + blank(text.slice(stand.length));
+}
+
+/**
+ * Bindings for the stand-ins. `v` takes the place of every ZenOS value; it
+ * can be called and interpolated like most of them, so evaluation gets past
+ * it. The names ZenOS provides are `v` as well. `enableOption` and `mkIf`
+ * hand back their body so that gets evaluated too.
+ */
+const PRELUDE =
+  'let v = { __functor = self: _: self; __toString = _: ""; }; ' +
+  "enableOption = body: body; mkIf = _: body: body; " +
+  PROVIDED.map((name) => `${name} = v; `).join("") +
+  "in ";
+
+/** A stretch of the masked text and where it came from. */
+interface Segment {
+  start: number;
+  original: number;
+  /** Length in the original text; stand-ins may differ from their source. */
+  originalLength: number;
+  copied: boolean;
+}
+
+export interface MaskedText {
+  text: string;
+  /** Offset in the original text that an offset in the masked text came from. */
+  originalOffset(offset: number): number;
+  /** Whether an offset of the masked text is part of a stand-in or wrapper. */
+  isStandIn(offset: number): boolean;
+}
+
+/**
+ * Replace every ZenOS construct with plain Nix, wrap bare binding lists in
+ * braces and bind the stand-ins, keeping a map back to the original text so
+ * compiler errors land on the exact token they are about.
+ */
+export function maskForCompiler(parsed: ParseResult): MaskedText {
+  const text = parsed.text;
+  const segments: Segment[] = [];
+  let out = "";
+  const emit = (
+    value: string,
+    original: number,
+    originalLength: number,
+    copied: boolean,
+  ) => {
+    segments.push({ start: out.length, original, originalLength, copied });
+    out += value;
+  };
+  const copy = (start: number, end: number) => {
+    if (end > start) emit(text.slice(start, end), start, end - start, true);
+  };
+
+  // Files that are a bare list of bindings need braces to be valid Nix
+  const wrap =
+    parsed.file.body?.kind === "AttrSet" && parsed.file.body.implicit;
+  emit(wrap ? PRELUDE + "{\n" : PRELUDE, 0, 0, false);
+
+  let last = 0;
+  collectZoneSpans(parsed).forEach((span, i) => {
+    const original = text.slice(span.start, span.end);
+    let standIn: string;
+    switch (span.kind) {
+      case "import":
+        standIn = blank(original);
+        break;
+      case "let":
+      case "action": {
+        // Unique binding names keep Nix from reporting duplicate attributes.
+        const name = span.name ?? `_${i.toString(36)}`;
+        // Both heads become `name =`; the `_let` head already ends in `=`.
+        const head = span.kind === "let" ? original.slice(0, -1) : original;
+        standIn =
+          span.kind === "let"
+            ? fit(name, head) + "="
+            : fit(name, head.slice(0, -1)) + "=";
+        break;
+      }
+      case "node":
+        standIn = fit(`n${i.toString(36)}`, original);
+        break;
+      default:
+        standIn = fit("v", original);
+        break;
+    }
+    copy(last, span.start);
+    emit(standIn, span.start, original.length, false);
+    last = span.end;
+  });
+  copy(last, text.length);
+  if (wrap) emit("\n}", text.length, 0, false);
+
+  const segmentAt = (offset: number): Segment => {
+    let lo = 0;
+    let hi = segments.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (segments[mid].start <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return segments[lo];
+  };
+
+  return {
+    text: out,
+    originalOffset(offset) {
+      const segment = segmentAt(offset);
+      const delta = offset - segment.start;
+      return (
+        segment.original +
+        (segment.copied
+          ? delta
+          : Math.min(delta, Math.max(0, segment.originalLength - 1)))
+      );
+    },
+    isStandIn(offset) {
+      return !segmentAt(offset).copied;
+    },
+  };
+}
@@ -0,0 +1,396 @@
+// NixOS and Home Manager options, read from the `options.json` the manual
+// build emits, and the lookups that completion, hover and diagnostics share
+// for option paths inside action blocks and after `$cfg.`.
+//
+// The manual describes option types in words ("null or string", "list of
+// (submodule)" …). Those are translated into `$type`s, so option values are
+// checked exactly like `_let` values; a type that does not translate is not
+// checked at all.
+
+import { ActionScope, AttrSet, Node, attrNameText, nodesAt, walk } from "./ast";
+import { ParseResult } from "./parser";
+import { TypeIssue, ZoneType, checkValue } from "./types";
+
+export type OptionSet = "nixos" | "homeManager";
+
+export const OPTION_SET_LABELS: Record<OptionSet, string> = {
+  nixos: "NixOS",
+  homeManager: "Home Manager",
+};
+
+/** Which options an action body sets; `!` is read as a system action. */
+export const ACTION_OPTION_SETS: Record<ActionScope, OptionSet> = {
+  system: "nixos",
+  user: "homeManager",
+  generic: "nixos",
+};
+
+export interface NixOption {
+  /** Dotted name as the manual writes it, with `<name>` for attribute names. */
+  name: string;
+  /** The manual's description of the type, e.g. "null or string". */
+  type: string;
+  description: string;
+  default?: string;
+  example?: string;
+  readOnly: boolean;
+}
+
+/** An option, a group of options, or both (submodules have children). */
+export interface OptionNode {
+  option?: NixOption;
+  children: Map<string, OptionNode>;
+}
+
+/** What an `options.json` entry may hold; every field is optional. */
+interface RawOption {
+  loc?: unknown;
+  type?: unknown;
+  description?: unknown;
+  default?: unknown;
+  example?: unknown;
+  readOnly?: unknown;
+}
+
+/** Descriptions are plain strings or `{ _type = "mdDoc"; text }`. */
+function docText(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  const text = (value as { text?: unknown } | null)?.text;
+  return typeof text === "string" ? text : undefined;
+}
+
+/** Defaults and examples are JSON values or `{ _type = "literalExpression"; text }`. */
+function exprText(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  const literal = value as { _type?: unknown; text?: unknown } | null;
+  if (typeof literal?._type === "string" && typeof literal.text === "string") {
+    return literal.text;
+  }
+  return JSON.stringify(value);
+}
+
+/** Build the option tree of a parsed `options.json`. */
+export function buildOptionTree(json: unknown): OptionNode {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("expected an object of options");
+  }
+  const root: OptionNode = { children: new Map() };
+  for (const [name, value] of Object.entries(json)) {
+    if (!value || typeof value !== "object") continue;
+    const raw = value as RawOption;
+    // `loc` keeps names with dots in one piece
+    const loc =
+      Array.isArray(raw.loc) && raw.loc.every((s) => typeof s === "string")
+        ? (raw.loc as string[])
+        : name.split(".");
+    let node = root;
+    for (const segment of loc) {
+      let next = node.children.get(segment);
+      if (!next) {
+        next = { children: new Map() };
+        node.children.set(segment, next);
+      }
+      node = next;
+    }
+    node.option = {
+      name,
+      type: typeof raw.type === "string" ? raw.type : "unspecified",
+      description: docText(raw.description) ?? "",
+      default: exprText(raw.default),
+      example: exprText(raw.example),
+      readOnly: raw.readOnly === true,
+    };
+  }
+  return root;
+}
+
+/** `<name>` stands for any attribute name, `*` for any list item. */
+export function isPlaceholder(segment: string): boolean {
+  return segment === "*" || /^<.*>$/.test(segment);
+}
+
+/** The node at `path`, where any name matches a placeholder. */
+export function findOption(
+  root: OptionNode,
+  path: string[],
+): OptionNode | undefined {
+  let node: OptionNode | undefined = root;
+  for (const segment of path) {
+    if (!node) return undefined;
+    let next = node.children.get(segment);
+    if (!next) {
+      for (const [key, child] of node.children) {
+        if (isPlaceholder(key)) next = child;
+      }
+    }
+    node = next;
+  }
+  return node;
+}
+
+/** Split on ` or ` outside parentheses and quotes. */
+function alternatives(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let last = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' && text[i - 1] !== "\\") quoted = !quoted;
+    if (quoted) continue;
+    if (c === "(") depth++;
+    if (c === ")") depth--;
+    if (depth === 0 && text.startsWith(" or ", i)) {
+      parts.push(text.slice(last, i));
+      last = i + 4;
+    }
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+/** The `$type` behind the manual's description of a type, or null when unsure. */
+export function optionType(description: string): ZoneType | null {
+  const text = description.trim();
+  const parts = alternatives(text);
+  if (parts.length > 1) {
+    const types = parts.map(optionType);
+    if (types.every((t): t is ZoneType => t !== null)) {
+      if (types.length === 2 && types[0].kind === "null") {
+        return { kind: "nullable", of: types[1] };
+      }
+      return { kind: "either", options: types };
+    }
+    // "string, not containing newlines or colons" is one type
+  }
+  return singleType(text);
+}
+
+function singleType(text: string): ZoneType | null {
+  if (/^\(.*\)$/.test(text) && alternatives(text).length === 1) {
+    return optionType(text.slice(1, -1));
+  }
+  let match = text.match(/^(?:non-empty )?list of (.*)$/);
+  if (match) return { kind: "list", of: optionType(match[1]) };
+  match = text.match(/^(?:lazy )?attribute set of (.*)$/);
+  if (match) return { kind: "set", of: optionType(match[1]) };
+  if (/^(attribute set|submodule)\b/.test(text)) {
+    return { kind: "set", of: null };
+  }
+  if (text.startsWith("one of ")) {
+    const listed = text.slice(7).split(", ");
+    const options = listed.map((o) => o.match(/^"((?:[^"\\]|\\.)*)"$/)?.[1]);
+    return options.every((o): o is string => o !== undefined)
+      ? { kind: "enum", options }
+      : null;
+  }
+  if (text === "boolean") return { kind: "bool" };
+  if (text === "null") return { kind: "null" };
+  if (text === "package") return { kind: "package" };
+  if (text === "path" || text === "absolute path") return { kind: "path" };
+  if (
+    /^(?:non-empty |single-line )?strings?\b/.test(text) ||
+    /^(?:str|lines|separated string)\b/.test(text)
+  ) {
+    return { kind: "string" };
+  }
+  if (/\binteger\b/.test(text)) return { kind: "int" };
+  // Floats take integers, too
+  if (text === "floating point number" || text === "number") {
+    return { kind: "float" };
+  }
+  if (text.startsWith("function that evaluates to")) {
+    return { kind: "function" };
+  }
+  return null;
+}
+
+/**
+ * Which options apply at `offset` inside an action body, and the attribute
+ * path of the sets that enclose it. Lists add a `*`, as the manual does for
+ * lists of submodules. Null outside action bodies or under a computed name.
+ */
+function enclosingPath(
+  chain: Node[],
+  offset: number,
+): { set: OptionSet; path: string[] } | null {
+  let index = -1;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind === "Action" && node.body && offset > node.body.start) {
+      index = i;
+      break;
+    }
+  }
+  if (index === -1) return null;
+  const action = chain[index];
+  if (action.kind !== "Action") return null;
+  const path: string[] = [];
+  for (const node of chain.slice(index + 1)) {
+    if (node.kind === "List") path.push("*");
+    if (node.kind !== "Binding" || node.eq === -1 || offset <= node.eq) {
+      continue;
+    }
+    for (const name of node.path) {
+      const text = attrNameText(name);
+      if (text === null) return null;
+      path.push(text);
+    }
+  }
+  return { set: ACTION_OPTION_SETS[action.scope], path };
+}
+
+export interface OptionPath {
+  set: OptionSet;
+  /** Names before the one at the cursor. */
+  path: string[];
+  /** The part of the name at the cursor that has been typed. */
+  typed: string;
+  /** `$cfg.…` rather than a binding in an action body. */
+  cfg: boolean;
+}
+
+/** The option path being typed at `offset`, for completion. */
+export function optionPathAt(
+  parsed: ParseResult,
+  offset: number,
+): OptionPath | null {
+  const chain = nodesAt(parsed.file, offset);
+  const inner = chain[chain.length - 1];
+  const parent = chain[chain.length - 2];
+  const zenVar =
+    inner.kind === "ZenVar"
+      ? inner
+      : inner.kind === "Ident" && parent?.kind === "ZenVar"
+        ? parent
+        : null;
+  if (zenVar) {
+    if (zenVar.name !== "cfg" || offset <= zenVar.nameEnd) return null;
+    const at = zenVar.segments.findIndex(
+      (s) => s.start <= offset && offset <= s.end,
+    );
+    if (at === -1) return null;
+    return {
+      set: "nixos",
+      path: zenVar.segments.slice(0, at).map((s) => s.name),
+      typed: parsed.text.slice(zenVar.segments[at].start, offset),
+      cfg: true,
+    };
+  }
+
+  // A value is being typed, not a name
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind === "AttrSet" || node.kind === "Action") break;
+    if (node.kind === "Binding" && node.eq !== -1 && offset > node.eq) {
+      return null;
+    }
+  }
+  const enclosing = enclosingPath(chain, offset);
+  if (!enclosing) return null;
+  // The dotted name may not parse yet (`services.`), so it is read as text
+  const lineStart = parsed.text.lastIndexOf("\n", offset - 1) + 1;
+  const typed = parsed.text
+    .slice(lineStart, offset)
+    .match(/(?:^|[{;])\s*((?:[a-zA-Z_][\w'-]*\.)*)([a-zA-Z_][\w'-]*)?$/);
+  if (!typed) return null;
+  const names = typed[1] ? typed[1].slice(0, -1).split(".") : [];
+  return {
+    set: enclosing.set,
+    path: [...enclosing.path, ...names],
+    typed: typed[2] ?? "",
+    cfg: false,
+  };
+}
+
+export interface OptionRef {
+  set: OptionSet;
+  path: string[];
+  start: number;
+  end: number;
+}
+
+/** The option name under the cursor, for hover. */
+export function optionRefAt(
+  parsed: ParseResult,
+  offset: number,
+): OptionRef | null {
+  const chain = nodesAt(parsed.file, offset);
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind === "ZenVar") {
+      if (node.name !== "cfg") return null;
+      const at = node.segments.findIndex(
+        (s) => s.start <= offset && offset <= s.end && s.name,
+      );
+      if (at === -1) return null;
+      return {
+        set: "nixos",
+        path: node.segments.slice(0, at + 1).map((s) => s.name),
+        start: node.start,
+        end: node.segments[at].end,
+      };
+    }
+    if (node.kind === "Binding") {
+      const at = node.path.findIndex(
+        (name) => name.start <= offset && offset <= name.end,
+      );
+      if (at === -1) return null;
+      const enclosing = enclosingPath(chain.slice(0, i), offset);
+      const names = node.path.slice(0, at + 1).map(attrNameText);
+      if (!enclosing || names.some((n) => n === null)) return null;
+      return {
+        set: enclosing.set,
+        path: [...enclosing.path, ...(names as string[])],
+        start: node.path[0].start,
+        end: node.path[at].end,
+      };
+    }
+  }
+  return null;
+}
+
+export interface OptionIssue extends TypeIssue {
+  code: "invalid-option-value";
+  /** Dotted name of the option, as written. */
+  option: string;
+}
+
+/** Check the values action bodies give to options whose type is known. */
+export function checkOptionValues(
+  parsed: ParseResult,
+  trees: Partial<Record<OptionSet, OptionNode>>,
+): OptionIssue[] {
+  const issues: OptionIssue[] = [];
+  const checkSet = (set: AttrSet, node: OptionNode, prefix: string[]) => {
+    for (const item of set.items) {
+      if (item.kind !== "Binding" || !item.value) continue;
+      const names = item.path.map(attrNameText);
+      if (names.some((n) => n === null)) continue;
+      const path = [...prefix, ...(names as string[])];
+      const target = findOption(node, names as string[]);
+      if (!target) continue;
+      if (item.value.kind === "AttrSet" && target.children.size > 0) {
+        checkSet(item.value, target, path);
+        continue;
+      }
+      const type = target.option && optionType(target.option.type);
+      if (!type) continue;
+      const error = checkValue(type, item.value);
+      if (error) {
+        issues.push({
+          ...error,
+          code: "invalid-option-value",
+          option: path.join("."),
+        });
+      }
+    }
+  };
+  walk(parsed.file, (node) => {
+    if (node.kind !== "Action" || !node.body) return;
+    const root = trees[ACTION_OPTION_SETS[node.scope]];
+    if (root) checkSet(node.body, root, []);
+    return false;
+  });
+  return issues;
+}
@@ -0,0 +1,297 @@
+// The package index behind `$pkgs.`: packages from a `nix-env -qaP --json`
+// dump and the workspace's own `.zpkg` files, with the lookups completion,
+// hover and the unknown-package check share.
+
+import {
+  Expr,
+  LetDecl,
+  Node,
+  attrNameText,
+  nodesAt,
+  stringValue,
+  walk,
+} from "./ast";
+import { editDistance, fuzzyScore } from "./distance";
+import { ParseResult } from "./parser";
+import { parseTypeExpr } from "./types";
+
+export interface PackageInfo {
+  /** Attribute path below `$pkgs`, e.g. `python3Packages.requests`. */
+  attr: string;
+  version?: string;
+  description?: string;
+  /** URI of the `.zpkg` that defines a workspace package. */
+  uri?: string;
+}
+
+export interface PackageIndex {
+  packages: Map<string, PackageInfo>;
+  /** Names directly below each attribute path; "" is the top level. */
+  children: Map<string, string[]>;
+}
+
+/** What a `nix-env --json` entry may hold; every field is optional. */
+interface RawPackage {
+  name?: unknown;
+  version?: unknown;
+  meta?: { description?: unknown };
+}
+
+/**
+ * Packages of a `nix-env -qaP --json` dump. Run against a channel, every
+ * attribute path starts with the channel name (`nixos.firefox`), which is
+ * dropped.
+ */
+export function readPackageDump(json: unknown): PackageInfo[] {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("expected an object of packages");
+  }
+  const entries = Object.entries(json as Record<string, RawPackage>);
+  const channel = entries[0]?.[0].split(".")[0];
+  const prefixed =
+    channel !== undefined &&
+    entries.every(([attr]) => attr.startsWith(channel + "."));
+  return entries.map(([attr, raw]) => {
+    const name = typeof raw?.name === "string" ? raw.name : undefined;
+    const version =
+      typeof raw?.version === "string"
+        ? raw.version
+        : name?.match(/-(\d[^-]*)$/)?.[1];
+    const description = raw?.meta?.description;
+    return {
+      attr: prefixed ? attr.slice(channel.length + 1) : attr,
+      version: version || undefined,
+      description: typeof description === "string" ? description : undefined,
+    };
+  });
+}
+
+export function buildPackageIndex(packages: PackageInfo[]): PackageIndex {
+  const index: PackageIndex = { packages: new Map(), children: new Map() };
+  const seen = new Set<string>();
+  for (const info of packages) {
+    index.packages.set(info.attr, info);
+    const segments = info.attr.split(".");
+    for (let i = 0; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join(".");
+      const path = segments.slice(0, i + 1).join(".");
+      if (seen.has(path)) continue;
+      seen.add(path);
+      let names = index.children.get(parent);
+      if (!names) {
+        names = [];
+        index.children.set(parent, names);
+      }
+      names.push(segments[i]);
+    }
+  }
+  return index;
+}
+
+/** A top-level `_meta` field of a file, when it is a plain string. */
+function metaField(parsed: ParseResult, field: string): string | undefined {
+  let body: Expr | null = parsed.file.body;
+  while (body?.kind === "Lambda") body = body.body;
+  if (body?.kind !== "AttrSet") return undefined;
+  for (const item of body.items) {
+    if (item.kind !== "Binding" || attrNameText(item.path[0]) !== "_meta") {
+      continue;
+    }
+    if (item.path.length === 2 && attrNameText(item.path[1]) === field) {
+      return stringValue(item.value) ?? undefined;
+    }
+    if (item.path.length === 1 && item.value?.kind === "AttrSet") {
+      for (const inner of item.value.items) {
+        if (
+          inner.kind === "Binding" &&
+          inner.path.length === 1 &&
+          attrNameText(inner.path[0]) === field
+        ) {
+          return stringValue(inner.value) ?? undefined;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/** A workspace `.zpkg` as a package named after its file. */
+export function zpkgPackage(uri: string, parsed: ParseResult): PackageInfo {
+  const file = decodeURIComponent(uri.slice(uri.lastIndexOf("/") + 1));
+  return {
+    attr: file.replace(/\.zpkg$/, ""),
+    version: metaField(parsed, "version"),
+    description: metaField(parsed, "brief") ?? metaField(parsed, "description"),
+    uri,
+  };
+}
+
+/**
+ * The package a `$pkgs` path refers to, found at the longest matching prefix
+ * (`$pkgs.firefox.override` is `firefox`), or "group" for a set of packages
+ * such as `python3Packages`. The first index that knows the path wins.
+ */
+export function findPackage(
+  indexes: PackageIndex[],
+  segments: string[],
+): PackageInfo | "group" | undefined {
+  for (const index of indexes) {
+    for (let i = segments.length; i > 0; i--) {
+      const info = index.packages.get(segments.slice(0, i).join("."));
+      if (info) return info;
+    }
+    if (index.children.has(segments.join("."))) return "group";
+  }
+  return undefined;
+}
+
+export interface PackageMatch {
+  name: string;
+  /** Full attribute path of the match. */
+  attr: string;
+  info: PackageInfo | "group";
+}
+
+/** The best `limit` names below `prefix` for `query`, best first. */
+export function matchPackages(
+  indexes: PackageIndex[],
+  prefix: string[],
+  query: string,
+  limit: number,
+): { matches: PackageMatch[]; total: number } {
+  const parent = prefix.join(".");
+  const scored: { match: PackageMatch; score: number }[] = [];
+  const seen = new Set<string>();
+  for (const index of indexes) {
+    for (const name of index.children.get(parent) ?? []) {
+      if (seen.has(name)) continue;
+      const score = fuzzyScore(query, name);
+      if (score === null) continue;
+      seen.add(name);
+      const attr = parent ? `${parent}.${name}` : name;
+      const info = findPackage(indexes, [...prefix, name]);
+      if (!info) continue;
+      scored.push({ match: { name, attr, info }, score });
+    }
+  }
+  scored.sort(
+    (a, b) => a.score - b.score || (a.match.name < b.match.name ? -1 : 1),
+  );
+  return {
+    matches: scored.slice(0, limit).map((s) => s.match),
+    total: scored.length,
+  };
+}
+
+/**
+ * Whether `offset` is where a package is expected without `$pkgs.`: the
+ * value of a `package`/`packages` `_let` or an item of `_meta.dependencies`.
+ * Returns the part of the name typed so far.
+ */
+export function packageValueAt(
+  parsed: ParseResult,
+  offset: number,
+): { typed: string } | null {
+  const chain = nodesAt(parsed.file, offset);
+  const inner = chain[chain.length - 1];
+  const typed =
+    inner.kind === "Ident" ? parsed.text.slice(inner.start, offset) : "";
+  if (
+    inner.kind !== "Ident" &&
+    inner.kind !== "List" &&
+    inner.kind !== "LetDecl"
+  ) {
+    return null;
+  }
+  const inList = chain.some((n) => n.kind === "List");
+
+  const decl = [...chain]
+    .reverse()
+    .find((n): n is LetDecl => n.kind === "LetDecl");
+  if (decl?.type && decl.eq !== -1 && offset > decl.eq) {
+    const type = parseTypeExpr(decl.type);
+    if (!type.ok) return null;
+    const t = type.type;
+    if (t.kind === "package" && !inList) return { typed };
+    if (t.kind === "list" && t.of?.kind === "package" && inList) {
+      return { typed };
+    }
+    return null;
+  }
+
+  const names: string[] = [];
+  for (const node of chain) {
+    if (node.kind !== "Binding" || node.eq === -1 || offset <= node.eq) {
+      continue;
+    }
+    for (const name of node.path) names.push(attrNameText(name) ?? "");
+  }
+  return inList && names.join(".") === "_meta.dependencies" ? { typed } : null;
+}
+
+export interface PackageIssue {
+  start: number;
+  end: number;
+  message: string;
+  code: "unknown-package";
+  /** The closest known name, for "did you mean". */
+  suggestion?: string;
+}
+
+/** `$pkgs.<name>` references to packages none of the indexes knows. */
+export function checkPackages(
+  parsed: ParseResult,
+  indexes: PackageIndex[],
+): PackageIssue[] {
+  const issues: PackageIssue[] = [];
+  walk(parsed.file, (node: Node) => {
+    if (node.kind !== "ZenVar") return;
+    if (node.name !== "pkgs") return false;
+    const segments = node.segments.filter((s) => s.name);
+    if (segments.length === 0) return false;
+    const names = segments.map((s) => s.name);
+    if (findPackage(indexes, names) !== undefined) return false;
+    // Report the first name nothing is known under
+    let known = 0;
+    while (findPackage(indexes, names.slice(0, known + 1)) !== undefined) {
+      known++;
+    }
+    const unknown = segments[known];
+    const suggestion = closestName(
+      indexes,
+      names.slice(0, known).join("."),
+      unknown.name,
+    );
+    issues.push({
+      start: unknown.start,
+      end: unknown.end,
+      code: "unknown-package",
+      message:
+        `Unknown package '${names.slice(0, known + 1).join(".")}'.` +
+        (suggestion ? ` Did you mean '${suggestion}'?` : ""),
+      suggestion,
+    });
+    return false;
+  });
+  return issues;
+}
+
+function closestName(
+  indexes: PackageIndex[],
+  parent: string,
+  name: string,
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 4)) + 1;
+  for (const index of indexes) {
+    for (const candidate of index.children.get(parent) ?? []) {
+      if (Math.abs(candidate.length - name.length) >= bestDistance) continue;
+      const distance = editDistance(name, candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,1387 @@
+// Tolerant recursive-descent parser for ZenOS-extended Nix.
+//
+// The parser never throws. Every problem is recorded as a ParseError and the
+// parser resynchronises at the next statement, so a half-typed line does not
+// hide the structure of the rest of the file from the providers.
+
+import {
+  ACTION_FORMS,
+  Action,
+  AttrName,
+  AttrSet,
+  BindingItem,
+  Expr,
+  File,
+  Ident,
+  Interp,
+  Pattern,
+  PatternField,
+  STRUCTURAL_KINDS,
+  StringChunk,
+  StringLit,
+  Structural,
+  StructuralArg,
+} from "./ast";
+import { Comment, Token, tokenize } from "./lexer";
+
+export type ParseErrorCode =
+  | "missing-semicolon"
+  | "missing-semicolon-after-brace"
+  | "missing-equals"
+  | "unclosed"
+  | "unexpected-close"
+  | "syntax";
+
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  start: number;
+  end: number;
+  /** For `unclosed`: the closing character that would fix the error. */
+  closer?: string;
+  /** For `unclosed`: where the closer belongs, after the last token read. */
+  closeAt?: number;
+}
+
+export interface ParseResult {
+  text: string;
+  file: File;
+  tokens: Token[];
+  comments: Comment[];
+  errors: ParseError[];
+}
+
+const CLOSERS: Record<string, string> = { "{": "}", "[": "]", "(": ")" };
+
+const KEYWORDS = new Set([
+  "let",
+  "in",
+  "with",
+  "rec",
+  "inherit",
+  "if",
+  "then",
+  "else",
+  "assert",
+]);
+
+interface BinOp {
+  bp: number;
+  assoc: "left" | "right" | "none";
+}
+
+// Binding power follows the Nix manual's operator table; higher binds tighter.
+const BINARY_OPS: Record<string, BinOp> = {
+  "->": { bp: 1, assoc: "right" },
+  "||": { bp: 2, assoc: "left" },
+  "&&": { bp: 3, assoc: "left" },
+  "==": { bp: 4, assoc: "none" },
+  "!=": { bp: 4, assoc: "none" },
+  "<": { bp: 5, assoc: "none" },
+  "<=": { bp: 5, assoc: "none" },
+  ">": { bp: 5, assoc: "none" },
+  ">=": { bp: 5, assoc: "none" },
+  "//": { bp: 6, assoc: "right" },
+  "+": { bp: 8, assoc: "left" },
+  "-": { bp: 8, assoc: "left" },
+  "*": { bp: 9, assoc: "left" },
+  "/": { bp: 9, assoc: "left" },
+  "++": { bp: 10, assoc: "right" },
+};
+const NOT_BP = 7;
+const HAS_ATTR_BP = 11;
+const NEGATE_BP = 12;
+
+class Parser {
+  private pos = 0;
+  readonly errors: ParseError[] = [];
+  // Open brackets, innermost last. Used to decide whether a stray closer
+  // belongs to an enclosing construct or is simply unexpected.
+  private open: string[] = [];
+
+  constructor(
+    private readonly text: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  // --- token helpers ---
+
+  private peek(n = 0): Token {
+    return this.tokens[Math.min(this.pos + n, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const tok = this.peek();
+    if (tok.type !== "eof") this.pos++;
+    return tok;
+  }
+
+  private prevEnd(): number {
+    return this.pos > 0 ? this.tokens[this.pos - 1].end : 0;
+  }
+
+  private isOp(tok: Token, text: string): boolean {
+    return tok.type === "op" && tok.text === text;
+  }
+
+  private at(text: string, n = 0): boolean {
+    return this.isOp(this.peek(n), text);
+  }
+
+  private atKeyword(word: string, n = 0): boolean {
+    const tok = this.peek(n);
+    return tok.type === "id" && tok.text === word;
+  }
+
+  private eat(text: string): Token | null {
+    return this.at(text) ? this.next() : null;
+  }
+
+  private error(
+    code: ParseErrorCode,
+    message: string,
+    start: number,
+    end: number,
+    closer?: string,
+  ) {
+    // One error per location is plenty; cascades after recovery are noise.
+    if (this.errors.some((e) => e.start === start && e.code === code)) return;
+    this.errors.push(
+      closer
+        ? { code, message, start, end, closer, closeAt: this.prevEnd() }
+        : { code, message, start, end },
+    );
+  }
+
+  private isCloser(tok: Token): boolean {
+    return (
+      tok.type === "op" &&
+      (tok.text === "}" || tok.text === "]" || tok.text === ")")
+    );
+  }
+
+  /**
+   * Handle a closer that does not match `expected`. Returns true when the
+   * closer belongs to an enclosing bracket, in which case the caller must
+   * stop without consuming it.
+   */
+  private strayCloser(expected: string | null): boolean {
+    const tok = this.peek();
+    const opener = Object.keys(CLOSERS).find((k) => CLOSERS[k] === tok.text)!;
+    const depth = this.open.lastIndexOf(opener);
+    if (depth !== -1 && expected !== null) {
+      return true;
+    }
+    this.error(
+      "unexpected-close",
+      `Unexpected closing character '${tok.text}'.`,
+      tok.start,
+      tok.end,
+    );
+    this.next();
+    return false;
+  }
+
+  private expectClose(openTok: Token) {
+    const closer = CLOSERS[openTok.text];
+    if (this.eat(closer)) return true;
+    this.error(
+      "unclosed",
+      `Unclosed character '${openTok.text}'.`,
+      openTok.start,
+      openTok.end,
+      closer,
+    );
+    return false;
+  }
+
+  private withOpen<T>(opener: string, fn: () => T): T {
+    this.open.push(opener);
+    try {
+      return fn();
+    } finally {
+      this.open.pop();
+    }
+  }
+
+  // --- lookahead predicates ---
+
+  /** `s!`, `u!!`, `!` … starting at the current token. */
+  private actionFormAt(): { form: string; length: number } | null {
+    const a = this.peek();
+    const b = this.peek(1);
+    const c = this.peek(2);
+    const adjacent = (x: Token, y: Token) => x.end === y.start;
+    if (
+      a.type === "id" &&
+      (a.text === "s" || a.text === "u") &&
+      this.isOp(b, "!") &&
+      adjacent(a, b)
+    ) {
+      if (this.isOp(c, "!") && adjacent(b, c))
+        return { form: `${a.text}!!`, length: 3 };
+      return { form: `${a.text}!`, length: 2 };
+    }
+    if (this.isOp(a, "!")) {
+      if (this.isOp(b, "!") && adjacent(a, b)) return { form: "!!", length: 2 };
+      return { form: "!", length: 1 };
+    }
+    return null;
+  }
+
+  /** Index just past a balanced group starting at token index `i`. */
+  private skipGroup(i: number): number {
+    const first = this.tokens[i];
+    const closer = CLOSERS[first.text];
+    if (first.type !== "op" || !closer) return i + 1;
+    let depth = 0;
+    for (let j = i; j < this.tokens.length; j++) {
+      const t = this.tokens[j];
+      if (t.type === "eof") return j;
+      if (t.type === "op" && t.text === first.text) depth++;
+      if (t.type === "op" && t.text === closer) {
+        depth--;
+        if (depth === 0) return j + 1;
+      }
+    }
+    return this.tokens.length - 1;
+  }
+
+  /**
+   * Does a binding start at the current token? Used to stop function
+   * application and to resynchronise after a missing `;`.
+   */
+  private atBindingStart(): boolean {
+    const tok = this.peek();
+    if (
+      tok.type === "id" &&
+      (tok.text === "_let" || tok.text === "_import" || tok.text === "inherit")
+    ) {
+      return true;
+    }
+    const action = this.actionFormAt();
+    if (action && action.form !== "!" && action.form !== "!!") return true;
+    // Walk an attribute path and check for a trailing `=` (but not `==`).
+    let i = this.pos;
+    for (;;) {
+      const t = this.tokens[i];
+      if (t.type === "id" && !KEYWORDS.has(t.text)) {
+        i++;
+      } else if (t.type === "str_open") {
+        while (
+          this.tokens[i].type !== "str_close" &&
+          this.tokens[i].type !== "eof"
+        ) {
+          i++;
+        }
+        // An unterminated string runs to the end of the file
+        if (this.tokens[i].type === "eof") return false;
+        i++;
+      } else if (t.type === "op" && t.text === "(") {
+        const kw = this.tokens[i + 1];
+        if (kw.type !== "id" && kw.type !== "zvar") return false;
+        i = this.skipGroup(i);
+      } else if (t.type === "interp_open") {
+        let depth = 0;
+        for (; i < this.tokens.length; i++) {
+          const tt = this.tokens[i];
+          if (tt.type === "interp_open") depth++;
+          if (tt.type === "interp_close" && --depth === 0) break;
+          if (tt.type === "eof") return false;
+        }
+        i++;
+      } else {
+        return false;
+      }
+      const sep = this.tokens[i];
+      if (sep.type === "op" && sep.text === ".") {
+        i++;
+        continue;
+      }
+      return sep.type === "op" && sep.text === "=";
+    }
+  }
+
+  /** A bare `!`/`!!` action can only be told apart from negation by position. */
+  private atLineStartAction(): boolean {
+    const tok = this.peek();
+    return this.isOp(tok, "!") && this.atLineStart(tok);
+  }
+
+  private atLineStart(tok: Token): boolean {
+    const lineStart = this.text.lastIndexOf("\n", tok.start - 1) + 1;
+    return this.text.slice(lineStart, tok.start).trim() === "";
+  }
+
+  private startsExpr(tok: Token): boolean {
+    switch (tok.type) {
+      case "id":
+        return (
+          !KEYWORDS.has(tok.text) || tok.text === "rec" || tok.text === "let"
+        );
+      case "int":
+      case "float":
+      case "path":
+      case "spath":
+      case "uri":
+      case "zvar":
+      case "str_open":
+      case "ind_open":
+        return true;
+      case "op":
+        return tok.text === "(" || tok.text === "[" || tok.text === "{";
+      default:
+        return false;
+    }
+  }
+
+  // --- entry ---
+
+  parseFile(): File {
+    const first = this.peek();
+    let body: Expr | null = null;
+    if (first.type === "eof") {
+      body = null;
+    } else if (this.fileIsExpression()) {
+      body = this.parseExpr();
+      while (this.peek().type !== "eof") {
+        const tok = this.peek();
+        if (this.isCloser(tok)) {
+          this.strayCloser(null);
+        } else {
+          this.error("syntax", `Unexpected '${tok.text}'.`, tok.start, tok.end);
+          this.next();
+        }
+      }
+    } else {
+      const items = this.parseBindings(null);
+      body = {
+        kind: "AttrSet",
+        rec: false,
+        implicit: true,
+        items,
+        start: 0,
+        end: this.text.length,
+      };
+    }
+    return { kind: "File", body, start: 0, end: this.text.length };
+  }
+
+  /**
+   * Most Z.O.N.E. files are a bare list of bindings. Files that start like a
+   * Nix expression (a set, `let`, a lambda …) are parsed as one instead.
+   */
+  private fileIsExpression(): boolean {
+    const tok = this.peek();
+    const nextTok = this.peek(1);
+    if (tok.type === "id") {
+      if (["let", "with", "rec", "assert", "if"].includes(tok.text))
+        return true;
+      if (tok.text.startsWith("_")) return false;
+      return this.isOp(nextTok, ":") || this.isOp(nextTok, "@");
+    }
+    if (this.isOp(tok, "(")) {
+      return !(
+        nextTok.type === "id" && STRUCTURAL_KINDS.includes(nextTok.text)
+      );
+    }
+    return (
+      this.isOp(tok, "{") ||
+      this.isOp(tok, "[") ||
+      tok.type === "str_open" ||
+      tok.type === "ind_open" ||
+      tok.type === "int" ||
+      tok.type === "float" ||
+      tok.type === "path" ||
+      tok.type === "spath"
+    );
+  }
+
+  // --- bindings ---
+
+  /**
+   * Parse bindings until `closer` (`}` or `in`), or the end of the file when
+   * `closer` is null.
+   */
+  private parseBindings(closer: string | null): BindingItem[] {
+    const items: BindingItem[] = [];
+    for (;;) {
+      const tok = this.peek();
+      if (tok.type === "eof") break;
+      if (closer === "in" && this.atKeyword("in")) break;
+      if (closer && this.isOp(tok, closer)) break;
+      if (this.isCloser(tok)) {
+        if (this.strayCloser(closer)) break;
+        continue;
+      }
+      if (this.isOp(tok, ";")) {
+        this.error("syntax", "Unexpected ';'.", tok.start, tok.end);
+        this.next();
+        continue;
+      }
+      const before = this.pos;
+      const item = this.parseBindingItem();
+      if (item) items.push(item);
+      if (this.pos === before) {
+        // Nothing consumed: skip the offending token to guarantee progress.
+        this.error("syntax", `Unexpected '${tok.text}'.`, tok.start, tok.end);
+        this.next();
+      }
+    }
+    return items;
+  }
+
+  private parseBindingItem(): BindingItem | null {
+    const tok = this.peek();
+    if (tok.type === "id" && tok.text === "_let") return this.parseLetDecl();
+    if (tok.type === "id" && tok.text === "_import") return this.parseImport();
+    if (tok.type === "id" && tok.text === "inherit") return this.parseInherit();
+    const action = this.actionFormAt();
+    if (action) return this.parseAction(action.form, action.length);
+    return this.parseBinding();
+  }
+
+  /** Expect the `;` ending a statement. Returns its offset or -1. */
+  private endStatement(start: number, value: Expr | null): number {
+    const semi = this.eat(";");
+    if (semi) return semi.start;
+    // At the end of the file inside an unclosed bracket the `unclosed` error
+    // already explains the problem.
+    if (this.peek().type === "eof" && this.open.length > 0) return -1;
+    const last = this.tokens[this.pos - 1];
+    if (value && last && this.isOp(last, "}") && last.end === value.end) {
+      this.error(
+        "missing-semicolon-after-brace",
+        "Missing ';' after '}'.",
+        last.start,
+        last.end,
+      );
+    } else {
+      const end = value ? value.end : this.prevEnd();
+      this.error(
+        "missing-semicolon",
+        "Missing ';' at the end of the statement.",
+        this.lineStartOf(start, end),
+        end,
+      );
+    }
+    this.recover();
+    return -1;
+  }
+
+  /** Clamp a statement range to the line it ends on. */
+  private lineStartOf(start: number, end: number): number {
+    const lineStart = this.text.lastIndexOf("\n", end - 1) + 1;
+    if (lineStart <= start) return start;
+    let i = lineStart;
+    while (i < end && (this.text[i] === " " || this.text[i] === "\t")) i++;
+    return i;
+  }
+
+  /** Skip tokens until something that can continue a binding list. */
+  private recover() {
+    for (;;) {
+      const tok = this.peek();
+      if (tok.type === "eof" || this.isCloser(tok) || this.atKeyword("in"))
+        return;
+      if (this.isOp(tok, ";")) {
+        this.next();
+        return;
+      }
+      if (this.atBindingStart() || this.atLineStartAction()) return;
+      if (tok.type === "op" && CLOSERS[tok.text]) {
+        this.pos = this.skipGroup(this.pos);
+      } else {
+        this.next();
+      }
+    }
+  }
+
+  private parseBinding(): BindingItem | null {
+    const start = this.peek().start;
+    const path = this.parseAttrPath();
+    if (path.length === 0) return null;
+    const eq = this.eat("=");
+    const pathEnd = path[path.length - 1].end;
+    let value: Expr | null = null;
+    if (!eq) {
+      this.error("missing-equals", "Missing '=' assignment.", start, pathEnd);
+      if (this.startsExpr(this.peek()) && !this.atBindingStart()) {
+        value = this.parseExpr();
+      } else {
+        const semi = this.eat(";");
+        return {
+          kind: "Binding",
+          path,
+          eq: -1,
+          value: null,
+          semi: semi ? semi.start : -1,
+          start,
+          end: semi ? semi.end : pathEnd,
+        };
+      }
+    } else {
+      value = this.parseExpr();
+    }
+    const semi = this.endStatement(start, value);
+    return {
+      kind: "Binding",
+      path,
+      eq: eq ? eq.start : -1,
+      value,
+      semi,
+      start,
+      end: semi !== -1 ? semi + 1 : value ? value.end : pathEnd,
+    };
+  }
+
+  private parseInherit(): BindingItem {
+    const kw = this.next();
+    let from: Expr | null = null;
+    const open = this.peek();
+    if (this.isOp(open, "(")) {
+      this.next();
+      from = this.withOpen("(", () => this.parseExpr());
+      this.expectClose(open);
+    }
+    const names: AttrName[] = [];
+    for (;;) {
+      const name = this.parseAttrName();
+      if (!name) break;
+      names.push(name);
+    }
+    const semi = this.endStatement(kw.start, null);
+    return {
+      kind: "Inherit",
+      from,
+      names,
+      semi,
+      start: kw.start,
+      end: semi !== -1 ? semi + 1 : this.prevEnd(),
+    };
+  }
+
+  private parseLetDecl(): BindingItem {
+    const kw = this.next();
+    let name: Ident | null = null;
+    let type: Expr | null = null;
+    const nameTok = this.peek();
+    if (nameTok.type === "uri") {
+      // `_let x:string` lexes as a URI, exactly like it would in Nix; split it.
+      this.next();
+      const colon = nameTok.text.indexOf(":");
+      name = {
+        kind: "Ident",
+        name: nameTok.text.slice(0, colon),
+        start: nameTok.start,
+        end: nameTok.start + colon,
+      };
+      const typeStart = nameTok.start + colon + 1;
+      type = {
+        kind: "Ident",
+        name: nameTok.text.slice(colon + 1),
+        start: typeStart,
+        end: nameTok.end,
+      };
+    } else {
+      if (nameTok.type === "id" && !KEYWORDS.has(nameTok.text)) {
+        this.next();
+        name = {
+          kind: "Ident",
+          name: nameTok.text,
+          start: nameTok.start,
+          end: nameTok.end,
+        };
+      } else {
+        this.error(
+          "syntax",
+          "Expected a variable name after '_let'.",
+          kw.start,
+          kw.end,
+        );
+      }
+      if (this.eat(":")) {
+        type = this.parseOperand(NOT_BP);
+      } else if (name) {
+        this.error(
+          "syntax",
+          `Missing ':' type annotation for '${name.name}'.`,
+          name.start,
+          name.end,
+        );
+      }
+    }
+    const eq = this.eat("=");
+    let value: Expr | null = null;
+    if (eq) {
+      value = this.parseExpr();
+    } else {
+      const at = type ?? name ?? kw;
+      this.error("missing-equals", "Missing '=' assignment.", kw.start, at.end);
+    }
+    const semi = this.endStatement(kw.start, value);
+    return {
+      kind: "LetDecl",
+      name,
+      type,
+      eq: eq ? eq.start : -1,
+      value,
+      semi,
+      start: kw.start,
+      end: semi !== -1 ? semi + 1 : this.prevEnd(),
+    };
+  }
+
+  private parseImport(): BindingItem {
+    const kw = this.next();
+    let target: Expr | null = null;
+    if (this.startsExpr(this.peek()) && !this.atBindingStart()) {
+      target = this.parsePrimary();
+    } else {
+      this.error(
+        "syntax",
+        "Expected a path after '_import'.",
+        kw.start,
+        kw.end,
+      );
+    }
+    // The trailing `;` is optional for imports.
+    const semi = this.eat(";");
+    return {
+      kind: "Import",
+      keywordEnd: kw.end,
+      target,
+      semi: semi ? semi.start : -1,
+      start: kw.start,
+      end: semi ? semi.end : this.prevEnd(),
+    };
+  }
+
+  private parseAction(form: string, length: number): Action {
+    const start = this.peek().start;
+    for (let i = 0; i < length; i++) this.next();
+    const formEnd = this.prevEnd();
+    const meaning = ACTION_FORMS[form];
+    // `s! = {` is accepted as a legacy spelling.
+    this.eat("=");
+    let guard: Expr | null = null;
+    let guardStart = -1;
+    let guardEnd = -1;
+    const open = this.peek();
+    if (this.isOp(open, "[")) {
+      this.next();
+      guardStart = open.start;
+      guard = this.withOpen("[", () =>
+        this.at("]") ? null : this.parseExpr(),
+      );
+      this.expectClose(open);
+      guardEnd = this.prevEnd();
+    }
+    let body: AttrSet | null = null;
+    if (this.at("{")) {
+      body = this.parseAttrSet(false, this.peek().start);
+    } else {
+      this.error("syntax", `Expected '{' after '${form}'.`, start, formEnd);
+    }
+    const semi = this.endStatement(start, body);
+    return {
+      kind: "Action",
+      form,
+      scope: meaning.scope,
+      conditional: meaning.conditional,
+      formEnd,
+      guard,
+      guardStart,
+      guardEnd,
+      body,
+      semi,
+      start,
+      end: semi !== -1 ? semi + 1 : this.prevEnd(),
+    };
+  }
+
+  private parseAttrPath(): AttrName[] {
+    const path: AttrName[] = [];
+    const first = this.parseAttrName();
+    if (!first) return path;
+    path.push(first);
+    while (this.at(".")) {
+      const dot = this.next();
+      const name = this.parseAttrName();
+      if (!name) {
+        this.error(
+          "syntax",
+          "Expected an attribute name after '.'.",
+          dot.start,
+          dot.end,
+        );
+        break;
+      }
+      path.push(name);
+    }
+    return path;
+  }
+
+  private parseAttrName(): AttrName | null {
+    const tok = this.peek();
+    if (tok.type === "id" && (!KEYWORDS.has(tok.text) || tok.text === "or")) {
+      this.next();
+      return { kind: "Ident", name: tok.text, start: tok.start, end: tok.end };
+    }
+    if (tok.type === "str_open") return this.parseString();
+    if (tok.type === "interp_open") return this.parseInterp();
+    if (this.isOp(tok, "(")) {
+      const kw = this.peek(1);
+      if (kw.type === "id" && STRUCTURAL_KINDS.includes(kw.text))
+        return this.parseStructural();
+      this.next();
+      const expr = this.withOpen("(", () => this.parseExpr());
+      this.expectClose(tok);
+      return { kind: "Paren", expr, start: tok.start, end: this.prevEnd() };
+    }
+    return null;
+  }
+
+  // --- expressions ---
+
+  parseExpr(): Expr {
+    const tok = this.peek();
+    if (tok.type === "id") {
+      switch (tok.text) {
+        case "let":
+          if (!this.at("{", 1)) return this.parseLet();
+          break;
+        case "with": {
+          this.next();
+          const scope = this.parseExpr();
+          this.expectToken(";", "with");
+          const body = this.parseExpr();
+          return {
+            kind: "With",
+            scope,
+            body,
+            start: tok.start,
+            end: this.prevEnd(),
+          };
+        }
+        case "assert": {
+          this.next();
+          const cond = this.parseExpr();
+          this.expectToken(";", "assert");
+          const body = this.parseExpr();
+          return {
+            kind: "Assert",
+            cond,
+            body,
+            start: tok.start,
+            end: this.prevEnd(),
+          };
+        }
+        case "if": {
+          this.next();
+          const cond = this.parseExpr();
+          const then = this.expectKeyword("then") ? this.parseExpr() : null;
+          const otherwise = this.expectKeyword("else")
+            ? this.parseExpr()
+            : null;
+          return {
+            kind: "If",
+            cond,
+            then,
+            else: otherwise,
+            start: tok.start,
+            end: this.prevEnd(),
+          };
+        }
+      }
+      if (!KEYWORDS.has(tok.text) && this.at(":", 1)) {
+        this.next();
+        this.next();
+        const param: Ident = {
+          kind: "Ident",
+          name: tok.text,
+          start: tok.start,
+          end: tok.end,
+        };
+        const body = this.parseExpr();
+        return {
+          kind: "Lambda",
+          param,
+          body,
+          start: tok.start,
+          end: this.prevEnd(),
+        };
+      }
+      if (!KEYWORDS.has(tok.text) && this.at("@", 1) && this.at("{", 2)) {
+        this.next();
+        this.next();
+        const bind: Ident = {
+          kind: "Ident",
+          name: tok.text,
+          start: tok.start,
+          end: tok.end,
+        };
+        return this.parsePatternLambda(tok.start, bind);
+      }
+    }
+    if (this.isOp(tok, "{") && this.looksLikePattern()) {
+      return this.parsePatternLambda(tok.start, null);
+    }
+    return this.parseOperand(0);
+  }
+
+  private expectToken(text: string, after: string): boolean {
+    if (this.eat(text)) return true;
+    const at = this.prevEnd();
+    this.error("syntax", `Expected '${text}' after '${after}'.`, at, at);
+    return false;
+  }
+
+  private expectKeyword(word: string): boolean {
+    if (this.atKeyword(word)) {
+      this.next();
+      return true;
+    }
+    const at = this.prevEnd();
+    this.error("syntax", `Expected '${word}'.`, at, at);
+    return false;
+  }
+
+  private parseLet(): Expr {
+    const kw = this.next();
+    const items = this.parseBindings("in");
+    let body: Expr | null = null;
+    if (this.atKeyword("in")) {
+      this.next();
+      body = this.parseExpr();
+    } else {
+      this.error(
+        "syntax",
+        "Missing 'in' after 'let' bindings.",
+        kw.start,
+        kw.end,
+      );
+    }
+    return { kind: "Let", items, body, start: kw.start, end: this.prevEnd() };
+  }
+
+  private looksLikePattern(): boolean {
+    const a = this.peek(1);
+    const b = this.peek(2);
+    if (this.isOp(a, "}")) return this.isOp(b, ":") || this.isOp(b, "@");
+    if (this.isOp(a, "...")) return true;
+    if (a.type === "id") {
+      return (
+        this.isOp(b, ",") ||
+        this.isOp(b, "?") ||
+        (this.isOp(b, "}") && (this.at(":", 3) || this.at("@", 3)))
+      );
+    }
+    return false;
+  }
+
+  private parsePatternLambda(start: number, bind: Ident | null): Expr {
+    const open = this.next();
+    const fields: PatternField[] = [];
+    let ellipsis = false;
+    this.withOpen("{", () => {
+      while (!this.at("}") && this.peek().type !== "eof") {
+        if (this.eat("...")) {
+          ellipsis = true;
+        } else if (this.peek().type === "id") {
+          const t = this.next();
+          const name: Ident = {
+            kind: "Ident",
+            name: t.text,
+            start: t.start,
+            end: t.end,
+          };
+          const def = this.eat("?") ? this.parseExpr() : null;
+          fields.push({
+            name,
+            default: def,
+            start: t.start,
+            end: this.prevEnd(),
+          });
+        } else {
+          const t = this.peek();
+          this.error(
+            "syntax",
+            `Unexpected '${t.text}' in function arguments.`,
+            t.start,
+            t.end,
+          );
+          if (this.isCloser(t)) break;
+          this.next();
+        }
+        if (!this.eat(",")) break;
+      }
+    });
+    this.expectClose(open);
+    const patEnd = this.prevEnd();
+    if (!bind && this.at("@")) {
+      this.next();
+      const t = this.next();
+      bind = { kind: "Ident", name: t.text, start: t.start, end: t.end };
+    }
+    const pattern: Pattern = {
+      kind: "Pattern",
+      fields,
+      ellipsis,
+      bind,
+      start,
+      end: patEnd,
+    };
+    this.expectToken(":", "function arguments");
+    const body = this.parseExpr();
+    return { kind: "Lambda", param: pattern, body, start, end: this.prevEnd() };
+  }
+
+  /** Operator-precedence parsing of everything below `if`/`let`/lambdas. */
+  private parseOperand(minBp: number): Expr {
+    const tok = this.peek();
+    let left: Expr;
+    if (this.isOp(tok, "!")) {
+      this.next();
+      const operand = this.parseOperand(NOT_BP);
+      left = {
+        kind: "Unary",
+        op: "!",
+        operand,
+        start: tok.start,
+        end: this.prevEnd(),
+      };
+    } else if (this.isOp(tok, "-")) {
+      this.next();
+      const operand = this.parseOperand(NEGATE_BP);
+      left = {
+        kind: "Unary",
+        op: "-",
+        operand,
+        start: tok.start,
+        end: this.prevEnd(),
+      };
+    } else if (
+      (this.isOp(tok, "++") || this.isOp(tok, "--")) &&
+      this.at("[", 1)
+    ) {
+      this.next();
+      const list = this.parsePrimary();
+      left = {
+        kind: "Cascade",
+        op: tok.text as "++" | "--",
+        list,
+        start: tok.start,
+        end: this.prevEnd(),
+      };
+    } else {
+      left = this.parseApply();
+    }
+
+    for (;;) {
+      const op = this.peek();
+      if (op.type !== "op") break;
+      if (op.text === "?" && HAS_ATTR_BP >= minBp) {
+        this.next();
+        const path = this.parseAttrPath();
+        left = {
+          kind: "HasAttr",
+          target: left,
+          path,
+          start: left.start,
+          end: this.prevEnd(),
+        };
+        continue;
+      }
+      const info = BINARY_OPS[op.text];
+      if (!info || info.bp < minBp) break;
+      this.next();
+      const right = this.startsOperand(this.peek())
+        ? this.parseOperand(info.assoc === "right" ? info.bp : info.bp + 1)
+        : null;
+      if (!right) {
+        this.error(
+          "syntax",
+          `Expected an expression after '${op.text}'.`,
+          op.start,
+          op.end,
+        );
+      }
+      left = {
+        kind: "Binary",
+        op: op.text,
+        left,
+        right,
+        start: left.start,
+        end: this.prevEnd(),
+      };
+      if (
+        info.assoc === "none" &&
+        BINARY_OPS[this.peek().text]?.bp === info.bp &&
+        this.peek().type === "op"
+      ) {
+        const t = this.peek();
+        this.error(
+          "syntax",
+          `Operator '${t.text}' is not associative.`,
+          t.start,
+          t.end,
+        );
+      }
+    }
+    return left;
+  }
+
+  private startsOperand(tok: Token): boolean {
+    return (
+      this.startsExpr(tok) ||
+      this.isOp(tok, "!") ||
+      this.isOp(tok, "-") ||
+      this.isOp(tok, "++") ||
+      this.isOp(tok, "--") ||
+      (tok.type === "id" && ["let", "with", "assert", "if"].includes(tok.text))
+    );
+  }
+
+  private parseApply(): Expr {
+    let fn = this.parseSelect();
+    while (this.startsExpr(this.peek()) && !this.atBindingStart()) {
+      // `let`/`rec` only continue an application when they start a set.
+      if (this.atKeyword("let")) break;
+      const arg = this.parseSelect();
+      fn = { kind: "Apply", fn, arg, start: fn.start, end: arg.end };
+    }
+    return fn;
+  }
+
+  private parseSelect(): Expr {
+    let target = this.parsePrimary();
+    if (target.kind === "ZenVar") return target;
+    if (this.at(".")) {
+      const path: AttrName[] = [];
+      while (this.at(".")) {
+        const dot = this.next();
+        const name = this.parseAttrName();
+        if (!name) {
+          this.error(
+            "syntax",
+            "Expected an attribute name after '.'.",
+            dot.start,
+            dot.end,
+          );
+          break;
+        }
+        path.push(name);
+      }
+      let def: Expr | null = null;
+      if (this.atKeyword("or")) {
+        this.next();
+        def = this.parseSelect();
+      }
+      target = {
+        kind: "Select",
+        target,
+        path,
+        default: def,
+        start: target.start,
+        end: this.prevEnd(),
+      };
+    }
+    return target;
+  }
+
+  parsePrimary(): Expr {
+    const tok = this.peek();
+    switch (tok.type) {
+      case "id": {
+        if (tok.text === "rec" && this.at("{", 1)) {
+          this.next();
+          return this.parseAttrSet(true, tok.start);
+        }
+        if (tok.text === "let" && this.at("{", 1)) {
+          // Legacy `let { … }`: treat it as a recursive set.
+          this.next();
+          return this.parseAttrSet(true, tok.start);
+        }
+        if (KEYWORDS.has(tok.text)) break;
+        this.next();
+        if (tok.text === "enableOption" && this.at("{")) {
+          const body = this.parseAttrSet(false, this.peek().start);
+          return {
+            kind: "EnableOption",
+            nameEnd: tok.end,
+            body,
+            start: tok.start,
+            end: body.end,
+          };
+        }
+        return {
+          kind: "Ident",
+          name: tok.text,
+          start: tok.start,
+          end: tok.end,
+        };
+      }
+      case "int":
+        this.next();
+        return {
+          kind: "Int",
+          value: parseInt(tok.text, 10),
+          start: tok.start,
+          end: tok.end,
+        };
+      case "float":
+        this.next();
+        return {
+          kind: "Float",
+          value: parseFloat(tok.text),
+          start: tok.start,
+          end: tok.end,
+        };
+      case "path":
+      case "spath":
+      case "uri":
+        this.next();
+        return {
+          kind: "Path",
+          style:
+            tok.type === "path"
+              ? "path"
+              : tok.type === "spath"
+                ? "search"
+                : "uri",
+          value: tok.text,
+          start: tok.start,
+          end: tok.end,
+        };
+      case "zvar":
+        return this.parseZenVar();
+      case "str_open":
+      case "ind_open":
+        return this.parseString();
+      case "op":
+        if (tok.text === "(") {
+          const kw = this.peek(1);
+          if (kw.type === "id" && STRUCTURAL_KINDS.includes(kw.text))
+            return this.parseStructural();
+          this.next();
+          const expr = this.withOpen("(", () => this.parseExpr());
+          this.expectClose(tok);
+          return { kind: "Paren", expr, start: tok.start, end: this.prevEnd() };
+        }
+        if (tok.text === "[") return this.parseList();
+        if (tok.text === "{") return this.parseAttrSet(false, tok.start);
+        break;
+    }
+    this.error(
+      "syntax",
+      tok.type === "eof"
+        ? "Unexpected end of file."
+        : `Unexpected '${tok.text}'.`,
+      tok.start,
+      tok.end,
+    );
+    // Leave closers and statement ends for the enclosing construct.
+    if (
+      !this.isCloser(tok) &&
+      !this.isOp(tok, ";") &&
+      tok.type !== "eof" &&
+      !this.atBindingStart()
+    ) {
+      this.next();
+    }
+    return { kind: "Error", start: tok.start, end: tok.end };
+  }
+
+  private parseZenVar(): Expr {
+    const tok = this.next();
+    const segments: Ident[] = [];
+    let end = tok.end;
+    while (this.at(".") && this.peek().start === end) {
+      const dot = this.next();
+      const seg = this.peek();
+      if (seg.type === "id" && seg.start === dot.end) {
+        this.next();
+        segments.push({
+          kind: "Ident",
+          name: seg.text,
+          start: seg.start,
+          end: seg.end,
+        });
+        end = seg.end;
+      } else {
+        // `$v.` while typing: keep an empty segment so completion can see it.
+        segments.push({
+          kind: "Ident",
+          name: "",
+          start: dot.end,
+          end: dot.end,
+        });
+        end = dot.end;
+        break;
+      }
+    }
+    return {
+      kind: "ZenVar",
+      name: tok.text.slice(1),
+      nameEnd: tok.end,
+      segments,
+      start: tok.start,
+      end,
+    };
+  }
+
+  private parseString(): StringLit {
+    const open = this.next();
+    const indented = open.type === "ind_open";
+    const closeType = indented ? "ind_close" : "str_close";
+    const parts: (StringChunk | Interp)[] = [];
+    for (;;) {
+      const tok = this.peek();
+      if (tok.type === closeType) {
+        this.next();
+        break;
+      }
+      if (tok.type === "str_chunk" || tok.type === "ind_chunk") {
+        this.next();
+        parts.push({
+          kind: "StringChunk",
+          raw: tok.text,
+          start: tok.start,
+          end: tok.end,
+        });
+        continue;
+      }
+      if (tok.type === "interp_open") {
+        parts.push(this.parseInterp());
+        continue;
+      }
+      this.error(
+        "unclosed",
+        "Unterminated string.",
+        open.start,
+        open.end,
+        indented ? "''" : '"',
+      );
+      break;
+    }
+    return {
+      kind: "String",
+      indented,
+      parts,
+      start: open.start,
+      end: this.prevEnd(),
+    };
+  }
+
+  private parseInterp(): Interp {
+    const open = this.next();
+    const expr = this.withOpen("{", () => this.parseExpr());
+    if (this.peek().type === "interp_close") {
+      this.next();
+    } else {
+      this.error(
+        "unclosed",
+        "Unclosed interpolation '${'.",
+        open.start,
+        open.end,
+        "}",
+      );
+    }
+    return { kind: "Interp", expr, start: open.start, end: this.prevEnd() };
+  }
+
+  private parseList(): Expr {
+    const open = this.next();
+    const items: Expr[] = [];
+    this.withOpen("[", () => {
+      for (;;) {
+        const tok = this.peek();
+        if (this.isOp(tok, "]") || tok.type === "eof") break;
+        if (this.isCloser(tok)) {
+          if (this.strayCloser("]")) break;
+          continue;
+        }
+        // `x = …` on a line of its own is the next binding; the `]` is missing
+        if (this.atLineStart(tok) && this.atBindingStart()) break;
+        if (!this.startsExpr(tok)) {
+          this.error(
+            "syntax",
+            `Unexpected '${tok.text}' in list.`,
+            tok.start,
+            tok.end,
+          );
+          if (this.isOp(tok, ";")) break;
+          this.next();
+          continue;
+        }
+        items.push(this.parseSelect());
+      }
+    });
+    this.expectClose(open);
+    return { kind: "List", items, start: open.start, end: this.prevEnd() };
+  }
+
+  private parseAttrSet(rec: boolean, start: number): AttrSet {
+    const open = this.next();
+    const items = this.withOpen("{", () => this.parseBindings("}"));
+    this.expectClose(open);
+    return {
+      kind: "AttrSet",
+      rec,
+      implicit: false,
+      items,
+      start,
+      end: this.prevEnd(),
+    };
+  }
+
+  private parseStructural(): Structural {
+    const open = this.next();
+    const kw = this.next();
+    const args: StructuralArg[] = [];
+    let depth = 0;
+    for (;;) {
+      const tok = this.peek();
+      if (tok.type === "eof") break;
+      if (this.isOp(tok, ")") && depth === 0) break;
+      if (this.isOp(tok, "(")) depth++;
+      if (this.isOp(tok, ")")) depth--;
+      if (
+        (this.isOp(tok, "}") || this.isOp(tok, "]") || this.isOp(tok, ";")) &&
+        depth === 0
+      )
+        break;
+      this.next();
+      // Tokens that touch each other form one argument: `foo.bar.baz`.
+      const last = args[args.length - 1];
+      if (last && last.end === tok.start) {
+        last.end = tok.end;
+        last.text = this.text.slice(last.start, last.end);
+      } else {
+        args.push({ text: tok.text, start: tok.start, end: tok.end });
+      }
+    }
+    this.expectClose(open);
+    return {
+      kind: "Structural",
+      node: kw.text,
+      nodeStart: kw.start,
+      nodeEnd: kw.end,
+      args,
+      start: open.start,
+      end: this.prevEnd(),
+    };
+  }
+}
+
+export function parse(text: string): ParseResult {
+  const lexed = tokenize(text);
+  const parser = new Parser(text, lexed.tokens);
+  const file = parser.parseFile();
+  const errors: ParseError[] = [
+    ...lexed.errors.map((e) => ({ code: "syntax" as const, ...e })),
+    ...parser.errors,
+  ].sort((a, b) => a.start - b.start);
+  return { text, file, tokens: lexed.tokens, comments: lexed.comments, errors };
+}
@@ -0,0 +1,260 @@
+// Config paths: where a position of a Z.O.N.E. file lands in the option tree,
+// which is what `$path` and `$name` stand for, and the `(alias path)` entries
+// that point elsewhere in it. The rules match the desugarer: only nodes add to
+// the path, settings and action bodies do not.
+
+import {
+  AttrName,
+  AttrSet,
+  Binding,
+  Expr,
+  Node,
+  attrNameText,
+  nodesAt,
+  walk,
+} from "./ast";
+import { ParseResult } from "./parser";
+
+/** The option tree every module hangs off. */
+export const CONFIG_ROOT = "zenos";
+
+/** Whether a set declares nodes, options or actions rather than plain data. */
+export function hasZoneItems(set: AttrSet): boolean {
+  let found = false;
+  walk(set, (node) => {
+    if (found) return false;
+    if (
+      node.kind === "EnableOption" ||
+      node.kind === "Action" ||
+      node.kind === "LetDecl" ||
+      (node.kind === "Binding" &&
+        node.path.some((name) => name.kind === "Structural"))
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/** Whether a binding declares a node of the tree rather than a setting. */
+function isNode(binding: Binding): boolean {
+  const value = binding.value;
+  return (
+    value?.kind === "EnableOption" ||
+    (value?.kind === "AttrSet" && hasZoneItems(value)) ||
+    binding.path.some((name) => name.kind === "Structural")
+  );
+}
+
+/**
+ * A name as a path segment: `<id>` for a freeform entry, the module name for
+ * `(zmdl name)`, "" for names that add nothing and null for dynamic ones.
+ */
+function segment(name: AttrName): string | null {
+  if (name.kind === "Structural") {
+    const arg = name.args[0]?.text;
+    if (name.node === "freeform") return arg ? `<${arg}>` : null;
+    if (name.node === "zmdl") return arg ?? null;
+    if (name.node === "programs" || name.node === "packages") {
+      return name.node;
+    }
+    return "";
+  }
+  return attrNameText(name);
+}
+
+/**
+ * The config path at `offset`: of the node it is in, or, on a binding name,
+ * of the names up to the cursor. `base` is where the file is attached.
+ * Null when a dynamic name is in the way.
+ */
+export function configPathAt(
+  parsed: ParseResult,
+  offset: number,
+  base: string[] = [CONFIG_ROOT],
+): string[] | null {
+  const segments = [...base];
+  for (const node of nodesAt(parsed.file, offset)) {
+    // Inside an action body names are NixOS options, not nodes
+    if (node.kind === "Action") break;
+    if (node.kind !== "Binding") continue;
+    const head = node.path[0];
+    if (!head || attrNameText(head)?.startsWith("_")) break;
+    const last = node.path[node.path.length - 1];
+    const onName = offset <= last.end;
+    if (!onName && !isNode(node)) break;
+    for (const name of node.path) {
+      if (onName && name.start > offset) break;
+      const text = segment(name);
+      if (text === null) return null;
+      if (text) segments.push(text);
+    }
+    if (onName) break;
+    // `enable = enableOption { … }` describes its parent node
+    if (
+      node.value?.kind === "EnableOption" &&
+      segments[segments.length - 1] === "enable"
+    ) {
+      segments.pop();
+    }
+  }
+  return segments;
+}
+
+export interface ConfigEntry {
+  kind: "node" | "setting" | "alias";
+  path: string[];
+  /** The binding that declares the entry, and its name. */
+  start: number;
+  end: number;
+  nameStart: number;
+  nameEnd: number;
+  value: Expr | null;
+  /** Where an `(alias path)` points, and the offsets of `path`. */
+  target?: { path: string[]; start: number; end: number };
+}
+
+/** Every node, setting and alias a file declares, with its config path. */
+export function configEntries(
+  parsed: ParseResult,
+  base: string[] = [CONFIG_ROOT],
+): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  walk(parsed.file, (node: Node) => {
+    if (node.kind === "Action") return false;
+    if (node.kind !== "Binding") return;
+    const first = node.path[0];
+    if (!first || attrNameText(first)?.startsWith("_")) return false;
+    const last = node.path[node.path.length - 1];
+    const path = configPathAt(parsed, last.end, base);
+    if (!path) return false;
+    const entry: ConfigEntry = {
+      kind: "setting",
+      path,
+      start: node.start,
+      end: node.end,
+      nameStart: first.start,
+      nameEnd: last.end,
+      value: node.value,
+    };
+    entries.push(entry);
+    if (isNode(node)) {
+      entry.kind = "node";
+      return;
+    }
+    const value = node.value;
+    const target = value?.kind === "Structural" && value.node === "alias";
+    if (target && value.args[0]) {
+      entry.kind = "alias";
+      entry.target = {
+        path: aliasPath(value.args[0].text),
+        start: value.args[0].start,
+        end: value.args[0].end,
+      };
+    }
+    // What is inside a setting is the setting's own business
+    return false;
+  });
+  return entries;
+}
+
+/** The config path `(alias path)` points at; targets start below the root. */
+export function aliasPath(target: string): string[] {
+  return [CONFIG_ROOT, ...target.split(".")];
+}
+
+/** Whether `path` starts with `prefix`; `<id>` segments match any name. */
+function startsWith(path: string[], prefix: string[]): boolean {
+  if (prefix.length > path.length) return false;
+  return prefix.every(
+    (name, i) =>
+      name === path[i] || name.startsWith("<") || path[i].startsWith("<"),
+  );
+}
+
+/** Whether two config paths name the same entry. */
+export function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && startsWith(a, b);
+}
+
+/**
+ * Whether `path` is in the tree: declared, the parent of something declared,
+ * or inside a setting whose value is only known at evaluation.
+ */
+function inTree(tree: ConfigEntry[], path: string[]): boolean {
+  return tree.some(
+    (entry) =>
+      startsWith(entry.path, path) ||
+      (entry.kind === "setting" && startsWith(path, entry.path)),
+  );
+}
+
+interface Resolution {
+  /** The entry the alias ends up at, null for a cycle. */
+  path: string[] | null;
+  /** Every alias passed on the way, starting with the one resolved. */
+  chain: string[][];
+}
+
+/** Follow an alias, and the aliases its target lies under, to the end. */
+function resolveAlias(tree: ConfigEntry[], alias: ConfigEntry): Resolution {
+  const chain = [alias.path];
+  let current = alias.target!.path;
+  for (;;) {
+    const next = tree.find(
+      (entry) => entry.target && startsWith(current, entry.path),
+    );
+    if (!next) return { path: current, chain };
+    if (chain.some((seen) => samePath(seen, next.path))) {
+      return { path: null, chain: [...chain, next.path] };
+    }
+    chain.push(next.path);
+    current = [...next.target!.path, ...current.slice(next.path.length)];
+  }
+}
+
+export interface AliasIssue {
+  start: number;
+  end: number;
+  message: string;
+  code: "dangling-alias" | "alias-cycle";
+}
+
+/** Aliases of `entries` that point nowhere or back at themselves. */
+export function checkAliases(
+  entries: ConfigEntry[],
+  tree: ConfigEntry[],
+): AliasIssue[] {
+  const issues: AliasIssue[] = [];
+  for (const alias of entries) {
+    const target = alias.target;
+    if (!target) continue;
+    const resolved = resolveAlias(tree, alias);
+    if (resolved.path === null) {
+      // A chain that runs into a loop elsewhere is reported there
+      const last = resolved.chain[resolved.chain.length - 1];
+      if (!samePath(last, alias.path)) continue;
+      issues.push({
+        start: target.start,
+        end: target.end,
+        code: "alias-cycle",
+        message: `Alias cycle: ${resolved.chain.map((p) => p.join(".")).join(" → ")}.`,
+      });
+    } else if (!inTree(tree, resolved.path)) {
+      const via =
+        resolved.chain.length > 1
+          ? ` (through ${resolved.chain
+              .slice(1)
+              .map((p) => p.join("."))
+              .join(", ")})`
+          : "";
+      issues.push({
+        start: target.start,
+        end: target.end,
+        code: "dangling-alias",
+        message: `Alias target '${resolved.path.join(".")}' does not exist${via}.`,
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,540 @@
+// Declarative schemas for the `_meta`, `_src` and `_build` blocks, and the
+// checks and lookups that diagnostics, completion and hover share.
+//
+// Field types reuse the `$type` system, so a field is checked exactly like a
+// `_let` value of the same type would be.
+
+import {
+  AttrSet,
+  Binding,
+  Expr,
+  Node,
+  attrNameText,
+  nodesAt,
+  stringValue,
+  walk,
+} from "./ast";
+import { ParseResult } from "./parser";
+import { ZoneType, checkValue } from "./types";
+
+export interface FieldSchema {
+  type: ZoneType;
+  required?: boolean;
+  doc: string;
+}
+
+export interface FieldSet {
+  doc: string;
+  fields: Record<string, FieldSchema>;
+}
+
+export type BlockName = "_meta" | "_src" | "_build";
+
+const STRING: ZoneType = { kind: "string" };
+const BOOL: ZoneType = { kind: "bool" };
+const LIST: ZoneType = { kind: "list", of: null };
+const STRINGS: ZoneType = { kind: "list", of: STRING };
+const PACKAGES: ZoneType = { kind: "list", of: { kind: "package" } };
+
+export const BLOCK_DOCS: Record<BlockName, string> = {
+  _meta: "Module metadata: a summary, description, version and ownership.",
+  _src: "Where a .zpkg fetches its sources from: `src.<fetcher> { … }`.",
+  _build: "How a .zpkg is built. `type` selects the builder.",
+};
+
+export const META_SCHEMA: FieldSet = {
+  doc: BLOCK_DOCS._meta,
+  fields: {
+    brief: { type: STRING, doc: "One-line summary, used as the option text." },
+    description: { type: STRING, doc: "Longer description of the module." },
+    version: { type: STRING, doc: "Version of the module or package." },
+    homepage: { type: STRING, doc: "Project homepage URL." },
+    dependencies: {
+      type: LIST,
+      doc: "Other modules or packages this one needs.",
+    },
+    maintainers: { type: LIST, doc: "Maintainers, usually `$m.<name>`." },
+    license: {
+      type: {
+        kind: "either",
+        options: [STRING, { kind: "set", of: null }, LIST],
+      },
+      doc: "License, usually `$l.<name>`.",
+    },
+  },
+};
+
+const HASH: FieldSchema = {
+  type: STRING,
+  required: true,
+  doc: 'SRI hash of the fetched sources, e.g. `"sha256-…"`.',
+};
+
+export const FETCHERS: Record<string, FieldSet> = {
+  github: {
+    doc: "Fetch a revision of a GitHub repository.",
+    fields: {
+      owner: { type: STRING, required: true, doc: "Repository owner." },
+      repo: { type: STRING, required: true, doc: "Repository name." },
+      rev: { type: STRING, required: true, doc: "Commit, tag or branch." },
+      hash: HASH,
+      fetchSubmodules: { type: BOOL, doc: "Also fetch git submodules." },
+    },
+  },
+  tarball: {
+    doc: "Fetch and unpack a tarball.",
+    fields: {
+      url: { type: STRING, required: true, doc: "URL of the archive." },
+      hash: HASH,
+      stripRoot: { type: BOOL, doc: "Strip the single top-level directory." },
+    },
+  },
+  git: {
+    doc: "Fetch a revision of any git repository.",
+    fields: {
+      url: { type: STRING, required: true, doc: "Repository URL." },
+      rev: { type: STRING, required: true, doc: "Commit to check out." },
+      hash: HASH,
+      ref: { type: STRING, doc: "Branch or tag containing `rev`." },
+      fetchSubmodules: { type: BOOL, doc: "Also fetch git submodules." },
+    },
+  },
+  url: {
+    doc: "Fetch a single file.",
+    fields: {
+      url: { type: STRING, required: true, doc: "URL of the file." },
+      hash: HASH,
+      name: { type: STRING, doc: "Store name of the downloaded file." },
+    },
+  },
+};
+
+/** Fields every `_build` block accepts, whatever its type. */
+export const BUILD_COMMON: Record<string, FieldSchema> = {
+  type: {
+    type: STRING,
+    required: true,
+    doc: "Builder to use, e.g. `$type.stdenv`.",
+  },
+  buildInputs: { type: PACKAGES, doc: "Libraries needed at run time." },
+  nativeBuildInputs: { type: PACKAGES, doc: "Tools needed at build time." },
+  patches: { type: LIST, doc: "Patches applied to the sources." },
+  doCheck: { type: BOOL, doc: "Run the test suite after building." },
+};
+
+export const BUILD_TYPES: Record<string, FieldSet> = {
+  stdenv: {
+    doc: "Build with `stdenv.mkDerivation` (configure, make, make install).",
+    fields: {
+      configureFlags: { type: STRINGS, doc: "Extra flags for ./configure." },
+      makeFlags: { type: STRINGS, doc: "Extra flags for make." },
+      buildPhase: { type: STRING, doc: "Replaces the default build phase." },
+      installPhase: {
+        type: STRING,
+        doc: "Replaces the default install phase.",
+      },
+    },
+  },
+  cargo: {
+    doc: "Build a Rust crate with `rustPlatform.buildRustPackage`.",
+    fields: {
+      cargoHash: {
+        type: STRING,
+        required: true,
+        doc: "Hash of the vendored Cargo dependencies.",
+      },
+      buildFeatures: { type: STRINGS, doc: "Cargo features to enable." },
+      buildNoDefaultFeatures: {
+        type: BOOL,
+        doc: "Disable the crate's default features.",
+      },
+    },
+  },
+};
+
+/** Add (or replace) a `_build` type, e.g. from project configuration. */
+export function registerBuildType(name: string, schema: FieldSet) {
+  BUILD_TYPES[name] = schema;
+}
+
+export interface BlockIssue {
+  start: number;
+  end: number;
+  message: string;
+  severity: "error" | "warning";
+  code: string;
+  /** For `invalid-field`: the type the value failed. */
+  expected?: ZoneType;
+}
+
+/** A `_meta`/`_src`/`_build` binding resolved against its schema. */
+export interface BlockInstance {
+  block: BlockName;
+  /** `_meta`, `src.github`, `_build (cargo)`; used in messages. */
+  label: string;
+  binding: Binding;
+  /** Null when the schema could not be chosen (unknown fetcher …). */
+  schema: FieldSet | null;
+  /** The set holding the fields; null for `_meta.brief = …`. */
+  set: AttrSet | null;
+}
+
+function blockName(binding: Binding): BlockName | null {
+  const first = binding.path[0] && attrNameText(binding.path[0]);
+  return first === "_meta" || first === "_src" || first === "_build"
+    ? first
+    : null;
+}
+
+/** `src.github { … }` → the `github` name and the argument set. */
+export function fetcherCall(value: Expr | null) {
+  if (!value || value.kind !== "Apply" || value.fn.kind !== "Select") {
+    return null;
+  }
+  const select = value.fn;
+  if (
+    select.target.kind !== "Ident" ||
+    select.target.name !== "src" ||
+    select.path.length !== 1 ||
+    select.path[0].kind !== "Ident"
+  ) {
+    return null;
+  }
+  return {
+    name: select.path[0],
+    args: value.arg.kind === "AttrSet" ? value.arg : null,
+  };
+}
+
+function fieldValue(set: AttrSet, name: string): Binding | undefined {
+  return set.items.find(
+    (item): item is Binding =>
+      item.kind === "Binding" &&
+      item.path.length === 1 &&
+      attrNameText(item.path[0]) === name,
+  );
+}
+
+/** `$type.cargo` or `"cargo"` → "cargo". */
+function buildTypeName(value: Expr | null): string | null {
+  if (!value) return null;
+  if (value.kind === "ZenVar" && value.name === "type") {
+    return value.segments.length === 1 ? value.segments[0].name : null;
+  }
+  return stringValue(value);
+}
+
+function resolveBlock(
+  binding: Binding,
+  issues: BlockIssue[] = [],
+): BlockInstance | null {
+  const block = blockName(binding);
+  if (!block) return null;
+  const value = binding.value;
+  const head = binding.path[0];
+
+  if (block === "_meta") {
+    return {
+      block,
+      label: "_meta",
+      binding,
+      schema: META_SCHEMA,
+      set: value?.kind === "AttrSet" ? value : null,
+    };
+  }
+
+  if (block === "_src") {
+    const call = binding.path.length === 1 ? fetcherCall(value) : null;
+    if (!call) return null;
+    const schema = FETCHERS[call.name.name] ?? null;
+    if (!schema) {
+      issues.push({
+        start: call.name.start,
+        end: call.name.end,
+        message: `Unknown fetcher '${call.name.name}'. Expected one of: ${Object.keys(FETCHERS).join(", ")}.`,
+        severity: "error",
+        code: "unknown-fetcher",
+      });
+    }
+    return {
+      block,
+      label: `src.${call.name.name}`,
+      binding,
+      schema,
+      set: call.args,
+    };
+  }
+
+  if (binding.path.length !== 1 || value?.kind !== "AttrSet") return null;
+  const typeField = fieldValue(value, "type");
+  const typeName = buildTypeName(typeField?.value ?? null);
+  let schema: FieldSet | null = null;
+  if (!typeField) {
+    issues.push({
+      start: head.start,
+      end: head.end,
+      message: "Missing required field 'type' in _build.",
+      severity: "error",
+      code: "missing-field",
+    });
+  } else if (typeName && BUILD_TYPES[typeName]) {
+    const own = BUILD_TYPES[typeName];
+    schema = { doc: own.doc, fields: { ...BUILD_COMMON, ...own.fields } };
+  } else if (typeField.value && typeField.value.kind !== "Error") {
+    issues.push({
+      start: typeField.value.start,
+      end: typeField.value.end,
+      message: `Unknown build type${typeName ? ` '${typeName}'` : ""}. Expected one of: ${Object.keys(BUILD_TYPES).join(", ")}.`,
+      severity: "error",
+      code: "unknown-build-type",
+    });
+  }
+  return {
+    block,
+    label: typeName && schema ? `_build (${typeName})` : "_build",
+    binding,
+    schema,
+    set: value,
+  };
+}
+
+function checkField(
+  instance: BlockInstance,
+  field: Binding,
+  nameIndex: number,
+  issues: BlockIssue[],
+) {
+  const nameNode = field.path[nameIndex];
+  const name = attrNameText(nameNode);
+  if (name === null || !instance.schema) return;
+  const schema = instance.schema.fields[name];
+  if (!schema) {
+    issues.push({
+      start: nameNode.start,
+      end: nameNode.end,
+      message: `Unknown field '${name}' in ${instance.label}.`,
+      severity: "warning",
+      code: "unknown-field",
+    });
+    return;
+  }
+  // `type` is checked while choosing the build schema
+  if (instance.block === "_build" && name === "type") return;
+  if (field.path.length !== nameIndex + 1) return;
+  if (!field.value || field.value.kind === "Error") return;
+  const error = checkValue(schema.type, field.value);
+  if (error) {
+    issues.push({
+      start: error.start,
+      end: error.end,
+      message: `Field '${name}' of ${instance.label}: ${error.message}`,
+      severity: "error",
+      code: "invalid-field",
+      expected: error.expected,
+    });
+  }
+}
+
+export function checkBlocks(parsed: ParseResult): BlockIssue[] {
+  const issues: BlockIssue[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind !== "Binding") return;
+    const instance = resolveBlock(node, issues);
+    if (!instance || !instance.schema) return;
+
+    // `_meta.brief = …` names a single field
+    if (node.path.length > 1) {
+      checkField(instance, node, 1, issues);
+      return;
+    }
+    const set = instance.set;
+    if (!set) return;
+
+    const present = new Set<string>();
+    for (const item of set.items) {
+      if (item.kind === "Binding") {
+        const name = attrNameText(item.path[0]);
+        if (name !== null) present.add(name);
+        checkField(instance, item, 0, issues);
+      } else if (item.kind === "Inherit") {
+        for (const name of item.names) {
+          const text = attrNameText(name);
+          if (text !== null) present.add(text);
+        }
+      }
+    }
+    for (const [name, field] of Object.entries(instance.schema.fields)) {
+      if (!field.required || present.has(name)) continue;
+      // A missing `_build.type` was reported while resolving the block
+      if (instance.block === "_build" && name === "type") continue;
+      const at =
+        instance.block === "_src"
+          ? fetcherCall(node.value)!.name
+          : node.path[0];
+      issues.push({
+        start: at.start,
+        end: at.end,
+        message: `Missing required field '${name}' in ${instance.label}.`,
+        severity: "error",
+        code: "missing-field",
+      });
+    }
+  });
+  return issues;
+}
+
+/** The innermost block binding enclosing `offset`, with its resolved schema. */
+function enclosingBlock(chain: Node[]): BlockInstance | null {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const node = chain[i];
+    if (node.kind !== "Binding") continue;
+    const instance = resolveBlock(node);
+    if (instance) return instance;
+  }
+  return null;
+}
+
+/**
+ * The block whose fields can be written at `offset`: inside its set, or
+ * after `_meta.` in a binding path. Fields already present are excluded.
+ */
+export function blockFieldsAt(
+  parsed: ParseResult,
+  offset: number,
+): { instance: BlockInstance; missing: string[] } | null {
+  const chain = nodesAt(parsed.file, offset);
+  const instance = enclosingBlock(chain);
+  if (!instance || !instance.schema) return null;
+
+  const inner = chain[chain.length - 1];
+  const parent = chain[chain.length - 2];
+  let present: string[] = [];
+  if (instance.set && chain.includes(instance.set)) {
+    // Only directly inside the set, not in a nested value
+    const index = chain.indexOf(instance.set);
+    const below = chain[index + 1];
+    const typing =
+      !below ||
+      (below.kind === "Binding" &&
+        below.eq === -1 &&
+        offset <= (below.path[0]?.end ?? offset));
+    if (!typing) return null;
+    present = instance.set.items
+      .filter((item): item is Binding => item.kind === "Binding")
+      .filter((item) => item !== below)
+      .map((item) => attrNameText(item.path[0]))
+      .filter((name): name is string => name !== null);
+  } else if (
+    inner.kind === "Ident" &&
+    parent === instance.binding &&
+    instance.binding.path[1] === inner
+  ) {
+    present = [];
+  } else {
+    return null;
+  }
+
+  const missing = Object.keys(instance.schema.fields).filter(
+    (name) => !present.includes(name),
+  );
+  return { instance, missing };
+}
+
+export interface SchemaHover {
+  start: number;
+  end: number;
+  title: string;
+  /** Expected type of a field. */
+  type?: ZoneType;
+  doc: string;
+}
+
+function fieldHover(
+  instance: BlockInstance,
+  nameNode: { start: number; end: number },
+  name: string,
+): SchemaHover | null {
+  const field = instance.schema?.fields[name];
+  if (!field) return null;
+  return {
+    start: nameNode.start,
+    end: nameNode.end,
+    title: `${instance.label}.${name}${field.required ? " (required)" : ""}`,
+    // `_build.type` names a builder rather than holding a string
+    type:
+      instance.block === "_build" && name === "type" ? undefined : field.type,
+    doc: field.doc,
+  };
+}
+
+/** Documentation for a block keyword, fetcher, build type or field. */
+export function schemaHoverAt(
+  parsed: ParseResult,
+  offset: number,
+): SchemaHover | null {
+  const chain = nodesAt(parsed.file, offset);
+  const inner = chain[chain.length - 1];
+  const instance = enclosingBlock(chain);
+  if (!instance) return null;
+  const binding = instance.binding;
+
+  const head = binding.path[0];
+  if (head.start <= offset && offset <= head.end) {
+    return {
+      start: head.start,
+      end: head.end,
+      title: instance.block,
+      doc: BLOCK_DOCS[instance.block],
+    };
+  }
+  const dotted = binding.path[1];
+  if (dotted && dotted.start <= offset && offset <= dotted.end) {
+    const name = attrNameText(dotted);
+    return name ? fieldHover(instance, dotted, name) : null;
+  }
+
+  if (instance.block === "_src") {
+    const call = fetcherCall(binding.value)!;
+    if (call.name.start <= offset && offset <= call.name.end) {
+      const fetcher = FETCHERS[call.name.name];
+      return fetcher
+        ? {
+            start: call.name.start,
+            end: call.name.end,
+            title: instance.label,
+            doc: fetcher.doc,
+          }
+        : null;
+    }
+  }
+
+  if (!instance.set) return null;
+  const index = chain.indexOf(instance.set);
+  const field = chain[index + 1];
+  if (index === -1 || !field || field.kind !== "Binding") return null;
+  const nameNode = field.path[0];
+  const name = attrNameText(nameNode);
+  if (!name) return null;
+  if (nameNode.start <= offset && offset <= nameNode.end) {
+    return fieldHover(instance, nameNode, name);
+  }
+  // The builder named by `_build.type`
+  if (
+    instance.block === "_build" &&
+    name === "type" &&
+    field.value &&
+    chain.includes(field.value)
+  ) {
+    const typeName = buildTypeName(field.value);
+    const builder = typeName ? BUILD_TYPES[typeName] : undefined;
+    if (builder && inner !== field) {
+      return {
+        start: field.value.start,
+        end: field.value.end,
+        title: `_build (${typeName})`,
+        doc: builder.doc,
+      };
+    }
+  }
+  return null;
+}
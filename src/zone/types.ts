@@ -0,0 +1,476 @@
+// The ZenOS `$type` system: parsing `_let` type annotations, inferring the
+// type of literal values and checking one against the other.
+//
+// Checking is deliberately conservative. Values whose type cannot be known
+// without evaluation (variables, selections, function calls …) are accepted.
+
+import { Expr, LetDecl, stringValue, walk } from "./ast";
+import { colorError } from "./colors";
+import { ParseResult } from "./parser";
+
+export type ZoneType =
+  | {
+      kind:
+        | "string"
+        | "int"
+        | "float"
+        | "bool"
+        | "null"
+        | "path"
+        | "package"
+        | "color"
+        | "function";
+    }
+  | { kind: "enum"; options: string[] }
+  | { kind: "list"; of: ZoneType | null }
+  | { kind: "set"; of: ZoneType | null }
+  | { kind: "either"; options: ZoneType[] }
+  | { kind: "functionTo"; result: ZoneType }
+  | { kind: "nullable"; of: ZoneType };
+
+/** Inferred type of a value; null when it cannot be known statically. */
+export type ValueType =
+  | "string"
+  | "int"
+  | "float"
+  | "bool"
+  | "null"
+  | "path"
+  | "list"
+  | "set"
+  | "function";
+
+/** Every member of `$type`, in the order completion offers them. */
+export const TYPE_NAMES = [
+  "boolean",
+  "bool",
+  "string",
+  "int",
+  "float",
+  "null",
+  "set",
+  "list",
+  "path",
+  "package",
+  "packages",
+  "color",
+  "function",
+  "functionTo",
+  "enum",
+  "either",
+  "nullable",
+];
+
+/** Members of `$type` that stand for a type on their own. */
+export const SIMPLE_TYPES: Record<string, ZoneType> = {
+  string: { kind: "string" },
+  int: { kind: "int" },
+  integer: { kind: "int" },
+  float: { kind: "float" },
+  bool: { kind: "bool" },
+  boolean: { kind: "bool" },
+  null: { kind: "null" },
+  path: { kind: "path" },
+  package: { kind: "package" },
+  packages: { kind: "list", of: { kind: "package" } },
+  color: { kind: "color" },
+  function: { kind: "function" },
+  list: { kind: "list", of: null },
+  set: { kind: "set", of: null },
+};
+
+export interface TypeIssue {
+  start: number;
+  end: number;
+  message: string;
+  /** The type the offending value failed; absent for annotation errors. */
+  expected?: ZoneType;
+}
+
+export type TypeResult =
+  { ok: true; type: ZoneType } | { ok: false; error: TypeIssue };
+
+/** `string` or `$type.string` → "string"; anything else → null. */
+function typeName(expr: Expr): string | null {
+  if (expr.kind === "Ident") return expr.name;
+  if (
+    expr.kind === "ZenVar" &&
+    expr.name === "type" &&
+    expr.segments.length === 1
+  ) {
+    return expr.segments[0].name;
+  }
+  return null;
+}
+
+/** Flatten `f a b` into `[f, a, b]`. */
+function spine(expr: Expr): Expr[] {
+  const parts: Expr[] = [];
+  let current = expr;
+  while (current.kind === "Apply") {
+    parts.unshift(current.arg);
+    current = current.fn;
+  }
+  parts.unshift(current);
+  return parts;
+}
+
+function fail(expr: Expr, message: string): TypeResult {
+  return {
+    ok: false,
+    error: { start: expr.start, end: expr.end, message },
+  };
+}
+
+/**
+ * Read a type annotation. Accepted forms:
+ * `t`, `$type.t`, `enum ["a" "b"]`, `either [t1 t2]`, `functionTo t`,
+ * `list of t`, `set of t`, `nullable t`.
+ */
+export function parseTypeExpr(expr: Expr): TypeResult {
+  if (expr.kind === "Paren" && expr.expr) return parseTypeExpr(expr.expr);
+
+  const [head, ...args] = spine(expr);
+  const name = typeName(head);
+  if (name === null) return fail(head, "Expected a type.");
+
+  switch (name) {
+    case "enum": {
+      const list = args[0];
+      if (!list || list.kind !== "List" || args.length > 1) {
+        return fail(expr, 'Expected a list of options: enum ["a" "b"].');
+      }
+      const options: string[] = [];
+      for (const item of list.items) {
+        const value = stringValue(item);
+        if (value === null) return fail(item, "Enum options must be strings.");
+        options.push(value);
+      }
+      return { ok: true, type: { kind: "enum", options } };
+    }
+    case "either": {
+      const list = args[0];
+      if (!list || list.kind !== "List" || args.length > 1) {
+        return fail(expr, "Expected a list of types: either [a b].");
+      }
+      const options: ZoneType[] = [];
+      for (const item of list.items) {
+        const option = parseTypeExpr(item);
+        if (!option.ok) return option;
+        options.push(option.type);
+      }
+      return { ok: true, type: { kind: "either", options } };
+    }
+    case "functionTo":
+    case "nullable": {
+      if (args.length !== 1) {
+        return fail(expr, `Expected exactly one type after '${name}'.`);
+      }
+      const inner = parseTypeExpr(args[0]);
+      if (!inner.ok) return inner;
+      return {
+        ok: true,
+        type:
+          name === "functionTo"
+            ? { kind: "functionTo", result: inner.type }
+            : { kind: "nullable", of: inner.type },
+      };
+    }
+    case "list":
+    case "set": {
+      if (args.length === 0) return { ok: true, type: SIMPLE_TYPES[name] };
+      // `list of t`; the `of` is optional
+      const rest =
+        args[0].kind === "Ident" && args[0].name === "of"
+          ? args.slice(1)
+          : args;
+      if (rest.length !== 1) {
+        return fail(expr, `Expected '${name} of <type>'.`);
+      }
+      const inner = parseTypeExpr(rest[0]);
+      if (!inner.ok) return inner;
+      return { ok: true, type: { kind: name, of: inner.type } };
+    }
+  }
+
+  const simple = SIMPLE_TYPES[name];
+  if (!simple) return fail(head, `Unknown type '${name}'.`);
+  if (args.length > 0) {
+    return fail(args[0], `Type '${name}' takes no arguments.`);
+  }
+  return { ok: true, type: simple };
+}
+
+export function formatType(type: ZoneType): string {
+  switch (type.kind) {
+    case "enum":
+      return `enum [${type.options.map((o) => `"${o}"`).join(" ")}]`;
+    case "list":
+      return type.of ? `list of ${formatType(type.of)}` : "list";
+    case "set":
+      return type.of ? `set of ${formatType(type.of)}` : "set";
+    case "either":
+      return `either [${type.options.map(formatType).join(" ")}]`;
+    case "functionTo":
+      return `functionTo ${formatType(type.result)}`;
+    case "nullable":
+      return `nullable ${formatType(type.of)}`;
+    default:
+      return type.kind;
+  }
+}
+
+export function inferType(expr: Expr): ValueType | null {
+  switch (expr.kind) {
+    case "String":
+      return "string";
+    case "Int":
+      return "int";
+    case "Float":
+      return "float";
+    case "Path":
+      return "path";
+    case "List":
+    case "Cascade":
+      return "list";
+    case "AttrSet":
+      return "set";
+    case "Lambda":
+      return "function";
+    case "HasAttr":
+      return "bool";
+    case "Ident":
+      if (expr.name === "true" || expr.name === "false") return "bool";
+      if (expr.name === "null") return "null";
+      return null;
+    case "Paren":
+      return expr.expr ? inferType(expr.expr) : null;
+    case "Unary":
+      if (expr.op === "!") return "bool";
+      return expr.operand ? inferType(expr.operand) : null;
+    case "Let":
+    case "With":
+    case "Assert":
+      return expr.body ? inferType(expr.body) : null;
+    case "If": {
+      const a = expr.then && inferType(expr.then);
+      const b = expr.else && inferType(expr.else);
+      return a && a === b ? a : null;
+    }
+    case "Binary":
+      switch (expr.op) {
+        case "==":
+        case "!=":
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+        case "&&":
+        case "||":
+        case "->":
+          return "bool";
+        case "++":
+          return "list";
+        case "//":
+          return "set";
+        case "+": {
+          // String and path concatenation keep the type of the left side
+          const left = inferType(expr.left);
+          if (left === "string" || left === "path") return left;
+          return numeric(expr);
+        }
+        case "-":
+        case "*":
+        case "/":
+          return numeric(expr);
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+function numeric(expr: Expr & { kind: "Binary" }): ValueType | null {
+  const left = inferType(expr.left);
+  const right = expr.right && inferType(expr.right);
+  if (!left || !right) return null;
+  if (left === "float" || right === "float") return "float";
+  return left === "int" && right === "int" ? "int" : null;
+}
+
+/**
+ * Check `expr` against `type`. Returns the innermost offending value, or
+ * null when the value is (or may be) valid.
+ */
+export function checkValue(type: ZoneType, expr: Expr): TypeIssue | null {
+  if (expr.kind === "Paren" && expr.expr) return checkValue(type, expr.expr);
+
+  const inferred = inferType(expr);
+  const mismatch = (): TypeIssue => ({
+    start: expr.start,
+    end: expr.end,
+    expected: type,
+    message: `Expected ${formatType(type)}, got ${inferred}.`,
+  });
+
+  switch (type.kind) {
+    case "nullable":
+      if (inferred === "null") return null;
+      return checkValue(type.of, expr);
+    case "either": {
+      if (!inferred) return null;
+      const accepted = type.options.some((o) => !checkValue(o, expr));
+      return accepted ? null : mismatch();
+    }
+    case "enum": {
+      if (!inferred) return null;
+      const value = stringValue(expr);
+      if (value !== null && type.options.includes(value)) return null;
+      return {
+        start: expr.start,
+        end: expr.end,
+        expected: type,
+        message: `Value ${value !== null ? `"${value}"` : "of type " + inferred} is not a valid option. Valid options: [${type.options.join(", ")}]`,
+      };
+    }
+    case "list":
+      if (!inferred) return null;
+      if (inferred !== "list") return mismatch();
+      if (type.of && expr.kind === "List") {
+        for (const item of expr.items) {
+          const error = checkValue(type.of, item);
+          if (error) return error;
+        }
+      }
+      return null;
+    case "set":
+      if (!inferred) return null;
+      if (inferred !== "set") return mismatch();
+      if (type.of && expr.kind === "AttrSet") {
+        for (const item of expr.items) {
+          if (item.kind !== "Binding" || !item.value) continue;
+          const error = checkValue(type.of, item.value);
+          if (error) return error;
+        }
+      }
+      return null;
+    case "functionTo":
+      if (!inferred) return null;
+      if (inferred !== "function") return mismatch();
+      if (expr.kind === "Lambda" && expr.body) {
+        return checkValue(type.result, expr.body);
+      }
+      return null;
+    case "float":
+      // Integers are valid floats, as they were before
+      return !inferred || inferred === "float" || inferred === "int"
+        ? null
+        : mismatch();
+    case "path": {
+      if (!inferred || inferred === "path") return null;
+      // Strings holding an absolute or relative path are paths too
+      if (inferred === "string") {
+        const value = stringValue(expr);
+        return value === null || /^(\/|\.\.?\/|~\/)/.test(value)
+          ? null
+          : mismatch();
+      }
+      return mismatch();
+    }
+    case "package":
+      // Derivations are attribute sets; anything else literal is wrong
+      return !inferred || inferred === "set" ? null : mismatch();
+    case "color": {
+      if (expr.kind === "ZenVar") return null;
+      if (!inferred) return null;
+      if (inferred !== "string") return mismatch();
+      const value = stringValue(expr);
+      const error = value === null ? null : colorError(value);
+      if (!error) return null;
+      return {
+        start: expr.start,
+        end: expr.end,
+        expected: type,
+        message: `Malformed color: ${error}.`,
+      };
+    }
+    default:
+      return !inferred || inferred === type.kind ? null : mismatch();
+  }
+}
+
+export interface DeclarationIssue extends TypeIssue {
+  code: "invalid-type" | "type-mismatch";
+  /** The `_let` variable the issue belongs to. */
+  name: string;
+}
+
+/** Check every `_let` annotation, and every value against its annotation. */
+export function checkDeclarations(parsed: ParseResult): DeclarationIssue[] {
+  const decls: LetDecl[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind === "LetDecl") decls.push(node);
+  });
+
+  const issues: DeclarationIssue[] = [];
+  for (const decl of decls) {
+    // Incomplete declarations are reported by the parser
+    if (!decl.name || !decl.type || decl.type.kind === "Error") continue;
+    const name = decl.name.name;
+
+    const type = parseTypeExpr(decl.type);
+    if (!type.ok) {
+      issues.push({ ...type.error, code: "invalid-type", name });
+      continue;
+    }
+    if (!decl.value || decl.value.kind === "Error") continue;
+
+    const error = checkValue(type.type, decl.value);
+    if (error) issues.push({ ...error, code: "type-mismatch", name });
+  }
+  return issues;
+}
+
+/** The parts of `expr` that `type` says are colors. */
+function colorParts(type: ZoneType, expr: Expr, found: Expr[]) {
+  if (expr.kind === "Paren" && expr.expr) {
+    colorParts(type, expr.expr, found);
+    return;
+  }
+  switch (type.kind) {
+    case "color":
+      found.push(expr);
+      return;
+    case "nullable":
+      colorParts(type.of, expr, found);
+      return;
+    case "either":
+      if (type.options.some((o) => o.kind === "color")) found.push(expr);
+      return;
+    case "list":
+      if (type.of && expr.kind === "List") {
+        for (const item of expr.items) colorParts(type.of, item, found);
+      }
+      return;
+    case "set":
+      if (type.of && expr.kind === "AttrSet") {
+        for (const item of expr.items) {
+          if (item.kind === "Binding" && item.value) {
+            colorParts(type.of, item.value, found);
+          }
+        }
+      }
+      return;
+  }
+}
+
+/** Values of `_let` declarations that their annotation says are colors. */
+export function colorValues(parsed: ParseResult): Expr[] {
+  const found: Expr[] = [];
+  walk(parsed.file, (node) => {
+    if (node.kind !== "LetDecl" || !node.type || !node.value) return;
+    const type = parseTypeExpr(node.type);
+    if (type.ok) colorParts(type.type, node.value, found);
+  });
+  return found;
+}
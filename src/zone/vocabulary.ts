@@ -0,0 +1,80 @@
+// Project additions to the Z.O.N.E. vocabulary: extra `$` globals, `$type`
+// members, structural node kinds and `_build` types, declared in the project
+// configuration. They go into the same tables as the built-in vocabulary, so
+// the parser, checks, completion and hover pick them up like any other.
+// Applying a vocabulary first takes the previous one out again, which lets
+// the configuration change while the server runs.
+
+import { STRUCTURAL_KINDS } from "./ast";
+import {
+  Doc,
+  GLOBAL_DOCS,
+  STRUCTURAL_ARGS,
+  STRUCTURAL_DOCS,
+  TYPE_DOCS,
+} from "./docs";
+import { BUILD_TYPES, FieldSet } from "./schema";
+import { SIMPLE_TYPES, TYPE_NAMES, ZoneType } from "./types";
+
+export interface Vocabulary {
+  /** `$name` → its docs. */
+  globals: Record<string, Doc>;
+  /** `$type.name` → the type it stands for. */
+  types: Record<string, { type: ZoneType; doc: string }>;
+  /** `(name …)` → its docs and, when it takes one, its argument. */
+  nodes: Record<string, { doc: Doc; arg?: { name: string; doc: string } }>;
+  buildTypes: Record<string, FieldSet>;
+}
+
+let current: Vocabulary = { globals: {}, types: {}, nodes: {}, buildTypes: {} };
+
+/** Put back what the current vocabulary replaced, newest first. */
+let undo: (() => void)[] = [];
+
+/** The vocabulary applied last. */
+export function getVocabulary(): Vocabulary {
+  return current;
+}
+
+/** Set `table[key]`, remembering the entry it replaces. */
+function setEntry<T>(table: Record<string, T>, key: string, value: T) {
+  const had = Object.prototype.hasOwnProperty.call(table, key);
+  const previous = table[key];
+  table[key] = value;
+  undo.push(() => {
+    if (had) table[key] = previous;
+    else delete table[key];
+  });
+}
+
+function addName(list: string[], name: string) {
+  if (list.includes(name)) return;
+  list.push(name);
+  undo.push(() => {
+    const index = list.indexOf(name);
+    if (index !== -1) list.splice(index, 1);
+  });
+}
+
+export function applyVocabulary(vocabulary: Vocabulary) {
+  for (const restore of undo.reverse()) restore();
+  undo = [];
+  current = vocabulary;
+
+  for (const [name, doc] of Object.entries(vocabulary.globals)) {
+    setEntry(GLOBAL_DOCS, name, doc);
+  }
+  for (const [name, { type, doc }] of Object.entries(vocabulary.types)) {
+    addName(TYPE_NAMES, name);
+    setEntry(SIMPLE_TYPES, name, type);
+    setEntry(TYPE_DOCS, name, doc);
+  }
+  for (const [name, { doc, arg }] of Object.entries(vocabulary.nodes)) {
+    addName(STRUCTURAL_KINDS, name);
+    setEntry(STRUCTURAL_DOCS, name, doc);
+    if (arg) setEntry(STRUCTURAL_ARGS, name, arg);
+  }
+  for (const [name, schema] of Object.entries(vocabulary.buildTypes)) {
+    setEntry(BUILD_TYPES, name, schema);
+  }
+}